@@ -7,17 +7,36 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title ReelPredict
  * @notice Prediction market for short-form video content with Yellow Network integration (Rizzz.fun)
- * @dev Handles deposits, settlements, and payouts for reel prediction challenges
+ * @dev Handles deposits, settlements, and payouts for reel prediction challenges.
+ *      Settlement posts a Merkle root of (participant, amount) payouts; each
+ *      winner pulls their share with `claim`, so settling costs the same gas
+ *      however many predictors a challenge has.
+ *
+ *      Settlement is two-phase: `proposeSettlement` opens a dispute window
+ *      during which any participant can knock the proposal out with a later
+ *      clearnode-signed state or a conflicting clearnode-signed settlement;
+ *      `finalizeSettlement` applies it once the window has passed.
  */
 contract ReelPredict is Ownable, ReentrancyGuard {
     using SafeERC20 for IERC20;
     using ECDSA for bytes32;
     using MessageHashUtils for bytes32;
 
+    // ============ Enums ============
+
+    /// @notice What happens to the pool when nobody predicted the winner
+    enum NoWinnerPolicy {
+        None,
+        Refund,
+        Rollover,
+        Jackpot
+    }
+
     // ============ Structs ============
 
     struct Challenge {
@@ -36,29 +55,73 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         uint256 timestamp;
         bytes32 channelId;
         bool isActive;
+        string challengeId;
     }
 
     struct SettlementData {
         bytes32 stateHash;
+        /// @dev Nonce of the session state behind stateHash
+        uint64 stateNonce;
         bytes[] signatures;
-        address[] participants;
-        uint256[] payouts;
+        /// @dev Root over leaves keccak256(bytes.concat(keccak256(abi.encode(participant, amount))))
+        bytes32 payoutRoot;
+        /// @dev Sum of every leaf amount — reserved in the contract for claims
+        uint256 totalPayout;
         string winnerReelId;
+        NoWinnerPolicy noWinnerPolicy;
+        string rolloverChallengeId;
+        uint256 unclaimedAmount;
+        /// @dev Creator of each paid reel (the winner, or every podium reel)
+        address[] creators;
+        /// @dev Fee owed to creators[i]
+        uint256[] creatorFees;
+        /// @dev Platform fee owed to the treasury
+        uint256 platformFee;
+    }
+
+    struct PendingSettlement {
+        bytes32 stateHash;
+        uint64 stateNonce;
+        bytes32 payoutRoot;
+        uint256 totalPayout;
+        string winnerReelId;
+        NoWinnerPolicy noWinnerPolicy;
+        string rolloverChallengeId;
+        uint256 unclaimedAmount;
+        address[] creators;
+        uint256[] creatorFees;
+        uint256 platformFee;
+        bytes32 messageHash;
+        uint256 disputeDeadline;
     }
 
     // ============ State Variables ============
 
     IERC20 public immutable predictionToken;
     address public yellowClearnode;
+    /// @dev Receives platform fees
+    address public treasury;
     uint256 public platformFeePercent = 250; // 2.5% in basis points
     uint256 public constant MAX_FEE = 1000; // 10% max fee
     uint256 public minDeposit = 1 * 10**6; // 1 USDC minimum (6 decimals)
+    uint256 public disputeWindow = 1 days;
     
     mapping(string => Challenge) public challenges;
     mapping(address => UserDeposit) public userDeposits;
     mapping(string => mapping(address => uint256)) public userPredictions;
     mapping(string => mapping(string => uint256)) public reelPredictionTotals;
     mapping(bytes32 => bool) public settledChannels;
+    uint256 public jackpotBalance;
+    mapping(string => bytes32) public payoutRoots;
+    mapping(string => uint256) public unclaimedPayouts;
+    mapping(string => mapping(address => bool)) public hasClaimed;
+    mapping(string => PendingSettlement) public pendingSettlements;
+    /// @dev Raised by a later-state dispute; re-proposals must be at least this fresh
+    mapping(string => uint64) public minStateNonce;
+    /// @dev States the clearnode signed two settlements for; never proposable again
+    mapping(bytes32 => bool) public equivocatedStates;
+    /// @dev Depositors per challenge — the accounts allowed to dispute its settlement
+    mapping(string => mapping(address => bool)) public isParticipant;
     
     string[] public activeChallengeIds;
     
@@ -83,28 +146,93 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         uint256 amount
     );
     
-    event SettlementSubmitted(
+    event SettlementProposed(
+        string indexed challengeId,
+        bytes32 stateHash,
+        uint64 stateNonce,
+        bytes32 payoutRoot,
+        uint256 disputeDeadline
+    );
+
+    event SettlementDisputed(
+        string indexed challengeId,
+        address indexed disputer,
+        bytes32 stateHash,
+        string reason
+    );
+
+    event SettlementBatchItemFailed(
+        string indexed challengeId,
+        bytes reason
+    );
+
+    event SettlementFinalized(
         string indexed challengeId,
         string winnerReelId,
         uint256 totalPool
     );
     
+    event PayoutRootPosted(
+        string indexed challengeId,
+        bytes32 payoutRoot,
+        uint256 totalPayout
+    );
+
     event PayoutDistributed(
         string indexed challengeId,
         address indexed user,
         uint256 amount
     );
     
+    event CreatorFeePaid(
+        string indexed challengeId,
+        address indexed creator,
+        uint256 amount
+    );
+
+    event PlatformFeePaid(
+        string indexed challengeId,
+        address indexed treasury,
+        uint256 amount
+    );
+
+    event PoolRolledOver(
+        string indexed challengeId,
+        string nextChallengeId,
+        uint256 amount
+    );
+
+    event JackpotFunded(
+        string indexed challengeId,
+        uint256 amount
+    );
+
+    event JackpotAwarded(
+        string indexed challengeId,
+        uint256 amount
+    );
+
+    event DisputeWindowUpdated(
+        uint256 oldWindow,
+        uint256 newWindow
+    );
+
     event ClearnodeUpdated(
         address indexed oldClearnode,
         address indexed newClearnode
     );
 
+    event TreasuryUpdated(
+        address indexed oldTreasury,
+        address indexed newTreasury
+    );
+
     // ============ Errors ============
 
     error ChallengeNotFound();
     error ChallengeAlreadyExists();
     error ChallengeNotEnded();
+    error ChallengeEnded();
     error ChallengeAlreadySettled();
     error InsufficientDeposit();
     error InvalidSignature();
@@ -112,6 +240,19 @@ contract ReelPredict is Ownable, ReentrancyGuard {
     error InvalidSettlementData();
     error Unauthorized();
     error InvalidFee();
+    error ChallengeNotSettled();
+    error AlreadyClaimed();
+    error InvalidProof();
+    error SettlementPending();
+    error NoPendingSettlement();
+    error DisputeWindowOpen();
+    error DisputeWindowClosed();
+    error StaleState();
+    error NotParticipant();
+    error NotFraudulent();
+    error InvalidTreasury();
+    error InvalidRolloverTarget();
+    error StateEquivocated();
 
     // ============ Constructor ============
 
@@ -121,6 +262,7 @@ contract ReelPredict is Ownable, ReentrancyGuard {
     ) Ownable(msg.sender) {
         predictionToken = IERC20(_predictionToken);
         yellowClearnode = _yellowClearnode;
+        treasury = msg.sender;
     }
 
     // ============ User Functions ============
@@ -145,21 +287,30 @@ contract ReelPredict is Ownable, ReentrancyGuard {
             amount: amount,
             timestamp: block.timestamp,
             channelId: channelId,
-            isActive: true
+            isActive: true,
+            challengeId: challengeId
         });
         
         challenges[challengeId].totalPool += amount;
+        isParticipant[challengeId][msg.sender] = true;
         
         emit DepositMade(msg.sender, amount, channelId, challengeId);
     }
 
     /**
      * @notice Emergency withdrawal before challenge ends (with penalty)
-     * @dev Only available if user hasn't made any predictions
+     * @dev Only available if user hasn't made any predictions. The penalty
+     *      goes to the treasury and the whole deposit leaves the pool.
      */
     function emergencyWithdraw() external nonReentrant {
         UserDeposit storage userDeposit = userDeposits[msg.sender];
         if (!userDeposit.isActive) revert InsufficientDeposit();
+        Challenge storage challenge = challenges[userDeposit.challengeId];
+        // Once the challenge ends the deposit is part of the settlement and
+        // is paid out through the payout root instead
+        if (challenge.isSettled) revert ChallengeAlreadySettled();
+        if (pendingSettlements[userDeposit.challengeId].disputeDeadline != 0) revert SettlementPending();
+        if (block.timestamp >= challenge.endTime) revert ChallengeEnded();
         
         uint256 amount = userDeposit.amount;
         uint256 penalty = (amount * platformFeePercent) / 10000;
@@ -167,8 +318,14 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         
         userDeposit.isActive = false;
         userDeposit.amount = 0;
+        challenge.totalPool -= amount;
+        isParticipant[userDeposit.challengeId][msg.sender] = false;
         
         predictionToken.safeTransfer(msg.sender, withdrawAmount);
+        if (penalty > 0) {
+            predictionToken.safeTransfer(treasury, penalty);
+            emit PlatformFeePaid(userDeposit.challengeId, treasury, penalty);
+        }
         
         emit WithdrawalMade(msg.sender, withdrawAmount);
     }
@@ -176,69 +333,317 @@ contract ReelPredict is Ownable, ReentrancyGuard {
     // ============ Settlement Functions ============
 
     /**
-     * @notice Submit settlement from Yellow Network
-     * @dev Called by clearnode with aggregated off-chain state
+     * @notice Propose a settlement from Yellow Network
+     * @dev Called by clearnode with aggregated off-chain state. Opens the
+     *      dispute window; nothing moves until `finalizeSettlement`.
      * @param challengeId Challenge to settle
      * @param settlementData Aggregated settlement data from Yellow Network
      */
-    function submitSettlement(
+    function proposeSettlement(
         string calldata challengeId,
         SettlementData calldata settlementData
     ) external nonReentrant {
+        _proposeSettlement(challengeId, settlementData);
+    }
+
+    /**
+     * @notice Propose settlements for several challenges in one transaction
+     * @dev Each challenge is proposed on its own: one that fails (already
+     *      settled, bad signature, ...) emits `SettlementBatchItemFailed`
+     *      and the rest still go through.
+     * @return proposed Whether each challenge's proposal was accepted
+     */
+    function proposeSettlements(
+        string[] calldata challengeIds,
+        SettlementData[] calldata settlementData
+    ) external nonReentrant returns (bool[] memory proposed) {
+        if (challengeIds.length == 0 || challengeIds.length != settlementData.length) revert InvalidSettlementData();
+
+        proposed = new bool[](challengeIds.length);
+        for (uint256 i = 0; i < challengeIds.length; i++) {
+            try this.proposeSettlementInBatch(challengeIds[i], settlementData[i]) {
+                proposed[i] = true;
+            } catch (bytes memory reason) {
+                emit SettlementBatchItemFailed(challengeIds[i], reason);
+            }
+        }
+    }
+
+    /**
+     * @dev Entry point for `proposeSettlements`' try/catch — a failing
+     *      item reverts only this call. Only the contract may call it.
+     */
+    function proposeSettlementInBatch(
+        string calldata challengeId,
+        SettlementData calldata settlementData
+    ) external {
+        if (msg.sender != address(this)) revert Unauthorized();
+        _proposeSettlement(challengeId, settlementData);
+    }
+
+    function _proposeSettlement(
+        string calldata challengeId,
+        SettlementData calldata settlementData
+    ) internal {
         Challenge storage challenge = challenges[challengeId];
         
         if (bytes(challenge.challengeId).length == 0) revert ChallengeNotFound();
         if (block.timestamp < challenge.endTime) revert ChallengeNotEnded();
         if (challenge.isSettled) revert ChallengeAlreadySettled();
+        if (pendingSettlements[challengeId].disputeDeadline != 0) revert SettlementPending();
+        if (settlementData.stateNonce < minStateNonce[challengeId]) revert StaleState();
+        if (equivocatedStates[settlementData.stateHash]) revert StateEquivocated();
         
         // Verify settlement signatures from Yellow Network
-        _verifySettlement(settlementData);
-        
-        challenge.isSettled = true;
-        challenge.winnerReelId = settlementData.winnerReelId;
-        
-        // Distribute payouts
-        uint256 totalPayouts = 0;
-        for (uint256 i = 0; i < settlementData.participants.length; i++) {
-            address participant = settlementData.participants[i];
-            uint256 payout = settlementData.payouts[i];
-            
-            if (payout > 0) {
-                totalPayouts += payout;
-                predictionToken.safeTransfer(participant, payout);
-                
-                emit PayoutDistributed(challengeId, participant, payout);
+        bytes32 messageHash = _verifySettlement(settlementData);
+
+        // Everything that would make finalize revert is rejected here, while
+        // the challenge can still take a correct proposal
+        if (settlementData.noWinnerPolicy == NoWinnerPolicy.Rollover) {
+            if (bytes(settlementData.rolloverChallengeId).length == 0) revert InvalidSettlementData();
+            // A rollover needs a live challenge to land in, or the pool is stranded
+            Challenge storage next = challenges[settlementData.rolloverChallengeId];
+            if (
+                bytes(next.challengeId).length == 0 ||
+                next.isSettled ||
+                keccak256(bytes(settlementData.rolloverChallengeId)) == keccak256(bytes(challengeId))
+            ) revert InvalidRolloverTarget();
+        } else if (settlementData.noWinnerPolicy != NoWinnerPolicy.Jackpot && settlementData.unclaimedAmount != 0) {
+            revert InvalidSettlementData();
+        }
+
+        // The pool only grows once the challenge has ended, so a proposal
+        // within budget now is still within budget at finalize
+        uint256 creatorTotal;
+        for (uint256 i = 0; i < settlementData.creatorFees.length; i++) {
+            creatorTotal += settlementData.creatorFees[i];
+        }
+        if (
+            settlementData.totalPayout + settlementData.unclaimedAmount + creatorTotal + settlementData.platformFee >
+            challenge.totalPool
+        ) revert InvalidSettlementData();
+
+        uint256 deadline = block.timestamp + disputeWindow;
+        pendingSettlements[challengeId] = PendingSettlement({
+            stateHash: settlementData.stateHash,
+            stateNonce: settlementData.stateNonce,
+            payoutRoot: settlementData.payoutRoot,
+            totalPayout: settlementData.totalPayout,
+            winnerReelId: settlementData.winnerReelId,
+            noWinnerPolicy: settlementData.noWinnerPolicy,
+            rolloverChallengeId: settlementData.rolloverChallengeId,
+            unclaimedAmount: settlementData.unclaimedAmount,
+            creators: settlementData.creators,
+            creatorFees: settlementData.creatorFees,
+            platformFee: settlementData.platformFee,
+            messageHash: messageHash,
+            disputeDeadline: deadline
+        });
+
+        emit SettlementProposed(
+            challengeId,
+            settlementData.stateHash,
+            settlementData.stateNonce,
+            settlementData.payoutRoot,
+            deadline
+        );
+    }
+
+    /**
+     * @notice Contest a pending settlement with a later co-signed state
+     * @dev The clearnode signs every state it accepts as
+     *      keccak256(abi.encodePacked(challengeId, stateHash, stateNonce));
+     *      a signed state newer than the proposal's proves it stale.
+     */
+    function disputeWithLaterState(
+        string calldata challengeId,
+        bytes32 stateHash,
+        uint64 stateNonce,
+        bytes calldata signature
+    ) external {
+        PendingSettlement storage pending = _openPendingSettlement(challengeId);
+        if (stateNonce <= pending.stateNonce) revert StaleState();
+
+        bytes32 stateMessage = keccak256(abi.encodePacked(challengeId, stateHash, stateNonce));
+        if (stateMessage.toEthSignedMessageHash().recover(signature) != yellowClearnode) revert InvalidSignature();
+
+        minStateNonce[challengeId] = stateNonce;
+        _rejectPendingSettlement(challengeId, "later-state");
+    }
+
+    /**
+     * @notice Contest a pending settlement with a conflicting one for the same state
+     * @dev The clearnode signing two different settlements of one stateHash
+     *      is fraud on its face — the proposal is thrown out and the state
+     *      can't be proposed again, so the challenge settles from a later one.
+     */
+    function disputeWithFraudProof(
+        string calldata challengeId,
+        SettlementData calldata conflicting
+    ) external {
+        PendingSettlement storage pending = _openPendingSettlement(challengeId);
+        if (conflicting.stateHash != pending.stateHash) revert NotFraudulent();
+        if (conflicting.signatures.length == 0) revert InvalidSettlementData();
+
+        bytes32 messageHash = _settlementMessageHash(conflicting);
+        if (messageHash == pending.messageHash) revert NotFraudulent();
+        if (messageHash.toEthSignedMessageHash().recover(conflicting.signatures[0]) != yellowClearnode) {
+            revert InvalidSignature();
+        }
+
+        equivocatedStates[pending.stateHash] = true;
+        _rejectPendingSettlement(challengeId, "equivocation");
+    }
+
+    /**
+     * @notice Apply a pending settlement once its dispute window has passed
+     * @dev Callable by anyone. Posts the payout root and reserves
+     *      `totalPayout`; predictors then `claim`. Creator fees go to the
+     *      paid reels' creators and `platformFee` to the treasury.
+     */
+    function finalizeSettlement(string calldata challengeId) external nonReentrant {
+        _finalizeSettlement(challengeId);
+    }
+
+    /**
+     * @notice Finalize several pending settlements in one transaction
+     * @dev Same isolation as `proposeSettlements`: a failing challenge
+     *      emits `SettlementBatchItemFailed` and is skipped.
+     * @return finalized Whether each challenge was finalized
+     */
+    function finalizeSettlements(string[] calldata challengeIds) external nonReentrant returns (bool[] memory finalized) {
+        finalized = new bool[](challengeIds.length);
+        for (uint256 i = 0; i < challengeIds.length; i++) {
+            try this.finalizeSettlementInBatch(challengeIds[i]) {
+                finalized[i] = true;
+            } catch (bytes memory reason) {
+                emit SettlementBatchItemFailed(challengeIds[i], reason);
             }
-            
-            // Clear user deposit
-            userDeposits[participant].isActive = false;
         }
+    }
+
+    /**
+     * @dev Entry point for `finalizeSettlements`' try/catch. Only the contract may call it.
+     */
+    function finalizeSettlementInBatch(string calldata challengeId) external {
+        if (msg.sender != address(this)) revert Unauthorized();
+        _finalizeSettlement(challengeId);
+    }
+
+    function _finalizeSettlement(string calldata challengeId) internal {
+        Challenge storage challenge = challenges[challengeId];
+        PendingSettlement memory pending = pendingSettlements[challengeId];
+
+        if (pending.disputeDeadline == 0) revert NoPendingSettlement();
+        if (block.timestamp < pending.disputeDeadline) revert DisputeWindowOpen();
+
+        delete pendingSettlements[challengeId];
+        // A final session state settles at most once
+        settledChannels[pending.stateHash] = true;
+        challenge.isSettled = true;
+        challenge.winnerReelId = pending.winnerReelId;
         
-        // Platform fee from remaining pool
-        uint256 platformFee = challenge.totalPool - totalPayouts;
-        if (platformFee > 0) {
-            predictionToken.safeTransfer(owner(), platformFee);
+        // Reserve payouts for claims
+        uint256 totalPayouts = pending.totalPayout;
+        payoutRoots[challengeId] = pending.payoutRoot;
+        unclaimedPayouts[challengeId] = totalPayouts;
+        emit PayoutRootPosted(challengeId, pending.payoutRoot, totalPayouts);
+        
+        // Unclaimed pool (nobody predicted the winner) → rollover or jackpot
+        _applyNoWinnerPolicy(challengeId, pending);
+
+        // Creator fees straight to the paid reels' creators
+        for (uint256 i = 0; i < pending.creators.length; i++) {
+            uint256 fee = pending.creatorFees[i];
+            if (fee == 0) continue;
+            predictionToken.safeTransfer(pending.creators[i], fee);
+            emit CreatorFeePaid(challengeId, pending.creators[i], fee);
+        }
+
+        // Exactly the platform fee to the treasury — unstaked deposits are
+        // refunded to their depositors through the payout root
+        if (pending.platformFee > 0) {
+            predictionToken.safeTransfer(treasury, pending.platformFee);
+            emit PlatformFeePaid(challengeId, treasury, pending.platformFee);
         }
         
-        emit SettlementSubmitted(challengeId, settlementData.winnerReelId, challenge.totalPool);
+        emit SettlementFinalized(challengeId, pending.winnerReelId, challenge.totalPool);
+    }
+
+    /**
+     * @notice Claim a settled payout
+     * @param challengeId Settled challenge
+     * @param amount Payout for msg.sender in the challenge's payout root
+     * @param proof Merkle proof of (msg.sender, amount)
+     */
+    function claim(
+        string calldata challengeId,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external nonReentrant {
+        if (!challenges[challengeId].isSettled) revert ChallengeNotSettled();
+        if (hasClaimed[challengeId][msg.sender]) revert AlreadyClaimed();
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, amount))));
+        if (!MerkleProof.verifyCalldata(proof, payoutRoots[challengeId], leaf)) revert InvalidProof();
+
+        hasClaimed[challengeId][msg.sender] = true;
+        unclaimedPayouts[challengeId] -= amount;
+
+        UserDeposit storage userDeposit = userDeposits[msg.sender];
+        if (keccak256(bytes(userDeposit.challengeId)) == keccak256(bytes(challengeId))) {
+            userDeposit.isActive = false;
+        }
+
+        predictionToken.safeTransfer(msg.sender, amount);
+
+        emit PayoutDistributed(challengeId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Route the unclaimed pool according to the settlement's no-winner policy
+     * @dev Refunds are regular payouts; only Rollover / Jackpot keep funds in
+     *      the contract. The policy was validated at propose time.
+     */
+    function _applyNoWinnerPolicy(
+        string calldata challengeId,
+        PendingSettlement memory data
+    ) internal {
+        uint256 unclaimed = data.unclaimedAmount;
+        if (data.noWinnerPolicy == NoWinnerPolicy.Rollover) {
+
+            // Checked at propose time; if the target settled during the
+            // dispute window the pool goes to the jackpot instead
+            Challenge storage next = challenges[data.rolloverChallengeId];
+            if (!next.isSettled) {
+                next.totalPool += unclaimed;
+                emit PoolRolledOver(challengeId, data.rolloverChallengeId, unclaimed);
+            } else {
+                jackpotBalance += unclaimed;
+                emit JackpotFunded(challengeId, unclaimed);
+            }
+        } else if (data.noWinnerPolicy == NoWinnerPolicy.Jackpot) {
+            jackpotBalance += unclaimed;
+            emit JackpotFunded(challengeId, unclaimed);
+        }
     }
 
     /**
      * @notice Verify settlement data from Yellow Network
      * @dev Checks signatures from clearnode and participants
+     * @return messageHash The settlement message the clearnode signed
      */
-    function _verifySettlement(SettlementData calldata data) internal view {
-        if (data.participants.length != data.payouts.length) revert InvalidSettlementData();
+    function _verifySettlement(SettlementData calldata data) internal view returns (bytes32 messageHash) {
         if (data.signatures.length == 0) revert InvalidSettlementData();
+        // stateHash = keccak256 of the canonical session state encoding (see state-encoding.ts)
+        if (data.stateHash == bytes32(0)) revert InvalidSettlementData();
+        if (settledChannels[data.stateHash]) revert ChannelAlreadySettled();
+        if (data.creators.length != data.creatorFees.length) revert InvalidSettlementData();
+        for (uint256 i = 0; i < data.creators.length; i++) {
+            if (data.creators[i] == address(0)) revert InvalidSettlementData();
+        }
         
-        // Construct the message that was signed
-        bytes32 messageHash = keccak256(abi.encodePacked(
-            data.stateHash,
-            data.winnerReelId,
-            data.participants,
-            data.payouts
-        ));
-        
+        messageHash = _settlementMessageHash(data);
         bytes32 ethSignedHash = messageHash.toEthSignedMessageHash();
         
         // Verify clearnode signature (first signature)
@@ -246,6 +651,43 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         if (recoveredSigner != yellowClearnode) revert InvalidSignature();
     }
 
+    /**
+     * @notice The message the clearnode signs for a settlement
+     */
+    function _settlementMessageHash(SettlementData calldata data) internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked(
+            data.stateHash,
+            data.stateNonce,
+            data.winnerReelId,
+            data.payoutRoot,
+            data.totalPayout,
+            uint8(data.noWinnerPolicy),
+            data.rolloverChallengeId,
+            data.unclaimedAmount,
+            data.creators,
+            data.creatorFees,
+            data.platformFee
+        ));
+    }
+
+    /**
+     * @notice Pending settlement for a challenge, if its dispute window is still open
+     * @dev Only participants of the challenge may dispute
+     */
+    function _openPendingSettlement(string calldata challengeId) internal view returns (PendingSettlement storage pending) {
+        pending = pendingSettlements[challengeId];
+        if (pending.disputeDeadline == 0) revert NoPendingSettlement();
+        if (block.timestamp >= pending.disputeDeadline) revert DisputeWindowClosed();
+
+        if (!isParticipant[challengeId][msg.sender]) revert NotParticipant();
+    }
+
+    function _rejectPendingSettlement(string calldata challengeId, string memory reason) internal {
+        bytes32 stateHash = pendingSettlements[challengeId].stateHash;
+        delete pendingSettlements[challengeId];
+        emit SettlementDisputed(challengeId, msg.sender, stateHash, reason);
+    }
+
     // ============ Admin Functions ============
 
     /**
@@ -275,6 +717,21 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         emit ChallengeCreated(challengeId, title, startTime, endTime);
     }
 
+    /**
+     * @notice Move jackpot funds into a challenge's pool
+     */
+    function awardJackpot(string calldata challengeId, uint256 amount) external onlyOwner {
+        Challenge storage challenge = challenges[challengeId];
+        if (bytes(challenge.challengeId).length == 0) revert ChallengeNotFound();
+        if (challenge.isSettled) revert ChallengeAlreadySettled();
+        if (amount > jackpotBalance) revert InvalidSettlementData();
+
+        jackpotBalance -= amount;
+        challenge.totalPool += amount;
+
+        emit JackpotAwarded(challengeId, amount);
+    }
+
     /**
      * @notice Update Yellow Network clearnode address
      */
@@ -284,6 +741,16 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         emit ClearnodeUpdated(oldClearnode, _newClearnode);
     }
 
+    /**
+     * @notice Update where platform fees are sent
+     */
+    function setTreasury(address _newTreasury) external onlyOwner {
+        if (_newTreasury == address(0)) revert InvalidTreasury();
+        address oldTreasury = treasury;
+        treasury = _newTreasury;
+        emit TreasuryUpdated(oldTreasury, _newTreasury);
+    }
+
     /**
      * @notice Update platform fee
      */
@@ -292,6 +759,15 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         platformFeePercent = _newFeePercent;
     }
 
+    /**
+     * @notice Update how long proposed settlements stay open to disputes
+     */
+    function setDisputeWindow(uint256 _newWindow) external onlyOwner {
+        uint256 oldWindow = disputeWindow;
+        disputeWindow = _newWindow;
+        emit DisputeWindowUpdated(oldWindow, _newWindow);
+    }
+
     /**
      * @notice Update minimum deposit
      */
@@ -308,6 +784,13 @@ contract ReelPredict is Ownable, ReentrancyGuard {
         return challenges[challengeId];
     }
 
+    /**
+     * @notice Get the settlement awaiting finalization (disputeDeadline == 0 if none)
+     */
+    function getPendingSettlement(string calldata challengeId) external view returns (PendingSettlement memory) {
+        return pendingSettlements[challengeId];
+    }
+
     /**
      * @notice Get user deposit info
      */
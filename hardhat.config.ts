@@ -0,0 +1,41 @@
+import { subtask, type HardhatUserConfig } from 'hardhat/config';
+import { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD } from 'hardhat/builtin-tasks/task-names';
+import '@nomicfoundation/hardhat-toolbox';
+import 'dotenv/config';
+
+const SOLC_VERSION = '0.8.26';
+
+// Compile with the solcjs build from node_modules instead of downloading one,
+// so `npm test` works offline and in CI
+subtask(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, async (args: { solcVersion: string }, _hre, runSuper) => {
+  if (args.solcVersion !== SOLC_VERSION) return runSuper(args);
+  const solc = require('solc');
+  return {
+    compilerPath: require.resolve('solc/soljson.js'),
+    isSolcJs: true,
+    version: args.solcVersion,
+    longVersion: solc.version(),
+  };
+});
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: SOLC_VERSION,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      // ReelPredict's settlement paths are stack-too-deep without the IR pipeline
+      viaIR: true,
+    },
+  },
+  networks: {
+    sepolia: {
+      url: process.env.SEPOLIA_RPC_URL || '',
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+    },
+  },
+  mocha: {
+    timeout: 60_000,
+  },
+};
+
+export default config;
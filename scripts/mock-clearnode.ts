@@ -0,0 +1,67 @@
+/**
+ * Run a local mock Clearnode (see src/lib/yellow/mock-clearnode.ts)
+ *
+ *   npm run clearnode:mock
+ *   NEXT_PUBLIC_YELLOW_CLEARNODE_URL=ws://127.0.0.1:8765 \
+ *   NEXT_PUBLIC_TIMESTAMP_AUTHORITY_URL=http://127.0.0.1:8765/bid-time npm run dev
+ *
+ * Options come from env vars:
+ *   MOCK_CLEARNODE_PORT             port (default 8765)
+ *   MOCK_CLEARNODE_BROKER_KEY       broker private key (default: random)
+ *   MOCK_CLEARNODE_TIMESTAMP_KEY    bid-time authority private key (default: random)
+ *   MOCK_CLEARNODE_DROP_RATE        0–1, responses silently dropped
+ *   MOCK_CLEARNODE_DISCONNECT_RATE  0–1, requests answered by closing the socket
+ *   MOCK_CLEARNODE_DELAY_MS         "250" or "100-2000"
+ *   MOCK_CLEARNODE_FAIL_AUTH        "true" to reject every auth_verify
+ *   MOCK_CLEARNODE_DROP_METHODS     comma-separated methods never answered
+ */
+
+import type { Hex } from 'viem';
+import { MockClearnode, type MockClearnodeFaults } from '../src/lib/yellow/mock-clearnode';
+
+function parseDelay(value?: string): MockClearnodeFaults['delayMs'] {
+  if (!value) return undefined;
+  const [min, max] = value.split('-').map(Number);
+  return max === undefined ? min : [min, max];
+}
+
+async function main() {
+  const env = process.env;
+  const faults: MockClearnodeFaults = {
+    dropRate: env.MOCK_CLEARNODE_DROP_RATE ? Number(env.MOCK_CLEARNODE_DROP_RATE) : undefined,
+    disconnectRate: env.MOCK_CLEARNODE_DISCONNECT_RATE ? Number(env.MOCK_CLEARNODE_DISCONNECT_RATE) : undefined,
+    delayMs: parseDelay(env.MOCK_CLEARNODE_DELAY_MS),
+    failAuth: env.MOCK_CLEARNODE_FAIL_AUTH === 'true',
+    dropMethods: env.MOCK_CLEARNODE_DROP_METHODS?.split(',').map((m) => m.trim()).filter(Boolean),
+  };
+
+  const node = new MockClearnode({
+    port: env.MOCK_CLEARNODE_PORT ? Number(env.MOCK_CLEARNODE_PORT) : undefined,
+    brokerPrivateKey: env.MOCK_CLEARNODE_BROKER_KEY as Hex | undefined,
+    timestampPrivateKey: env.MOCK_CLEARNODE_TIMESTAMP_KEY as Hex | undefined,
+    faults,
+  });
+
+  node.on('connection', (id: number) => console.log(`🔌 Client #${id} connected`));
+  node.on('disconnection', (id: number) => console.log(`🔌 Client #${id} disconnected`));
+  node.on('appMessage', ({ appSessionId, payload }) => console.log(`📨 ${appSessionId.slice(0, 10)}…`, payload));
+  node.on('dropped', ({ method }) => console.log(`🕳️  Dropped ${method} response`));
+
+  await node.start();
+  console.log('   Faults:', JSON.stringify(faults));
+  console.log(`   NEXT_PUBLIC_YELLOW_CLEARNODE_URL=${node.url}`);
+  console.log(`   NEXT_PUBLIC_TIMESTAMP_AUTHORITY_URL=${node.timestampUrl}`);
+  console.log(`   TIMESTAMP_AUTHORITY_ADDRESS=${node.timestampAuthorityAddress}`);
+
+  const shutdown = async () => {
+    await node.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
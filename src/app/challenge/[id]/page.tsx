@@ -15,7 +15,7 @@ import { DepositModal } from '@/components/wallet/deposit-modal';
 import { ConnectButton } from '@/components/wallet/connect-button';
 import { Button } from '@/components/ui/button';
 import { useAppStore, type Reel, type Challenge } from '@/store/app-store';
-import { useYellowSession, usePredictions, useSettlement } from '@/lib/yellow';
+import { useYellowSession, usePredictions, useSettlement, useClaimWinnings, useSettlementDispute, sessionStorageKey } from '@/lib/yellow';
 import { cn, formatTokenAmount, formatTimeRemaining } from '@/lib/utils';
 import { ENSAvatar, ENSName } from '@/components/ens/ens-identity';
 import {
@@ -23,10 +23,12 @@ import {
   calculateTimeWeightedPayouts,
   getMultiplier,
   formatMultiplier,
+  MAX_MULTIPLIER,
   CREATOR_FEE_BPS,
   PLATFORM_FEE_BPS,
   type TimedPrediction,
 } from '@/lib/payout-algorithm';
+import { getChallengeTiming, isPredictionWindowOpen } from '@/lib/challenge-timing';
 
 const DEMO_DURATION_MS = 2 * 60 * 1000; // 2 minutes
 
@@ -73,6 +75,14 @@ function getDemoChallenge(): Challenge {
     reelCount: 4,
     participantCount: 12,
     status: 'active',
+    // Scaled-down anti-sniping rules so they're visible in a 2-minute demo
+    timing: {
+      blackoutMs: 10_000,
+      overtime: { windowMs: 30_000, shareShiftBps: 1500, extensionMs: 20_000, maxExtensions: 2 },
+    },
+    // Keep single wallets from dominating the demo pool
+    stakeLimits: { maxStakePerReel: 5_000_000n, maxPoolShareBps: 4000 },
+    stakeWeighting: 'sqrt',
   };
 }
 
@@ -89,6 +99,26 @@ function getDefaultChallenge(): Challenge {
     reelCount: 47,
     participantCount: 312,
     status: 'active',
+    // Multi-day challenge: flat daily tiers instead of a smooth curve
+    multiplier: {
+      curve: {
+        kind: 'step',
+        tiers: [
+          { until: 1 / 6, multiplier: 5 },
+          { until: 2 / 6, multiplier: 3.5 },
+          { until: 3 / 6, multiplier: 2.5 },
+          { until: 4 / 6, multiplier: 1.75 },
+          { until: 5 / 6, multiplier: 1.25 },
+          { until: 1, multiplier: 1 },
+        ],
+      },
+      minMultiplier: 1,
+      maxMultiplier: 5,
+    },
+    timing: {
+      blackoutMs: 60 * 60_000,
+      overtime: { windowMs: 3 * 60 * 60_000, shareShiftBps: 1500, extensionMs: 60 * 60_000, maxExtensions: 3 },
+    },
   };
 }
 
@@ -153,15 +183,32 @@ type ViewMode = 'grid' | 'feed';
 
 // ── Countdown ring component ──
 
-function CountdownRing({ endTime, startTime }: { endTime: number; startTime: number }) {
+function CountdownRing({
+  endTime,
+  startTime,
+  closesAt = endTime,
+  isOvertime = false,
+}: {
+  /** Effective end (after any overtime) */
+  endTime: number;
+  startTime: number;
+  /** Prediction cutoff (start of the blackout) */
+  closesAt?: number;
+  isOvertime?: boolean;
+}) {
   const [timeLeft, setTimeLeft] = useState(0);
+  const [isClosed, setIsClosed] = useState(false);
 
   useEffect(() => {
-    const update = () => setTimeLeft(Math.max(0, endTime - Date.now()));
+    const update = () => {
+      const now = Date.now();
+      setTimeLeft(Math.max(0, endTime - now));
+      setIsClosed(now >= closesAt);
+    };
     update();
     const id = setInterval(update, 100);
     return () => clearInterval(id);
-  }, [endTime]);
+  }, [endTime, closesAt]);
 
   const total = endTime - startTime;
   const progress = total > 0 ? Math.max(0, Math.min(1, timeLeft / total)) : 0;
@@ -199,7 +246,9 @@ function CountdownRing({ endTime, startTime }: { endTime: number; startTime: num
         )}>
           {String(mins).padStart(2, '0')}:{String(secs).padStart(2, '0')}
         </span>
-        <span className="text-[10px] text-reel-muted">remaining</span>
+        <span className="text-[10px] text-reel-muted">
+          {isClosed ? 'closed' : isOvertime ? 'overtime' : 'remaining'}
+        </span>
       </div>
     </div>
   );
@@ -401,7 +450,7 @@ function DemoResultsOverlay({
       reelId: p.reelId,
       amount: BigInt(p.amount ?? 0),
       timestamp: p.timestamp || (challenge.startTime + 60_000),
-      predictor: 'user',
+      predictor: p.predictor || 'user',
     });
   }
   const mockOtherPredictions: TimedPrediction[] = reels.map((reel, i) => ({
@@ -413,8 +462,21 @@ function DemoResultsOverlay({
   }));
   allPredictions.push(...mockOtherPredictions);
 
+  const closesAt = challenge.timing
+    ? getChallengeTiming(challenge.endTime, challenge.timing, allPredictions).closesAt
+    : undefined;
+
   const payoutBreakdown = calculateTimeWeightedPayouts(
     allPredictions, winner?.id || '', challenge.startTime, challenge.endTime,
+    CREATOR_FEE_BPS, PLATFORM_FEE_BPS,
+    {
+      multiplier: challenge.multiplier,
+      noWinnerPolicy: challenge.noWinnerPolicy,
+      carriedPool: challenge.carriedPool,
+      closesAt,
+      stakeLimits: challenge.stakeLimits,
+      weighting: challenge.stakeWeighting,
+    },
   );
 
   let userPayout = 0n;
@@ -427,7 +489,7 @@ function DemoResultsOverlay({
   }
   const userTotalStaked = predictions.reduce((s: bigint, p: any) => s + BigInt(p.amount ?? 0), 0n);
   const userMult = predictions.length > 0
-    ? getMultiplier(predictions[0].timestamp || challenge.startTime + 60_000, challenge.startTime, challenge.endTime)
+    ? getMultiplier(predictions[0].timestamp || challenge.startTime + 60_000, challenge.startTime, challenge.endTime, challenge.multiplier)
     : 1;
 
   return (
@@ -505,6 +567,15 @@ function DemoResultsOverlay({
             <span className="text-reel-muted font-medium">Distributed to winners</span>
             <span className="text-reel-success font-mono font-bold">{formatTokenAmount(payoutBreakdown.distributablePool, 6)} USDC</span>
           </div>
+          {payoutBreakdown.noWinner && (
+            <p className="text-[10px] text-reel-muted/80">
+              {payoutBreakdown.noWinner.policy.kind === 'refund'
+                ? 'Nobody predicted the winner — stakes refunded pro rata (minus fees)'
+                : payoutBreakdown.noWinner.policy.kind === 'rollover'
+                  ? `Nobody predicted the winner — pool rolls into ${payoutBreakdown.noWinner.policy.nextChallengeId}`
+                  : 'Nobody predicted the winner — pool added to the jackpot'}
+            </p>
+          )}
         </motion.div>
 
         {/* User result */}
@@ -564,6 +635,112 @@ function DemoResultsOverlay({
   );
 }
 
+// ── Pending settlement (dispute window) ──
+
+function PendingSettlementCard({ challengeId }: { challengeId: string }) {
+  const { pending, review, contest, finalize, isSubmitting, error } = useSettlementDispute(challengeId);
+  const [evidence, setEvidence] = useState('');
+  if (!pending) return null;
+
+  const isOpen = Date.now() < pending.disputeDeadline;
+
+  return (
+    <section className="px-4 pt-6">
+      <div className="bg-reel-elevated rounded-2xl p-5 border border-reel-warning/30 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-white font-semibold">
+            <Clock className="w-4 h-4 text-reel-warning" /> Settlement proposed
+          </span>
+          <span className="font-mono text-xs text-reel-warning">
+            {isOpen ? `Disputable ${formatTimeRemaining(pending.disputeDeadline)}` : 'Window closed'}
+          </span>
+        </div>
+        <div className="space-y-1.5 text-xs">
+          <div className="flex justify-between">
+            <span className="text-reel-muted">Winner</span>
+            <span className="text-white font-mono">{pending.winnerReelId}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-reel-muted">Paid to winners</span>
+            <span className="text-white font-mono">{formatTokenAmount(pending.totalPayout, 6)} USDC</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-reel-muted">State nonce</span>
+            <span className="text-white font-mono">{pending.stateNonce}</span>
+          </div>
+        </div>
+
+        {review && review.reasons.length > 0 && (
+          <div className="rounded-xl bg-reel-error/10 border border-reel-error/20 p-3 text-xs text-reel-error space-y-1">
+            {review.reasons.map((reason) => <p key={reason}>{reason}</p>)}
+          </div>
+        )}
+
+        {isOpen ? (
+          <>
+            {review?.evidence?.kind === 'later-state' && (
+              <Button
+                onClick={() => contest().catch(console.warn)}
+                disabled={isSubmitting}
+                className="w-full h-11 font-semibold"
+              >
+                {isSubmitting ? 'Submitting…' : `Contest with your signed state (nonce ${review.evidence.state.nonce})`}
+              </Button>
+            )}
+            <textarea
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+              placeholder="Paste evidence: a clearnode-signed later state or a conflicting signed settlement (JSON)"
+              className="w-full h-20 p-3 rounded-lg bg-reel-surface border border-reel-border text-white font-mono text-[11px] outline-none focus:border-reel-warning"
+            />
+            <Button
+              onClick={() => contest(evidence).catch(console.warn)}
+              disabled={!evidence.trim() || isSubmitting}
+              variant="glass"
+              className="w-full h-11 font-semibold"
+            >
+              {isSubmitting ? 'Submitting…' : 'Contest settlement'}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => finalize().catch(console.warn)} disabled={isSubmitting} className="w-full h-11 font-semibold">
+            {isSubmitting ? 'Finalizing…' : 'Finalize settlement'}
+          </Button>
+        )}
+        {error && <p className="text-reel-error text-xs">{error.message}</p>}
+      </div>
+    </section>
+  );
+}
+
+// ── Claim winnings (Merkle-claim settlement) ──
+
+function ClaimWinningsCard({ challengeId }: { challengeId: string }) {
+  const { claim, hasClaimed, claimWinnings, isClaiming, error } = useClaimWinnings(challengeId);
+  if (!claim) return null;
+
+  return (
+    <section className="px-4 pt-6">
+      <div className="bg-reel-success/5 rounded-2xl p-5 border border-reel-success/20">
+        <div className="flex items-center justify-between mb-3">
+          <span className="flex items-center gap-2 text-white font-semibold">
+            <Trophy className="w-4 h-4 text-reel-warning" /> Your winnings
+          </span>
+          <span className="text-reel-success font-mono font-bold">{formatTokenAmount(claim.amount, 6)} USDC</span>
+        </div>
+        <Button
+          onClick={() => claimWinnings().catch(console.warn)}
+          disabled={hasClaimed || isClaiming}
+          className="w-full h-12 text-base font-semibold"
+        >
+          {hasClaimed ? 'Claimed ✓' : isClaiming ? 'Claiming…' : 'Claim winnings'}
+        </Button>
+        {error && <p className="text-reel-error text-xs mt-2">{error.message}</p>}
+      </div>
+    </section>
+  );
+}
+
 // ── Main challenge page ──
 
 export default function ChallengePage() {
@@ -587,7 +764,7 @@ export default function ChallengePage() {
     reels,
   } = useAppStore();
 
-  const { session } = useYellowSession();
+  const { session } = useYellowSession(challengeId);
   const { predictions } = usePredictions(challengeId);
   const { requestSettlement } = useSettlement();
 
@@ -598,10 +775,27 @@ export default function ChallengePage() {
     setReels(mockReels.map((r) => ({ ...r, challengeId })));
   }, [setActiveChallenge, setReels, mockChallenge, challengeId]);
 
+  // Blackout + overtime from the session's predictions
+  const timing = useMemo(
+    () => getChallengeTiming(
+      mockChallenge.endTime,
+      mockChallenge.timing,
+      predictions.map((p) => ({ ...p, timestamp: p.attestation?.timestamp ?? p.timestamp })),
+    ),
+    [mockChallenge, predictions],
+  );
+
+  // Publish overtime so cards and the prediction panel see the same end
+  useEffect(() => {
+    if (!activeChallenge || activeChallenge.id !== mockChallenge.id) return;
+    if ((activeChallenge.effectiveEndTime ?? activeChallenge.endTime) === timing.effectiveEndTime) return;
+    setActiveChallenge({ ...activeChallenge, effectiveEndTime: timing.effectiveEndTime });
+  }, [activeChallenge, mockChallenge.id, timing.effectiveEndTime, setActiveChallenge]);
+
   // Demo countdown
   useEffect(() => {
     if (!isDemo) return;
-    const endTime = mockChallenge.endTime;
+    const endTime = timing.effectiveEndTime;
     const tick = () => {
       const remaining = endTime - Date.now();
       if (remaining <= 0) {
@@ -619,14 +813,14 @@ export default function ChallengePage() {
     tick();
     const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [isDemo, mockChallenge.endTime, showResults, challengeId, requestSettlement]);
+  }, [isDemo, timing.effectiveEndTime, showResults, challengeId, requestSettlement]);
 
   // Live multiplier
   const [currentMultiplier, setCurrentMultiplier] = useState('');
   useEffect(() => {
     if (!activeChallenge) return;
     const tick = () => {
-      const info = getCurrentMultiplierInfo(activeChallenge.startTime, activeChallenge.endTime);
+      const info = getCurrentMultiplierInfo(activeChallenge.startTime, activeChallenge.endTime, Date.now(), activeChallenge.multiplier);
       setCurrentMultiplier(info.formatted);
     };
     tick();
@@ -637,15 +831,16 @@ export default function ChallengePage() {
   const handleRestartDemo = useCallback(() => {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('rizzz-demo-start');
-      localStorage.removeItem('rizzz-session');
+      localStorage.removeItem(sessionStorageKey(challengeId));
     }
     setShowResults(false);
     window.location.reload();
-  }, []);
+  }, [challengeId]);
 
   const handlePredictClick = useCallback(
     (reel: Reel) => {
       if (!isConnected) return;
+      if (!isPredictionWindowOpen(mockChallenge.startTime, timing)) return;
       if (!session) {
         setDepositModalOpen(true);
         return;
@@ -653,7 +848,7 @@ export default function ChallengePage() {
       setSelectedReel(reel);
       setShowPredictionPanel(true);
     },
-    [isConnected, session, setDepositModalOpen],
+    [isConnected, session, setDepositModalOpen, mockChallenge.startTime, timing],
   );
 
   const handleStartViewing = useCallback(() => setViewMode('feed'), []);
@@ -741,16 +936,19 @@ export default function ChallengePage() {
                 <p className="font-sans text-reel-muted text-[10px] mt-1">Players</p>
               </div>
               <div className="text-center">
-                <p className="font-mono text-[#00E5FF] text-lg font-bold">{formatTimeRemaining(challenge.endTime)}</p>
-                <p className="font-sans text-reel-muted text-[10px] mt-1">Time Left</p>
+                <p className="font-mono text-[#00E5FF] text-lg font-bold">{formatTimeRemaining(timing.effectiveEndTime)}</p>
+                <p className="font-sans text-reel-muted text-[10px] mt-1">{timing.extensions > 0 ? 'Overtime' : 'Time Left'}</p>
               </div>
               <div className="text-center">
-                <p className="font-mono text-[#F5FF00] text-lg font-bold">5×</p>
+                <p className="font-mono text-[#F5FF00] text-lg font-bold">{challenge.multiplier?.maxMultiplier ?? MAX_MULTIPLIER}×</p>
                 <p className="font-sans text-reel-muted text-[10px] mt-1">Max Multiplier</p>
               </div>
             </div>
           </section>
 
+          {!isDemo && <PendingSettlementCard challengeId={challengeId} />}
+          {!isDemo && <ClaimWinningsCard challengeId={challengeId} />}
+
           {/* Main CTA Section */}
           <section className="px-4 py-6">
             <div className="bg-reel-elevated rounded-2xl p-6 border border-reel-border">
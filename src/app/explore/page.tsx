@@ -1,14 +1,16 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Search, X, Flame } from 'lucide-react';
 import { BottomNav } from '@/components/layout/bottom-nav';
 import { ConnectButton } from '@/components/wallet/connect-button';
 import { ChallengeCard } from '@/components/challenge/challenge-card';
 import type { Challenge } from '@/store/app-store';
+import { useIndexedChallenges, getIndexedChallengeStatus, type IndexedChallenge } from '@/lib/indexer';
 
-const allChallenges: Challenge[] = [
+// Demo challenges, shown when no indexer is configured
+const mockChallenges: Challenge[] = [
   {
     id: 'challenge_001',
     title: 'Best Dance Move Challenge',
@@ -76,11 +78,36 @@ const allChallenges: Challenge[] = [
   },
 ];
 
+/** Map an on-chain challenge onto the card model (no theme or cover on-chain) */
+function toChallenge(c: IndexedChallenge): Challenge {
+  const status = getIndexedChallengeStatus(c);
+  return {
+    id: c.id,
+    title: c.title || c.id,
+    description: '',
+    theme: '',
+    coverImage: '',
+    startTime: c.startTime,
+    endTime: c.endTime,
+    totalPool: c.totalPool ?? c.totalDeposited,
+    reelCount: 0,
+    participantCount: c.participants.length,
+    status: status === 'ended' || status === 'disputable' ? 'voting' : status,
+    winnerReelId: c.winnerReelId,
+  };
+}
+
 const themes = ['ALL', 'DANCE', 'COOKING', 'PETS', 'PHOTOGRAPHY', 'FITNESS', 'COMEDY', 'MUSIC', 'TECH', 'GAMING'];
 
 export default function ExplorePage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTheme, setSelectedTheme] = useState('ALL');
+  const { challenges: indexed, isEnabled } = useIndexedChallenges();
+
+  const allChallenges = useMemo(
+    () => (isEnabled ? indexed.map(toChallenge) : mockChallenges),
+    [isEnabled, indexed],
+  );
 
   const filteredChallenges = allChallenges.filter((c) => {
     const matchesSearch = c.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -1,14 +1,15 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Trophy, Medal, Crown } from 'lucide-react';
 import { BottomNav } from '@/components/layout/bottom-nav';
 import { ConnectButton } from '@/components/wallet/connect-button';
 import { cn, formatTokenAmount, truncateAddress } from '@/lib/utils';
 import { ENSName, ENSAvatar } from '@/components/ens/ens-identity';
+import { useLeaderboard } from '@/lib/indexer';
 
-// Mock leaderboard data with real ENS-named addresses
+// Demo leaderboard (real ENS-named addresses), shown when no indexer is configured
 const mockLeaderboard = [
   { rank: 1, address: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045', username: 'PredictionKing', winRate: 78.5, totalEarnings: 125000n * 10n ** 18n, streak: 12 },
   { rank: 2, address: '0x983110309620D911731Ac0932219af06091b6744', username: 'ReelMaster', winRate: 72.3, totalEarnings: 98000n * 10n ** 18n, streak: 8 },
@@ -22,8 +23,22 @@ const mockLeaderboard = [
 
 type TimeFrame = 'weekly' | 'monthly' | 'allTime';
 
+const TIME_FRAME_MS: Partial<Record<TimeFrame, number>> = {
+  weekly: 7 * 86400000,
+  monthly: 30 * 86400000,
+};
+
 export default function LeaderboardPage() {
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('weekly');
+  const since = useMemo(
+    () => {
+      const span = TIME_FRAME_MS[timeFrame];
+      return span ? Date.now() - span : 0;
+    },
+    [timeFrame],
+  );
+  const { entries, isEnabled, isSynced } = useLeaderboard(since);
+  const leaderboard = isEnabled ? entries : mockLeaderboard;
 
   return (
     <div className="min-h-screen bg-reel-bg pb-24">
@@ -59,81 +74,87 @@ export default function LeaderboardPage() {
       <section className="px-4 pb-8">
         <div className="flex items-end justify-center gap-4 h-64">
           {/* 2nd place */}
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.1 }}
-            className="flex flex-col items-center flex-1 max-w-[120px]"
-          >
-            <ENSAvatar 
-              address={mockLeaderboard[1].address} 
-              size="lg"
-              className="mb-2 ring-2 ring-gray-400"
-            />
-            <Medal className="w-6 h-6 text-gray-300 mb-1" />
-            <ENSName 
-              address={mockLeaderboard[1].address} 
-              className="text-sm text-white font-semibold truncate w-full text-center"
-              chars={6}
-            />
-            <p className="text-xs font-mono text-[#F5FF00] mt-1">
-              {formatTokenAmount(mockLeaderboard[1].totalEarnings)}
-            </p>
-            <div className="w-full h-24 rounded-t-2xl bg-gradient-to-t from-gray-500/50 to-gray-400/30 mt-2 flex items-center justify-center">
-              <span className="text-3xl font-display font-bold text-gray-300">2</span>
-            </div>
-          </motion.div>
+          {leaderboard[1] && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="flex flex-col items-center flex-1 max-w-[120px]"
+            >
+              <ENSAvatar 
+                address={leaderboard[1].address} 
+                size="lg"
+                className="mb-2 ring-2 ring-gray-400"
+              />
+              <Medal className="w-6 h-6 text-gray-300 mb-1" />
+              <ENSName 
+                address={leaderboard[1].address} 
+                className="text-sm text-white font-semibold truncate w-full text-center"
+                chars={6}
+              />
+              <p className="text-xs font-mono text-[#F5FF00] mt-1">
+                {formatTokenAmount(leaderboard[1].totalEarnings)}
+              </p>
+              <div className="w-full h-24 rounded-t-2xl bg-gradient-to-t from-gray-500/50 to-gray-400/30 mt-2 flex items-center justify-center">
+                <span className="text-3xl font-display font-bold text-gray-300">2</span>
+              </div>
+            </motion.div>
+          )}
 
           {/* 1st place */}
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="flex flex-col items-center flex-1 max-w-[140px]"
-          >
-            <Crown className="w-8 h-8 text-[#F5FF00] mb-1" />
-            <ENSAvatar 
-              address={mockLeaderboard[0].address} 
-              size="lg"
-              className="mb-2 ring-4 ring-[#F5FF00]/50 glow-yellow"
-            />
-            <ENSName 
-              address={mockLeaderboard[0].address} 
-              className="text-base text-white font-bold truncate w-full text-center"
-              chars={6}
-            />
-            <p className="text-sm font-mono text-[#F5FF00] mt-1 font-bold">
-              {formatTokenAmount(mockLeaderboard[0].totalEarnings)}
-            </p>
-            <div className="w-full h-32 rounded-t-2xl bg-gradient-to-t from-[#F5FF00]/50 to-[#F5FF00]/30 mt-2 flex items-center justify-center glow-yellow">
-              <span className="text-4xl font-display font-bold text-black">1</span>
-            </div>
-          </motion.div>
+          {leaderboard[0] && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex flex-col items-center flex-1 max-w-[140px]"
+            >
+              <Crown className="w-8 h-8 text-[#F5FF00] mb-1" />
+              <ENSAvatar 
+                address={leaderboard[0].address} 
+                size="lg"
+                className="mb-2 ring-4 ring-[#F5FF00]/50 glow-yellow"
+              />
+              <ENSName 
+                address={leaderboard[0].address} 
+                className="text-base text-white font-bold truncate w-full text-center"
+                chars={6}
+              />
+              <p className="text-sm font-mono text-[#F5FF00] mt-1 font-bold">
+                {formatTokenAmount(leaderboard[0].totalEarnings)}
+              </p>
+              <div className="w-full h-32 rounded-t-2xl bg-gradient-to-t from-[#F5FF00]/50 to-[#F5FF00]/30 mt-2 flex items-center justify-center glow-yellow">
+                <span className="text-4xl font-display font-bold text-black">1</span>
+              </div>
+            </motion.div>
+          )}
 
           {/* 3rd place */}
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.2 }}
-            className="flex flex-col items-center flex-1 max-w-[120px]"
-          >
-            <ENSAvatar 
-              address={mockLeaderboard[2].address} 
-              size="md"
-              className="mb-2 ring-2 ring-amber-600"
-            />
-            <Medal className="w-6 h-6 text-amber-600 mb-1" />
-            <ENSName 
-              address={mockLeaderboard[2].address} 
-              className="text-sm text-white font-semibold truncate w-full text-center"
-              chars={6}
-            />
-            <p className="text-xs font-mono text-[#F5FF00] mt-1">
-              {formatTokenAmount(mockLeaderboard[2].totalEarnings)}
-            </p>
-            <div className="w-full h-20 rounded-t-2xl bg-gradient-to-t from-amber-600/50 to-amber-500/30 mt-2 flex items-center justify-center">
-              <span className="text-3xl font-display font-bold text-amber-600">3</span>
-            </div>
-          </motion.div>
+          {leaderboard[2] && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className="flex flex-col items-center flex-1 max-w-[120px]"
+            >
+              <ENSAvatar 
+                address={leaderboard[2].address} 
+                size="md"
+                className="mb-2 ring-2 ring-amber-600"
+              />
+              <Medal className="w-6 h-6 text-amber-600 mb-1" />
+              <ENSName 
+                address={leaderboard[2].address} 
+                className="text-sm text-white font-semibold truncate w-full text-center"
+                chars={6}
+              />
+              <p className="text-xs font-mono text-[#F5FF00] mt-1">
+                {formatTokenAmount(leaderboard[2].totalEarnings)}
+              </p>
+              <div className="w-full h-20 rounded-t-2xl bg-gradient-to-t from-amber-600/50 to-amber-500/30 mt-2 flex items-center justify-center">
+                <span className="text-3xl font-display font-bold text-amber-600">3</span>
+              </div>
+            </motion.div>
+          )}
         </div>
       </section>
 
@@ -141,7 +162,7 @@ export default function LeaderboardPage() {
       <section className="px-4">
         <h3 className="font-display text-white text-2xl uppercase mb-4">RANKINGS</h3>
         <div className="space-y-2">
-          {mockLeaderboard.map((user, index) => (
+          {leaderboard.map((user, index) => (
             <motion.div
               key={user.address}
               initial={{ opacity: 0, y: 20 }}
@@ -190,6 +211,12 @@ export default function LeaderboardPage() {
             </motion.div>
           ))}
         </div>
+
+        {isEnabled && leaderboard.length === 0 && (
+          <p className="text-center text-reel-muted py-12">
+            {isSynced ? 'No claimed payouts in this period yet' : 'Reading on-chain results…'}
+          </p>
+        )}
       </section>
 
       <BottomNav />
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   User, Wallet, Trophy, TrendingUp, History, 
@@ -11,13 +11,25 @@ import { BottomNav } from '@/components/layout/bottom-nav';
 import { ConnectButton } from '@/components/wallet/connect-button';
 import { Button } from '@/components/ui/button';
 import { TabGroup } from '@/components/ui/tab-group';
-import { useYellowSession } from '@/lib/yellow';
-import { cn, formatTokenAmount, truncateAddress } from '@/lib/utils';
+import { useYellowSessions } from '@/lib/yellow';
+import { useUserActivity, getIndexer, type UserActivity } from '@/lib/indexer';
+import { cn, formatTokenAmount, formatTimeRemaining, truncateAddress } from '@/lib/utils';
 import { useENSIdentity, useENSSocialProfile, formatENSOrAddress } from '@/lib/ens';
 import { ENSAvatar } from '@/components/ens/ens-identity';
 import { PredictionPassportEditor } from '@/components/ens/prediction-passport';
+import { SessionKeyPanel } from '@/components/wallet/session-key-panel';
 
-// Mock stats
+interface HistoryItem {
+  id: string;
+  challenge: string;
+  reel: string;
+  amount: bigint;
+  settled: boolean;
+  won: boolean;
+  earnings: bigint;
+}
+
+// Demo stats + history, shown when no indexer is configured
 const mockStats = {
   totalPredictions: 47,
   totalWins: 12,
@@ -26,19 +38,50 @@ const mockStats = {
   totalDeposited: 3000n * 1_000_000n,
 };
 
-const mockHistory = [
-  { id: '1', challenge: 'Dance Challenge', reel: '@DanceMaster', amount: 200n * 10n ** 18n, won: true, earnings: 450n * 10n ** 18n },
-  { id: '2', challenge: 'Cooking Hacks', reel: '@ChefLife', amount: 150n * 10n ** 18n, won: false, earnings: 0n },
-  { id: '3', challenge: 'Pet Tricks', reel: '@DogWhisperer', amount: 100n * 10n ** 18n, won: true, earnings: 280n * 10n ** 18n },
+const mockHistory: HistoryItem[] = [
+  { id: '1', challenge: 'Dance Challenge', reel: '@DanceMaster', amount: 200n * 10n ** 18n, settled: true, won: true, earnings: 450n * 10n ** 18n },
+  { id: '2', challenge: 'Cooking Hacks', reel: '@ChefLife', amount: 150n * 10n ** 18n, settled: false, won: false, earnings: 0n },
+  { id: '3', challenge: 'Pet Tricks', reel: '@DogWhisperer', amount: 100n * 10n ** 18n, settled: true, won: true, earnings: 280n * 10n ** 18n },
 ];
 
+/** One row per deposit, with what it paid out once the challenge settled */
+function toHistory(activity: UserActivity): HistoryItem[] {
+  const indexer = getIndexer();
+  return activity.deposits.map((d) => {
+    const challenge = indexer.getChallenge(d.challengeId);
+    const payouts = activity.payouts.filter((p) => p.challengeId === d.challengeId);
+    const earnings = payouts.reduce((sum, p) => sum + p.amount, 0n);
+    return {
+      id: `${d.txHash}-${d.logIndex}`,
+      challenge: challenge?.title || d.challengeId,
+      reel: challenge?.winnerReelId ? `Winner: ${challenge.winnerReelId}` : 'Awaiting result',
+      amount: d.amount,
+      settled: !!challenge?.settled,
+      won: payouts.length > 0,
+      earnings,
+    };
+  });
+}
+
 export default function ProfilePage() {
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState<'active' | 'history' | 'achievements'>('active');
   
   const { address, isConnected } = useAccount();
   const { disconnect } = useDisconnect();
-  const { session } = useYellowSession();
+  const { openSessions } = useYellowSessions();
+  const { activity, isEnabled: isIndexed } = useUserActivity(address);
+
+  const stats = useMemo(() => (activity
+    ? {
+        totalPredictions: activity.challengesEntered,
+        totalWins: activity.wins,
+        winRate: activity.winRate,
+        totalEarnings: activity.totalEarnings,
+        totalDeposited: activity.totalDeposited,
+      }
+    : mockStats), [activity]);
+  const history = useMemo(() => (isIndexed && activity ? toHistory(activity) : mockHistory), [isIndexed, activity]);
 
   // ENS hooks
   const { name: ensName, avatar: ensAvatar, isLoading: ensLoading } = useENSIdentity(address);
@@ -126,15 +169,15 @@ export default function ProfilePage() {
       <section className="px-4 py-6 -mt-8">
         <div className="grid grid-cols-3 gap-3">
           <div className="bg-reel-elevated rounded-xl p-4 border border-reel-border text-center">
-            <p className="font-mono text-[#F5FF00] text-xl font-bold">{mockStats.totalPredictions}</p>
+            <p className="font-mono text-[#F5FF00] text-xl font-bold">{stats.totalPredictions}</p>
             <p className="font-sans text-reel-muted text-xs mt-1">Predictions</p>
           </div>
           <div className="bg-reel-elevated rounded-xl p-4 border border-reel-border text-center">
-            <p className="font-mono text-[#F5FF00] text-xl font-bold">{mockStats.winRate}%</p>
+            <p className="font-mono text-[#F5FF00] text-xl font-bold">{stats.winRate}%</p>
             <p className="font-sans text-reel-muted text-xs mt-1">Win Rate</p>
           </div>
           <div className="bg-reel-elevated rounded-xl p-4 border border-reel-border text-center">
-            <p className="font-mono text-[#F5FF00] text-xl font-bold">{formatTokenAmount(mockStats.totalEarnings, 0)}</p>
+            <p className="font-mono text-[#F5FF00] text-xl font-bold">{formatTokenAmount(stats.totalEarnings, 0)}</p>
             <p className="font-sans text-reel-muted text-xs mt-1">Total Won</p>
           </div>
         </div>
@@ -149,7 +192,36 @@ export default function ProfilePage() {
       <section className="px-4 py-6">
         {activeTab === 'active' && (
           <div className="space-y-3">
-            {mockHistory.filter(h => h.won === false).map((item, index) => (
+            {openSessions.length > 0 && (
+              <p className="font-sans text-reel-muted text-xs uppercase tracking-wide">Open Sessions</p>
+            )}
+            {openSessions.map((s, index) => (
+              <motion.div
+                key={s.sessionId}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="p-4 rounded-xl bg-reel-surface border border-[#F5FF00]/40"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-semibold text-white">{s.challengeId}</p>
+                    <p className="text-sm text-reel-muted">
+                      {s.state.predictions.size} predictions · {formatTimeRemaining(s.expiresAt)}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono font-semibold text-[#F5FF00]">
+                      {formatTokenAmount(s.availableBalance)}
+                    </p>
+                    <p className="text-xs text-reel-muted mt-1">
+                      {formatTokenAmount(s.state.lockedAmount)} locked
+                    </p>
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+            {history.filter(h => !h.settled).map((item, index) => (
               <motion.div
                 key={item.id}
                 initial={{ opacity: 0, x: -20 }}
@@ -178,7 +250,7 @@ export default function ProfilePage() {
 
         {activeTab === 'history' && (
           <div className="space-y-3">
-            {mockHistory.map((item, index) => (
+            {history.map((item, index) => (
               <motion.div
                 key={item.id}
                 initial={{ opacity: 0, x: -20 }}
@@ -202,7 +274,7 @@ export default function ProfilePage() {
                       'text-xs mt-1',
                       item.won ? 'text-[#00ff88]' : 'text-reel-muted'
                     )}>
-                      {item.won ? 'Won' : 'Lost'}
+                      {item.won ? 'Won' : item.settled ? 'Lost' : 'Pending'}
                     </p>
                   </div>
                 </div>
@@ -236,6 +308,11 @@ export default function ProfilePage() {
         )}
       </section>
 
+      {/* Session key */}
+      <section className="px-4">
+        <SessionKeyPanel />
+      </section>
+
       {/* Disconnect button */}
       <section className="px-4 py-6">
         <Button
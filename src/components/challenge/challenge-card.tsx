@@ -7,6 +7,7 @@ import Link from 'next/link';
 import { cn, formatTokenAmount, formatTimeRemaining } from '@/lib/utils';
 import { LiveBadge } from '@/components/ui/live-badge';
 import { MultiplierBadge } from '@/components/ui/multiplier-badge';
+import { MAX_MULTIPLIER } from '@/lib/payout-algorithm';
 import type { Challenge } from '@/store/app-store';
 
 interface ChallengeCardProps {
@@ -25,13 +26,20 @@ export function ChallengeCard({ challenge, index = 0 }: ChallengeCardProps) {
   const [timeRemaining, setTimeRemaining] = useState('');
   const isLive = challenge.status === 'active' || challenge.status === 'voting';
   const isUpcoming = challenge.status === 'upcoming';
+  const [isClosed, setIsClosed] = useState(false);
+  const endTime = challenge.effectiveEndTime ?? challenge.endTime;
+  const closesAt = endTime - (challenge.timing?.blackoutMs ?? 0);
+  const isOvertime = endTime > challenge.endTime;
 
   useEffect(() => {
-    const updateTime = () => setTimeRemaining(formatTimeRemaining(challenge.endTime));
+    const updateTime = () => {
+      setTimeRemaining(formatTimeRemaining(endTime));
+      setIsClosed(Date.now() >= closesAt);
+    };
     updateTime();
     const interval = setInterval(updateTime, 1000);
     return () => clearInterval(interval);
-  }, [challenge.endTime]);
+  }, [endTime, closesAt]);
 
   const status = statusConfig[challenge.status];
 
@@ -88,7 +96,7 @@ export function ChallengeCard({ challenge, index = 0 }: ChallengeCardProps) {
 
             {/* Bottom-left multiplier badge */}
             <div className="absolute bottom-3 left-3">
-              <MultiplierBadge multiplier="5" />
+              <MultiplierBadge multiplier={String(challenge.multiplier?.maxMultiplier ?? MAX_MULTIPLIER)} />
             </div>
           </div>
 
@@ -111,8 +119,8 @@ export function ChallengeCard({ challenge, index = 0 }: ChallengeCardProps) {
               </div>
               <div className="flex items-center gap-1">
                 <Clock className="w-3.5 h-3.5 text-reel-muted" />
-                <span className="font-mono text-reel-muted text-xs">
-                  {timeRemaining || '…'}
+                <span className={cn('font-mono text-xs', isOvertime ? 'text-[#FF4D4D]' : 'text-reel-muted')}>
+                  {isOvertime && isLive ? 'OT ' : ''}{timeRemaining || '…'}
                 </span>
               </div>
             </div>
@@ -127,7 +135,7 @@ export function ChallengeCard({ challenge, index = 0 }: ChallengeCardProps) {
               }}
               className="w-full mt-3 py-2.5 rounded-lg border border-[#F5FF00] text-[#F5FF00] bg-transparent hover:bg-[#F5FF00] hover:text-black font-semibold text-sm transition-all duration-200"
             >
-              PREDICT
+              {isLive && isClosed ? 'PREDICTIONS CLOSED' : 'PREDICT'}
             </motion.button>
           </div>
         </div>
@@ -1,14 +1,24 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useAccount } from 'wagmi';
 import { X, Coins, TrendingUp, Zap, AlertCircle, CheckCircle, Clock, Flame } from 'lucide-react';
 import { useAppStore, type Reel } from '@/store/app-store';
 import { usePredictions, useYellowSession } from '@/lib/yellow';
 import { Button } from '@/components/ui/button';
 import { cn, formatTokenAmount, parseTokenAmount, calculatePercentage, formatPercentage } from '@/lib/utils';
 import { useToast } from '@/components/ui/toast';
-import { getCurrentMultiplierInfo, estimatePayout, formatMultiplier } from '@/lib/payout-algorithm';
+import {
+  getCurrentMultiplierInfo,
+  evaluateCurve,
+  quotePayout,
+  stakeSize,
+  DEFAULT_MULTIPLIER_CONFIG,
+  CREATOR_FEE_BPS,
+  PLATFORM_FEE_BPS,
+  type ReelPoolSnapshot,
+} from '@/lib/payout-algorithm';
 import { ENSName } from '@/components/ens/ens-identity';
 
 interface PredictionPanelProps {
@@ -24,10 +34,11 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
 
-  const { session, availableBalance } = useYellowSession();
+  const { address } = useAccount();
+  const { session, availableBalance } = useYellowSession(challengeId);
   const { makePrediction, getTotalForReel, isLoading } = usePredictions(challengeId);
   const { addToast } = useToast();
-  const { addPrediction, activeChallenge } = useAppStore();
+  const { addPrediction, activeChallenge, reels } = useAppStore();
 
   // USDC-style tokens use 6 decimals
   const parsedAmount = amount ? parseTokenAmount(amount, 6) : 0n;
@@ -43,30 +54,58 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
   // ── Live multiplier ───────────────────────────
   const [multiplierInfo, setMultiplierInfo] = useState(() =>
     activeChallenge
-      ? getCurrentMultiplierInfo(activeChallenge.startTime, activeChallenge.endTime)
+      ? getCurrentMultiplierInfo(activeChallenge.startTime, activeChallenge.endTime, Date.now(), activeChallenge.multiplier)
       : null
   );
+  const [isClosed, setIsClosed] = useState(false);
 
   // Refresh multiplier every second so the user sees it ticking down
   useEffect(() => {
     if (!activeChallenge) return;
-    const tick = () =>
-      setMultiplierInfo(getCurrentMultiplierInfo(activeChallenge.startTime, activeChallenge.endTime));
+    const closesAt = (activeChallenge.effectiveEndTime ?? activeChallenge.endTime) - (activeChallenge.timing?.blackoutMs ?? 0);
+    const tick = () => {
+      setMultiplierInfo(getCurrentMultiplierInfo(activeChallenge.startTime, activeChallenge.endTime, Date.now(), activeChallenge.multiplier));
+      setIsClosed(Date.now() >= closesAt);
+    };
     tick();
     const id = setInterval(tick, 1000);
     return () => clearInterval(id);
   }, [activeChallenge]);
 
-  // Estimated payout if user wins
-  const estimatedPayout =
-    activeChallenge && parsedAmount > 0n
-      ? estimatePayout(
+  // Per-reel pools for the quote. Reels without a known weight sum are
+  // assumed to have been staked around the contest midpoint (as one bet
+  // under sqrt weighting, which slightly flatters the quote).
+  const reelPools = useMemo<ReelPoolSnapshot[]>(() => {
+    const midScaled = BigInt(Math.round(
+      evaluateCurve(0.5, activeChallenge?.multiplier ?? DEFAULT_MULTIPLIER_CONFIG) * 10000,
+    ));
+    return reels.map((r) => ({
+      reelId: r.id,
+      amount: r.predictionPool,
+      weight: r.predictionWeight ?? (stakeSize(r.predictionPool, activeChallenge?.stakeWeighting) * midScaled) / 10000n,
+    }));
+  }, [reels, activeChallenge]);
+
+  // Quote if this reel wins, from the real pool composition
+  const quote =
+    activeChallenge && reel && parsedAmount > 0n
+      ? quotePayout(
           parsedAmount,
-          activeChallenge.totalPool,
+          reel.id,
+          reelPools,
           activeChallenge.startTime,
           activeChallenge.endTime,
+          Date.now(),
+          CREATOR_FEE_BPS,
+          PLATFORM_FEE_BPS,
+          {
+            multiplier: activeChallenge.multiplier,
+            carriedPool: activeChallenge.carriedPool,
+            weighting: activeChallenge.stakeWeighting,
+          },
         )
-      : 0n;
+      : null;
+  const estimatedPayout = quote?.payoutIfWins ?? 0n;
 
   useEffect(() => {
     if (!reel) {
@@ -76,11 +115,13 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
   }, [reel]);
 
   const handleSubmit = useCallback(async () => {
-    if (!reel || !isValidAmount) return;
+    if (!reel || !isValidAmount || isClosed) return;
 
     setIsSubmitting(true);
     try {
-      await makePrediction(challengeId, reel.id, parsedAmount);
+      // Same pool the quote uses, so the pool-share cap sees every wallet
+      const poolTotal = reelPools.reduce((sum, p) => sum + p.amount, 0n);
+      await makePrediction(challengeId, reel.id, parsedAmount, address, activeChallenge?.stakeLimits, poolTotal);
       
       addPrediction({
         challengeId,
@@ -110,7 +151,7 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
     } finally {
       setIsSubmitting(false);
     }
-  }, [reel, isValidAmount, parsedAmount, challengeId, makePrediction, addPrediction, addToast, onClose, multiplierInfo]);
+  }, [reel, isValidAmount, isClosed, parsedAmount, challengeId, address, makePrediction, activeChallenge, reelPools, addPrediction, addToast, onClose, multiplierInfo]);
 
   const handleQuickAmount = useCallback((value: number) => {
     setAmount(value.toString());
@@ -343,17 +384,40 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
                       </div>
                     )}
 
-                    {/* Estimated payout */}
-                    {estimatedPayout > 0n && (
-                      <div className="flex items-center justify-between text-sm pt-1 border-t border-reel-border">
-                        <span className="text-reel-muted flex items-center gap-1">
-                          <Coins className="w-3.5 h-3.5 text-reel-success" />
-                          Est. payout if wins
-                        </span>
-                        <span className="text-reel-success font-mono font-bold">
-                          +{formatTokenAmount(estimatedPayout, 6)} USDC
-                        </span>
-                      </div>
+                    {/* Payout quote */}
+                    {quote && estimatedPayout > 0n && (
+                      <>
+                        <div className="flex items-center justify-between text-sm pt-1 border-t border-reel-border">
+                          <span className="text-reel-muted flex items-center gap-1">
+                            <Coins className="w-3.5 h-3.5 text-reel-success" />
+                            Payout if wins
+                          </span>
+                          <span className={cn(
+                            'font-mono font-bold',
+                            quote.profitIfWins >= 0n ? 'text-reel-success' : 'text-reel-error',
+                          )}>
+                            {formatTokenAmount(estimatedPayout, 6)} USDC
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="text-reel-muted">Break-even</span>
+                          <span className="text-white font-mono">
+                            {quote.breakEvenExtraStake === null
+                              ? 'Stays above stake'
+                              : quote.breakEvenExtraStake > 0n
+                                ? `+${formatTokenAmount(quote.breakEvenExtraStake, 6)} USDC more on this reel`
+                                : 'Below stake at current pool'}
+                          </span>
+                        </div>
+                        {quote.scenarios.map((sc) => (
+                          <div key={sc.extraStake.toString()} className="flex items-center justify-between text-[10px] text-reel-muted">
+                            <span>If +{formatTokenAmount(sc.extraStake, 6)} USDC arrives</span>
+                            <span className="font-mono">
+                              this reel {formatTokenAmount(sc.sameReel, 6)} • others {formatTokenAmount(sc.otherReels, 6)}
+                            </span>
+                          </div>
+                        ))}
+                      </>
                     )}
 
                     {/* Fee note */}
@@ -368,7 +432,7 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
               <div className="px-5 pb-6">
                 <Button
                   onClick={handleSubmit}
-                  disabled={!isValidAmount || isSubmitting}
+                  disabled={!isValidAmount || isSubmitting || isClosed}
                   isLoading={isSubmitting}
                   className="w-full h-14 text-lg"
                   variant="default"
@@ -376,6 +440,8 @@ export function PredictionPanel({ reel, challengeId, onClose }: PredictionPanelP
                   <Zap className="w-5 h-5" />
                   {isSubmitting
                     ? 'Placing Prediction...'
+                    : isClosed
+                    ? 'Predictions closed'
                     : `Predict Now${multiplierInfo ? ` (${multiplierInfo.formatted})` : ''}`}
                 </Button>
                 
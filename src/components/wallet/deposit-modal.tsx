@@ -140,7 +140,7 @@ export function DepositModal({ isOpen, onClose, challengeId }: DepositModalProps
   const { address } = useAccount();
   const chainId = useChainId();
   const { switchChainAsync } = useSwitchChain();
-  const { openSession } = useYellowSession();
+  const { openSession } = useYellowSession(challengeId);
   const { setSessionBalance, setDepositModalOpen } = useAppStore();
   const { addToast } = useToast();
   const expectedChainId = sepolia.id;
@@ -178,7 +178,7 @@ export function DepositModal({ isOpen, onClose, challengeId }: DepositModalProps
       // (faucet tokens are requested for the session key address, not the wallet)
       console.log('🚰 Starting sandbox session (faucet + auth handled by hooks)...');
       setStep('session');
-      const session = await openSession(parsedAmount, challengeId);
+      const session = await openSession(parsedAmount);
       setSessionBalance(session.availableBalance);
       setStep('success');
 
@@ -341,7 +341,7 @@ export function DepositModal({ isOpen, onClose, challengeId }: DepositModalProps
   const handleOpenSession = useCallback(async () => {
     setStep('session');
     try {
-      const session = await openSession(parsedAmount, challengeId);
+      const session = await openSession(parsedAmount);
       setSessionBalance(session.availableBalance);
       setStep('success');
       
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Lock, Unlock, KeyRound, Fingerprint, ShieldAlert, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast';
+import { useSessionKeyVault, type VaultUnlockMethod } from '@/lib/yellow';
+import { cn, truncateAddress } from '@/lib/utils';
+
+/**
+ * Secure, unlock and lock the session key that signs predictions and votes.
+ * A key that was never secured lives in memory only and is gone on reload
+ * (or once locked), leaving the vault empty until a new one is created.
+ */
+export function SessionKeyPanel() {
+  const [passphrase, setPassphrase] = useState('');
+  const { status, address, isPersisted, unlockKind, secure, unlock, lock, create, isLoading } = useSessionKeyVault();
+  const { addToast } = useToast();
+
+  const run = async (action: typeof secure, method: VaultUnlockMethod, success: string) => {
+    try {
+      await action(method);
+      setPassphrase('');
+      addToast({ type: 'success', title: success });
+    } catch (err: any) {
+      addToast({ type: 'error', title: 'Session key', message: err?.message?.substring(0, 100) || 'Please try again' });
+    }
+  };
+
+  const createKey = () => {
+    try {
+      create();
+      addToast({ type: 'success', title: 'New session key created' });
+    } catch (err: any) {
+      addToast({ type: 'error', title: 'Session key', message: err?.message?.substring(0, 100) || 'Please try again' });
+    }
+  };
+
+  const needsSecuring = status === 'unlocked' && !isPersisted;
+  const showPassphrase = needsSecuring || (status === 'locked' && unlockKind === 'passphrase');
+
+  return (
+    <div className="p-4 rounded-xl bg-reel-surface border border-reel-border space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {status === 'unlocked' ? (
+            <Unlock className="w-4 h-4 text-[#00ff88]" />
+          ) : status === 'empty' ? (
+            <ShieldAlert className="w-4 h-4 text-[#FF4D4D]" />
+          ) : (
+            <Lock className="w-4 h-4 text-[#F5FF00]" />
+          )}
+          <p className="font-semibold text-white">Session Key</p>
+        </div>
+        <span className={cn(
+          'font-mono text-xs',
+          status === 'unlocked' ? 'text-[#00ff88]' : status === 'empty' ? 'text-[#FF4D4D]' : 'text-[#F5FF00]'
+        )}>
+          {status === 'unlocked' ? 'Unlocked' : status === 'empty' ? 'No key' : 'Locked'}
+        </span>
+      </div>
+
+      {address && (
+        <p className="font-mono text-xs text-reel-muted">{truncateAddress(address, 6)}</p>
+      )}
+
+      {needsSecuring && (
+        <p className="flex items-start gap-2 text-xs text-[#FF4D4D]">
+          <ShieldAlert className="w-4 h-4 shrink-0" />
+          Not saved yet — secure it with a passphrase or passkey, or it is lost when you reload.
+        </p>
+      )}
+
+      {status === 'empty' && (
+        <p className="text-xs text-reel-muted">
+          The unsaved key was locked and is gone. Create a new one to keep predicting and voting.
+        </p>
+      )}
+
+      {showPassphrase && (
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete={needsSecuring ? 'new-password' : 'current-password'}
+          disabled={isLoading}
+          className="w-full h-11 px-4 rounded-xl bg-reel-card border border-reel-border focus:border-reel-primary focus:ring-1 focus:ring-reel-primary/50 outline-none font-mono text-white placeholder:text-reel-muted/50 transition-all disabled:opacity-50"
+        />
+      )}
+
+      <div className="flex gap-2">
+        {needsSecuring && (
+          <>
+            <Button
+              size="sm"
+              className="flex-1"
+              isLoading={isLoading}
+              disabled={!passphrase}
+              onClick={() => run(secure, { kind: 'passphrase', passphrase }, 'Session key secured')}
+            >
+              <KeyRound className="w-4 h-4" /> Passphrase
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              disabled={isLoading}
+              onClick={() => run(secure, { kind: 'passkey' }, 'Session key secured')}
+            >
+              <Fingerprint className="w-4 h-4" /> Passkey
+            </Button>
+          </>
+        )}
+
+        {status === 'locked' && unlockKind === 'passphrase' && (
+          <Button
+            size="sm"
+            className="flex-1"
+            isLoading={isLoading}
+            disabled={!passphrase}
+            onClick={() => run(unlock, { kind: 'passphrase', passphrase }, 'Session key unlocked')}
+          >
+            <Unlock className="w-4 h-4" /> Unlock
+          </Button>
+        )}
+
+        {status === 'locked' && unlockKind === 'passkey' && (
+          <Button
+            size="sm"
+            className="flex-1"
+            isLoading={isLoading}
+            onClick={() => run(unlock, { kind: 'passkey' }, 'Session key unlocked')}
+          >
+            <Fingerprint className="w-4 h-4" /> Unlock with passkey
+          </Button>
+        )}
+
+        {status === 'empty' && (
+          <Button size="sm" className="flex-1" onClick={createKey}>
+            <Plus className="w-4 h-4" /> New session key
+          </Button>
+        )}
+
+        {status === 'unlocked' && isPersisted && (
+          <Button size="sm" variant="ghost" className="flex-1" onClick={lock}>
+            <Lock className="w-4 h-4" /> Lock now
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Challenge timing rules — anti-sniping
+ *
+ * A fixed `endTime` invites sniping: the last-minute multiplier is still
+ * 1×, so a whale can dump on the obvious leader just before the bell.
+ * Two per-challenge rules push back:
+ *
+ * ──────────────────────────────────────────────
+ * BLACKOUT
+ * ──────────────────────────────────────────────
+ *
+ *   New predictions close `blackoutMs` before the (effective) end.
+ *   Settlement refunds anything timed inside the blackout.
+ *
+ * ──────────────────────────────────────────────
+ * OVERTIME
+ * ──────────────────────────────────────────────
+ *
+ *   If any reel's share of the pool moves by ≥ `shareShiftBps` during the
+ *   final `windowMs`, the end is pushed back by `extensionMs` (reopening
+ *   predictions until the new blackout). Each overtime period is checked
+ *   the same way, up to `maxExtensions` times.
+ *
+ *   Example: windowMs = 10 min, shareShiftBps = 1500, extensionMs = 5 min
+ *     Reel A holds 60% at T-10min and 40% at T → 20% shift → end = T+5min
+ *     Overtime [T, T+5min] stays calm → settles at T+5min
+ *
+ * The multiplier curve keeps running on the nominal [startTime, endTime];
+ * overtime bids simply get the minimum multiplier.
+ */
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export interface OvertimeRule {
+  /** Final stretch (before the current end) watched for share swings */
+  windowMs: number;
+  /** Share change of any single reel that triggers overtime, in basis points */
+  shareShiftBps: number;
+  /** How far each overtime pushes the end back */
+  extensionMs: number;
+  /** Cap on consecutive extensions */
+  maxExtensions: number;
+}
+
+export interface ChallengeTimingRules {
+  /** Predictions close this long before the effective end */
+  blackoutMs?: number;
+  overtime?: OvertimeRule;
+}
+
+/** The bits of a prediction the timing rules look at */
+export interface TimedStake {
+  reelId: string;
+  amount: bigint;
+  timestamp: number;
+}
+
+export interface ChallengeTiming {
+  /** Nominal end from the challenge definition */
+  endTime: number;
+  /** End after overtime extensions — what countdowns and settlement use */
+  effectiveEndTime: number;
+  /** When new predictions stop being accepted */
+  closesAt: number;
+  /** Number of overtime extensions applied */
+  extensions: number;
+}
+
+// ────────────────────────────────────────────────
+// Rules
+// ────────────────────────────────────────────────
+
+/**
+ * Largest change in any reel's pool share (bps) between the pools as of
+ * `from` and as of `to`. Returns 0 when the pool was empty at `from` —
+ * with nobody to dump on there's nothing to protect.
+ */
+export function maxShareShiftBps(stakes: TimedStake[], from: number, to: number): number {
+  const before = new Map<string, bigint>();
+  const after = new Map<string, bigint>();
+  let totalBefore = 0n;
+  let totalAfter = 0n;
+
+  for (const s of stakes) {
+    if (s.timestamp <= from) {
+      before.set(s.reelId, (before.get(s.reelId) ?? 0n) + s.amount);
+      totalBefore += s.amount;
+    }
+    if (s.timestamp <= to) {
+      after.set(s.reelId, (after.get(s.reelId) ?? 0n) + s.amount);
+      totalAfter += s.amount;
+    }
+  }
+
+  if (totalBefore === 0n || totalAfter === 0n) return 0;
+
+  let maxShift = 0;
+  for (const reelId of after.keys()) {
+    const shareBefore = Number(((before.get(reelId) ?? 0n) * 10000n) / totalBefore);
+    const shareAfter = Number(((after.get(reelId) ?? 0n) * 10000n) / totalAfter);
+    maxShift = Math.max(maxShift, Math.abs(shareAfter - shareBefore));
+  }
+  return maxShift;
+}
+
+/**
+ * Resolve the effective end and prediction cutoff for a challenge.
+ * Without rules this is just `endTime` for both.
+ */
+export function getChallengeTiming(
+  endTime: number,
+  rules: ChallengeTimingRules = {},
+  stakes: TimedStake[] = [],
+): ChallengeTiming {
+  let effectiveEndTime = endTime;
+  let extensions = 0;
+
+  const overtime = rules.overtime;
+  if (overtime && overtime.extensionMs > 0) {
+    let watchFrom = endTime - overtime.windowMs;
+    while (
+      extensions < overtime.maxExtensions &&
+      maxShareShiftBps(stakes, watchFrom, effectiveEndTime) >= overtime.shareShiftBps
+    ) {
+      watchFrom = effectiveEndTime;
+      effectiveEndTime += overtime.extensionMs;
+      extensions++;
+    }
+  }
+
+  return {
+    endTime,
+    effectiveEndTime,
+    closesAt: effectiveEndTime - (rules.blackoutMs ?? 0),
+    extensions,
+  };
+}
+
+/** Whether a new prediction placed at `now` would be accepted. */
+export function isPredictionWindowOpen(
+  startTime: number,
+  timing: ChallengeTiming,
+  now: number = Date.now(),
+): boolean {
+  return now >= startTime && now < timing.closesAt;
+}
@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * React hooks over the ReelPredict indexer
+ *
+ * The indexer is a module-level singleton, created on first use from:
+ *   NEXT_PUBLIC_PREDICTION_MARKET_ADDRESS   contract to follow
+ *   NEXT_PUBLIC_INDEXER_RPC_URL             JSON-RPC endpoint (e.g. http://127.0.0.1:8545
+ *                                           for a Hardhat node; defaults to the Sepolia RPC)
+ *   NEXT_PUBLIC_INDEXER_FROM_BLOCK          deployment block (default 0)
+ *
+ * Without a contract address or RPC the hooks report `isEnabled: false`
+ * and pages keep showing their demo data.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { createPublicClient, http, isAddress, type PublicClient } from 'viem';
+import {
+  getIndexerSafe,
+  initializeIndexer,
+  type ReelPredictIndexer,
+  type IndexedChallenge,
+  type LeaderboardEntry,
+  type UserActivity,
+} from './reel-predict-indexer';
+
+function getOrCreateIndexer(): ReelPredictIndexer | null {
+  const existing = getIndexerSafe();
+  if (existing) return existing;
+
+  const contractAddress = process.env.NEXT_PUBLIC_PREDICTION_MARKET_ADDRESS;
+  const rpcUrl = process.env.NEXT_PUBLIC_INDEXER_RPC_URL || process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL;
+  if (!contractAddress || !isAddress(contractAddress) || !rpcUrl) return null;
+
+  const client = createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+  return initializeIndexer(client, contractAddress, {
+    fromBlock: BigInt(process.env.NEXT_PUBLIC_INDEXER_FROM_BLOCK || 0),
+  });
+}
+
+/**
+ * The shared indexer, polling while any component uses it. `version`
+ * bumps after every sync so derived queries recompute.
+ */
+export function useIndexer() {
+  const [indexer] = useState(getOrCreateIndexer);
+  const [version, setVersion] = useState(0);
+  const [isSynced, setIsSynced] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!indexer) return;
+    const onSynced = () => {
+      setIsSynced(true);
+      setError(null);
+      setVersion((v) => v + 1);
+    };
+    const onError = (err: Error) => setError(err);
+
+    indexer.on('synced', onSynced);
+    indexer.on('error', onError);
+    indexer.start();
+    return () => {
+      indexer.off('synced', onSynced);
+      indexer.off('error', onError);
+    };
+  }, [indexer]);
+
+  return { indexer, isEnabled: !!indexer, isSynced, error, version };
+}
+
+/** Every indexed challenge, newest first */
+export function useIndexedChallenges() {
+  const { indexer, isEnabled, isSynced, error, version } = useIndexer();
+  const challenges = useMemo<IndexedChallenge[]>(
+    () => indexer?.getChallenges() ?? [],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [indexer, version],
+  );
+  return { challenges, isEnabled, isSynced, error };
+}
+
+/** Deposits, claimed payouts and win record for an address */
+export function useUserActivity(address?: string) {
+  const { indexer, isEnabled, isSynced, error, version } = useIndexer();
+  const activity = useMemo<UserActivity | null>(
+    () => (indexer && address ? indexer.getUserActivity(address) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [indexer, address, version],
+  );
+  return { activity, isEnabled, isSynced, error };
+}
+
+/** Top earners by claimed payouts since `since` (Unix ms, default all time) */
+export function useLeaderboard(since: number = 0) {
+  const { indexer, isEnabled, isSynced, error, version } = useIndexer();
+  const entries = useMemo<LeaderboardEntry[]>(
+    () => indexer?.getLeaderboard(since) ?? [],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [indexer, since, version],
+  );
+  return { entries, isEnabled, isSynced, error };
+}
@@ -0,0 +1,14 @@
+/**
+ * ReelPredict on-chain indexer
+ *
+ * Implements:
+ * - ReelPredictIndexer (follows contract events into normalized records)
+ * - Queries            (challenges, deposits by user, payouts by challenge, leaderboard)
+ * - React hooks        (useIndexedChallenges, useUserActivity, useLeaderboard)
+ */
+
+// Event indexer + queries
+export * from './reel-predict-indexer';
+
+// React hooks
+export * from './hooks';
@@ -0,0 +1,534 @@
+/**
+ * ReelPredict event indexer
+ *
+ * Follows the contract's logs from a configurable block and folds them
+ * into normalized records the leaderboard, profile and explore pages
+ * query instead of mock data:
+ *
+ *   ChallengeCreated                 → IndexedChallenge
+ *   DepositMade / WithdrawalMade     → IndexedDeposit / IndexedWithdrawal
+ *   SettlementProposed / Disputed /
+ *   Finalized, PayoutRootPosted,
+ *   PoolRolledOver, JackpotFunded    → challenge settlement fields
+ *   PayoutDistributed (claims)       → IndexedPayout
+ *   CreatorFeePaid / PlatformFeePaid → challenge fee fields
+ *
+ * `string indexed challengeId` only reaches the logs as keccak256(id). The
+ * indexer learns ids from DepositMade / PoolRolledOver and, for any it
+ * hasn't seen, from `getActiveChallenges()`; an id it can't resolve is
+ * reported as the hash until it's learned, then backfilled everywhere.
+ *
+ * Polls `eth_getLogs` in block ranges, so it works against any JSON-RPC
+ * node — including a local Hardhat node (`npx hardhat node`).
+ */
+
+import { EventEmitter } from 'events';
+import type { Address, GetLogsReturnType, Hex, PublicClient } from 'viem';
+import { getAddress, keccak256, parseAbi, toHex } from 'viem';
+
+export const REEL_PREDICT_EVENTS = parseAbi([
+  'event ChallengeCreated(string indexed challengeId, string title, uint256 startTime, uint256 endTime)',
+  'event DepositMade(address indexed user, uint256 amount, bytes32 channelId, string challengeId)',
+  'event WithdrawalMade(address indexed user, uint256 amount)',
+  'event SettlementProposed(string indexed challengeId, bytes32 stateHash, uint64 stateNonce, bytes32 payoutRoot, uint256 disputeDeadline)',
+  'event SettlementDisputed(string indexed challengeId, address indexed disputer, bytes32 stateHash, string reason)',
+  'event SettlementFinalized(string indexed challengeId, string winnerReelId, uint256 totalPool)',
+  'event PayoutRootPosted(string indexed challengeId, bytes32 payoutRoot, uint256 totalPayout)',
+  'event PayoutDistributed(string indexed challengeId, address indexed user, uint256 amount)',
+  'event CreatorFeePaid(string indexed challengeId, address indexed creator, uint256 amount)',
+  'event PlatformFeePaid(string indexed challengeId, address indexed treasury, uint256 amount)',
+  'event PoolRolledOver(string indexed challengeId, string nextChallengeId, uint256 amount)',
+  'event JackpotFunded(string indexed challengeId, uint256 amount)',
+]);
+
+type ReelPredictLog = GetLogsReturnType<undefined, typeof REEL_PREDICT_EVENTS>[number];
+
+const CHALLENGE_IDS_ABI = parseAbi(['function getActiveChallenges() view returns (string[])']);
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export type IndexedChallengeStatus = 'upcoming' | 'active' | 'ended' | 'disputable' | 'settled';
+
+/** Where a record came from on-chain */
+export interface LogRef {
+  blockNumber: bigint;
+  /** Block time, Unix ms */
+  timestamp: number;
+  txHash: Hex;
+  logIndex: number;
+}
+
+export interface IndexedProposal extends LogRef {
+  stateHash: Hex;
+  stateNonce: number;
+  payoutRoot: Hex;
+  /** Unix ms */
+  disputeDeadline: number;
+}
+
+export interface IndexedDispute extends LogRef {
+  disputer: Address;
+  stateHash: Hex;
+  reason: string;
+}
+
+export interface IndexedChallenge {
+  /** Challenge id, or its keccak256 if the name couldn't be resolved */
+  id: string;
+  title: string;
+  /** Unix ms (0 if the challenge was created before the indexer's start block) */
+  startTime: number;
+  endTime: number;
+  created?: LogRef;
+  totalDeposited: bigint;
+  depositCount: number;
+  participants: Address[];
+  /** Proposal waiting out its dispute window */
+  proposal?: IndexedProposal;
+  disputes: IndexedDispute[];
+  /** Set once finalized */
+  winnerReelId?: string;
+  totalPool?: bigint;
+  settled?: LogRef;
+  payoutRoot?: Hex;
+  totalPayout?: bigint;
+  /** Σ claimed so far */
+  claimedPayout: bigint;
+  /** Creator fees transferred on finalization */
+  creatorFees: { creator: Address; amount: bigint }[];
+  /** Sent to the treasury on finalization */
+  platformFee?: bigint;
+  rolledOverTo?: string;
+  /** Unclaimed pool moved into the jackpot on finalization */
+  jackpotFunded?: bigint;
+}
+
+export interface IndexedDeposit extends LogRef {
+  user: Address;
+  amount: bigint;
+  channelId: Hex;
+  challengeId: string;
+}
+
+export interface IndexedWithdrawal extends LogRef {
+  user: Address;
+  amount: bigint;
+}
+
+export interface IndexedPayout extends LogRef {
+  challengeId: string;
+  user: Address;
+  amount: bigint;
+}
+
+export interface UserActivity {
+  address: Address;
+  deposits: IndexedDeposit[];
+  withdrawals: IndexedWithdrawal[];
+  payouts: IndexedPayout[];
+  totalDeposited: bigint;
+  totalEarnings: bigint;
+  /** Distinct challenges deposited into */
+  challengesEntered: number;
+  /** Settled challenges entered that paid this address (claimed payouts only) */
+  wins: number;
+  /** wins / settled challenges entered, in percent */
+  winRate: number;
+  /** Consecutive wins, most recent settled challenge first */
+  streak: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  address: Address;
+  totalEarnings: bigint;
+  wins: number;
+  winRate: number;
+  streak: number;
+}
+
+export interface IndexerOptions {
+  /** First block to index (default 0) */
+  fromBlock?: bigint;
+  /** Max blocks per eth_getLogs call (default 2000) */
+  batchSize?: bigint;
+  /** Blocks to stay behind head to avoid reorgs (default 0 — fine for Hardhat) */
+  confirmations?: bigint;
+  /** Poll interval for `start()` (default 15s) */
+  pollIntervalMs?: number;
+}
+
+// ────────────────────────────────────────────────
+// Indexer
+// ────────────────────────────────────────────────
+
+/**
+ * Events: 'synced' ({ fromBlock, toBlock, logs }) after every sync that
+ * reached head, 'error' (Error) when a poll fails.
+ */
+export class ReelPredictIndexer extends EventEmitter {
+  private client: PublicClient;
+  private contractAddress: Address;
+  private options: Required<IndexerOptions>;
+
+  private nextBlock: bigint;
+  private challengeNames = new Map<Hex, string>();
+  private challenges = new Map<Hex, IndexedChallenge>();
+  private deposits: IndexedDeposit[] = [];
+  private withdrawals: IndexedWithdrawal[] = [];
+  private payouts: IndexedPayout[] = [];
+  private blockTimes = new Map<bigint, number>();
+
+  private syncing: Promise<number> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(client: PublicClient, contractAddress: Address, options: IndexerOptions = {}) {
+    super();
+    this.client = client;
+    this.contractAddress = contractAddress;
+    this.options = {
+      fromBlock: options.fromBlock ?? 0n,
+      batchSize: options.batchSize ?? 2000n,
+      confirmations: options.confirmations ?? 0n,
+      pollIntervalMs: options.pollIntervalMs ?? 15_000,
+    };
+    this.nextBlock = this.options.fromBlock;
+  }
+
+  /** Sync now, then keep polling. Safe to call more than once. */
+  start(): void {
+    if (this.timer) return;
+    const poll = () => this.sync().catch((err) => {
+      console.warn('⚠️ Indexer poll failed:', err?.message ?? err);
+      this.emit('error', err);
+    });
+    poll();
+    this.timer = setInterval(poll, this.options.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Next block the indexer will read */
+  getNextBlock(): bigint {
+    return this.nextBlock;
+  }
+
+  /**
+   * Index everything up to head (minus confirmations). Returns the number
+   * of logs processed. Concurrent calls share one run.
+   */
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.syncToHead().finally(() => { this.syncing = null; });
+    }
+    return this.syncing;
+  }
+
+  private async syncToHead(): Promise<number> {
+    const head = (await this.client.getBlockNumber()) - this.options.confirmations;
+    const fromBlock = this.nextBlock;
+    let processed = 0;
+
+    while (this.nextBlock <= head) {
+      const toBlock = min(this.nextBlock + this.options.batchSize - 1n, head);
+      const logs = await this.client.getLogs({
+        address: this.contractAddress,
+        events: REEL_PREDICT_EVENTS,
+        fromBlock: this.nextBlock,
+        toBlock,
+      });
+      await this.ingest(logs);
+      processed += logs.length;
+      this.nextBlock = toBlock + 1n;
+    }
+
+    if (processed > 0) console.log(`📚 Indexed ${processed} ReelPredict event(s) up to block ${head}`);
+    this.emit('synced', { fromBlock, toBlock: head, logs: processed });
+    return processed;
+  }
+
+  // ── Ingest ──
+
+  private async ingest(logs: ReelPredictLog[]): Promise<void> {
+    if (logs.length === 0) return;
+
+    // Learn challenge names before folding, so records carry the real id
+    for (const log of logs) {
+      if (log.eventName === 'DepositMade') this.rememberChallenge(log.args.challengeId!);
+      if (log.eventName === 'PoolRolledOver') this.rememberChallenge(log.args.nextChallengeId!);
+    }
+    const hashes = logs.flatMap((log) => 'challengeId' in log.args && log.eventName !== 'DepositMade' ? [log.args.challengeId as Hex] : []);
+    if (hashes.some((h) => !this.challengeNames.has(h))) await this.refreshChallengeNames();
+
+    await this.loadBlockTimes(logs.map((log) => log.blockNumber!));
+
+    for (const log of logs) {
+      const ref: LogRef = {
+        blockNumber: log.blockNumber!,
+        timestamp: this.blockTimes.get(log.blockNumber!) ?? 0,
+        txHash: log.transactionHash!,
+        logIndex: log.logIndex!,
+      };
+
+      switch (log.eventName) {
+        case 'ChallengeCreated': {
+          const c = this.challengeFor(log.args.challengeId!);
+          c.title = log.args.title!;
+          c.startTime = Number(log.args.startTime!) * 1000;
+          c.endTime = Number(log.args.endTime!) * 1000;
+          c.created = ref;
+          break;
+        }
+        case 'DepositMade': {
+          const { user, amount, channelId, challengeId } = log.args;
+          const deposit: IndexedDeposit = { ...ref, user: getAddress(user!), amount: amount!, channelId: channelId!, challengeId: challengeId! };
+          this.deposits.push(deposit);
+          const c = this.challengeFor(challengeIdHash(challengeId!));
+          c.totalDeposited += deposit.amount;
+          c.depositCount++;
+          if (!c.participants.includes(deposit.user)) c.participants.push(deposit.user);
+          break;
+        }
+        case 'WithdrawalMade':
+          this.withdrawals.push({ ...ref, user: getAddress(log.args.user!), amount: log.args.amount! });
+          break;
+        case 'SettlementProposed': {
+          const { stateHash, stateNonce, payoutRoot, disputeDeadline } = log.args;
+          this.challengeFor(log.args.challengeId!).proposal = {
+            ...ref,
+            stateHash: stateHash!,
+            stateNonce: Number(stateNonce!),
+            payoutRoot: payoutRoot!,
+            disputeDeadline: Number(disputeDeadline!) * 1000,
+          };
+          break;
+        }
+        case 'SettlementDisputed': {
+          const c = this.challengeFor(log.args.challengeId!);
+          c.disputes.push({ ...ref, disputer: getAddress(log.args.disputer!), stateHash: log.args.stateHash!, reason: log.args.reason! });
+          c.proposal = undefined;
+          break;
+        }
+        case 'PayoutRootPosted': {
+          const c = this.challengeFor(log.args.challengeId!);
+          c.payoutRoot = log.args.payoutRoot!;
+          c.totalPayout = log.args.totalPayout!;
+          break;
+        }
+        case 'SettlementFinalized': {
+          const c = this.challengeFor(log.args.challengeId!);
+          c.winnerReelId = log.args.winnerReelId!;
+          c.totalPool = log.args.totalPool!;
+          c.settled = ref;
+          c.proposal = undefined;
+          break;
+        }
+        case 'PayoutDistributed': {
+          const c = this.challengeFor(log.args.challengeId!);
+          this.payouts.push({ ...ref, challengeId: c.id, user: getAddress(log.args.user!), amount: log.args.amount! });
+          c.claimedPayout += log.args.amount!;
+          break;
+        }
+        case 'CreatorFeePaid':
+          this.challengeFor(log.args.challengeId!).creatorFees.push({ creator: getAddress(log.args.creator!), amount: log.args.amount! });
+          break;
+        case 'PlatformFeePaid':
+          this.challengeFor(log.args.challengeId!).platformFee = log.args.amount!;
+          break;
+        case 'PoolRolledOver':
+          this.challengeFor(log.args.challengeId!).rolledOverTo = log.args.nextChallengeId!;
+          break;
+        case 'JackpotFunded': {
+          const c = this.challengeFor(log.args.challengeId!);
+          c.jackpotFunded = (c.jackpotFunded ?? 0n) + log.args.amount!;
+          break;
+        }
+      }
+    }
+  }
+
+  private rememberChallenge(id: string): void {
+    const hash = challengeIdHash(id);
+    if (this.challengeNames.has(hash)) return;
+    this.challengeNames.set(hash, id);
+    const existing = this.challenges.get(hash);
+    if (existing) existing.id = id;
+    // Claims indexed before the name was known carry the hash
+    for (const payout of this.payouts) {
+      if (payout.challengeId === hash) payout.challengeId = id;
+    }
+  }
+
+  private async refreshChallengeNames(): Promise<void> {
+    try {
+      const ids = await this.client.readContract({
+        address: this.contractAddress,
+        abi: CHALLENGE_IDS_ABI,
+        functionName: 'getActiveChallenges',
+      });
+      ids.forEach((id) => this.rememberChallenge(id));
+    } catch (err: any) {
+      console.warn('⚠️ Could not resolve challenge ids:', err?.message ?? err);
+    }
+  }
+
+  /** Record for a challenge, keyed by its topic hash (`string indexed` args arrive as the hash) */
+  private challengeFor(topic: string): IndexedChallenge {
+    const hash = topic as Hex;
+    let challenge = this.challenges.get(hash);
+    if (!challenge) {
+      challenge = {
+        id: this.challengeNames.get(hash) ?? hash,
+        title: '',
+        startTime: 0,
+        endTime: 0,
+        totalDeposited: 0n,
+        depositCount: 0,
+        participants: [],
+        disputes: [],
+        claimedPayout: 0n,
+        creatorFees: [],
+      };
+      this.challenges.set(hash, challenge);
+    }
+    return challenge;
+  }
+
+  private async loadBlockTimes(blocks: bigint[]): Promise<void> {
+    const missing = Array.from(new Set(blocks)).filter((b) => !this.blockTimes.has(b));
+    await Promise.all(missing.map(async (blockNumber) => {
+      const block = await this.client.getBlock({ blockNumber });
+      this.blockTimes.set(blockNumber, Number(block.timestamp) * 1000);
+    }));
+  }
+
+  // ── Queries ──
+
+  /** Every challenge seen, newest first */
+  getChallenges(): IndexedChallenge[] {
+    return Array.from(this.challenges.values()).sort((a, b) => b.startTime - a.startTime);
+  }
+
+  getChallenge(challengeId: string): IndexedChallenge | undefined {
+    return this.challenges.get(challengeIdHash(challengeId)) ?? this.challenges.get(challengeId as Hex);
+  }
+
+  getDepositsByUser(address: string): IndexedDeposit[] {
+    return this.deposits.filter((d) => sameAddress(d.user, address));
+  }
+
+  getDepositsByChallenge(challengeId: string): IndexedDeposit[] {
+    return this.deposits.filter((d) => d.challengeId === challengeId);
+  }
+
+  getPayoutsByChallenge(challengeId: string): IndexedPayout[] {
+    return this.payouts.filter((p) => p.challengeId === challengeId);
+  }
+
+  getPayoutsByUser(address: string): IndexedPayout[] {
+    return this.payouts.filter((p) => sameAddress(p.user, address));
+  }
+
+  /** Deposits, claims and win record for one address, optionally since a Unix ms time */
+  getUserActivity(address: string, since: number = 0): UserActivity {
+    const deposits = this.getDepositsByUser(address).filter((d) => d.timestamp >= since);
+    const withdrawals = this.withdrawals.filter((w) => sameAddress(w.user, address) && w.timestamp >= since);
+    const payouts = this.getPayoutsByUser(address).filter((p) => p.timestamp >= since);
+
+    const entered = Array.from(new Set(deposits.map((d) => d.challengeId)));
+    const won = new Set(payouts.map((p) => p.challengeId));
+    const settled = entered
+      .map((id) => this.getChallenge(id))
+      .filter((c): c is IndexedChallenge => !!c?.settled)
+      .sort((a, b) => b.settled!.timestamp - a.settled!.timestamp);
+    const wins = settled.filter((c) => won.has(c.id)).length;
+
+    let streak = 0;
+    while (streak < settled.length && won.has(settled[streak].id)) streak++;
+
+    return {
+      address: getAddress(address),
+      deposits,
+      withdrawals,
+      payouts,
+      totalDeposited: deposits.reduce((sum, d) => sum + d.amount, 0n),
+      totalEarnings: payouts.reduce((sum, p) => sum + p.amount, 0n),
+      challengesEntered: entered.length,
+      wins,
+      winRate: settled.length > 0 ? Math.round((wins / settled.length) * 1000) / 10 : 0,
+      streak,
+    };
+  }
+
+  /** Addresses ranked by claimed earnings, optionally since a Unix ms time */
+  getLeaderboard(since: number = 0, limit: number = 50): LeaderboardEntry[] {
+    const earners = new Set(this.payouts.filter((p) => p.timestamp >= since).map((p) => p.user));
+    return Array.from(earners)
+      .map((address) => this.getUserActivity(address, since))
+      .sort((a, b) => (b.totalEarnings > a.totalEarnings ? 1 : b.totalEarnings < a.totalEarnings ? -1 : b.wins - a.wins))
+      .slice(0, limit)
+      .map((a, i) => ({
+        rank: i + 1,
+        address: a.address,
+        totalEarnings: a.totalEarnings,
+        wins: a.wins,
+        winRate: a.winRate,
+        streak: a.streak,
+      }));
+  }
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+/** Topic value of a `string indexed challengeId` */
+export function challengeIdHash(challengeId: string): Hex {
+  return keccak256(toHex(challengeId));
+}
+
+/** Lifecycle stage of an indexed challenge at `now` */
+export function getIndexedChallengeStatus(challenge: IndexedChallenge, now: number = Date.now()): IndexedChallengeStatus {
+  if (challenge.settled) return 'settled';
+  if (challenge.proposal) return 'disputable';
+  if (now < challenge.startTime) return 'upcoming';
+  if (now < challenge.endTime) return 'active';
+  return 'ended';
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+// Singleton instance
+let indexerInstance: ReelPredictIndexer | null = null;
+
+export function initializeIndexer(
+  client: PublicClient,
+  contractAddress: Address,
+  options?: IndexerOptions,
+): ReelPredictIndexer {
+  indexerInstance?.stop();
+  indexerInstance = new ReelPredictIndexer(client, contractAddress, options);
+  return indexerInstance;
+}
+
+export function getIndexer(): ReelPredictIndexer {
+  if (!indexerInstance) {
+    throw new Error('Indexer not initialized');
+  }
+  return indexerInstance;
+}
+
+export function getIndexerSafe(): ReelPredictIndexer | null {
+  return indexerInstance;
+}
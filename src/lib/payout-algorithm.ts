@@ -6,7 +6,7 @@
  *   A portion of the pool goes to the winning reel's **creator**.
  *
  * ──────────────────────────────────────────────
- * MULTIPLIER FORMULA  (quadratic decay)
+ * MULTIPLIER FORMULA  (default: quadratic decay)
  * ──────────────────────────────────────────────
  *
  *   timeProgress = (bidTime − contestStart) / (contestEnd − contestStart)
@@ -18,6 +18,9 @@
  *   At t=75%  → 1.25×
  *   At t=100% → 1.00×
  *
+ * Each challenge may override the curve and its MIN / MAX through a
+ * `MultiplierConfig` — see "Multiplier Curves" below.
+ *
  * ──────────────────────────────────────────────
  * PAYOUT DISTRIBUTION
  * ──────────────────────────────────────────────
@@ -29,8 +32,71 @@
  *        weight = amount × multiplier(bidTime)
  *   5. payout = (weight / totalWeight) × distributablePool
  *
+ * Rounding dust is assigned by largest remainder (see "Dust" below), so
+ * every node computes identical payouts from the same predictions.
+ *
  * This means a 1 USDC bid at minute 1 earns ~2.5× the share of
  * the same 1 USDC bid placed halfway through the contest.
+ *
+ * ──────────────────────────────────────────────
+ * RANKED (PODIUM) PAYOUTS
+ * ──────────────────────────────────────────────
+ *
+ *   The settlement supplies an ordered list of reels plus a split table
+ *   (e.g. 60/25/15). distributablePool and the creator fee are both cut
+ *   by that table; each tier's slice is time-weighted among the
+ *   predictions on that tier's reel. Tiers nobody predicted on hand their
+ *   share back to the funded tiers, pro rata to their split.
+ *
+ * ──────────────────────────────────────────────
+ * NO-WINNER POLICY
+ * ──────────────────────────────────────────────
+ *
+ *   If nobody predicted the winning reel(s), distributablePool is handled
+ *   by the challenge's `NoWinnerPolicy`:
+ *     - refund   → every prediction gets its stake back pro rata, minus fees
+ *     - rollover → carried into a named next challenge
+ *     - jackpot  → added to the contract's jackpot
+ *   A challenge can also receive a `carriedPool` (from a rollover or the
+ *   jackpot) that is added to distributablePool fee-free.
+ *
+ * ──────────────────────────────────────────────
+ * SIGNED BID TIMES
+ * ──────────────────────────────────────────────
+ *
+ *   With `signedTimePolicy` set, the multiplier uses each prediction's
+ *   `signedTimestamp` (countersigned by the timestamp authority and
+ *   verified upstream) instead of the client-reported `timestamp`.
+ *   Predictions whose signed time is missing or outside the window are:
+ *     - clamp  → missing = contestEnd (min multiplier), others clamped into the window
+ *     - reject → refunded at face value and excluded from the pool and fees
+ *
+ *   With `closesAt` set (see challenge-timing.ts), predictions placed after
+ *   the cutoff are refunded the same way under either policy.
+ *
+ * ──────────────────────────────────────────────
+ * WHALE DAMPENING
+ * ──────────────────────────────────────────────
+ *
+ *   `stakeLimits` trims stake above a per-address-per-reel cap and above a
+ *   maximum share of the pool; the excess is refunded at face value.
+ *   `weighting: 'sqrt'` weighs each prediction by √amount × multiplier:
+ *     1 × 10,000 USDC  → weight 100 × mul
+ *     100 × 100 USDC   → weight 1000 × mul   (same money, 10× the weight)
+ *
+ * ──────────────────────────────────────────────
+ * DUST
+ * ──────────────────────────────────────────────
+ *
+ *   Every pro-rata split (winner pool, podium tiers, no-winner refunds)
+ *   uses the largest-remainder method:
+ *     1. each share = floor(amount × weight / totalWeight)
+ *     2. the leftover units (fewer than the number of shares) go one each
+ *        to the largest remainders (weight × amount mod totalWeight)
+ *     3. equal remainders are ordered canonically: signed bid time
+ *        (falling back to timestamp), then prediction ID
+ *   Input order never matters. Units handed out in step 2 are reported per
+ *   prediction in `PayoutBreakdown.dust`.
  */
 
 // ── Constants ───────────────────────────────────
@@ -47,6 +113,22 @@ export const CREATOR_FEE_BPS = 1000;
 /** Platform fee in basis points (250 = 2.5%) */
 export const PLATFORM_FEE_BPS = 250;
 
+/** Default podium split for ranked payouts: 60% / 25% / 15% */
+export const DEFAULT_PODIUM_SPLIT_BPS = [6000, 2500, 1500];
+
+/** Upper bound on the break-even search: 2^64 × the current pool */
+const BREAK_EVEN_MAX_DOUBLINGS = 64;
+
+/** Refund losers pro rata when nobody predicted the winner */
+export const DEFAULT_NO_WINNER_POLICY: NoWinnerPolicy = { kind: 'refund' };
+
+/** The original global curve: quadratic decay from 5× to 1×. */
+export const DEFAULT_MULTIPLIER_CONFIG: MultiplierConfig = {
+  curve: { kind: 'quadratic' },
+  minMultiplier: MIN_MULTIPLIER,
+  maxMultiplier: MAX_MULTIPLIER,
+};
+
 // ── Types ───────────────────────────────────────
 
 export interface TimedPrediction {
@@ -58,12 +140,16 @@ export interface TimedPrediction {
   /** Unix ms timestamp when the prediction was placed */
   timestamp: number;
   /** Address / identifier of the predictor */
-  predictor?: string;
+  predictor: string;
+  /** Bid time attested by the timestamp authority (signature verified by the caller) */
+  signedTimestamp?: number;
 }
 
 export interface PayoutBreakdown {
   /** Map of predictionId → payout amount */
   predictorPayouts: Map<string, bigint>;
+  /** Map of predictor (lower-cased) → total payout across all their predictions */
+  payoutsByPredictor: Map<string, bigint>;
   /** Amount allocated to the winning reel's creator */
   creatorFee: bigint;
   /** Amount allocated to the platform */
@@ -74,10 +160,159 @@ export interface PayoutBreakdown {
   totalPool: bigint;
   /** The winning reel ID */
   winnerReelId: string;
+  /** Per-rank breakdown — only present for ranked (podium) payouts */
+  tiers?: PayoutTier[];
+  /** Present when nobody predicted the winner — how distributablePool was handled */
+  noWinner?: NoWinnerOutcome;
+  /** Predictions refunded at face value (unsigned / out-of-window / after the cutoff) */
+  rejectedPredictions?: string[];
+  /** Stake trimmed by `stakeLimits` and refunded, by prediction ID */
+  stakeRefunds?: Map<string, bigint>;
+  /** Rounding units each prediction received from the largest-remainder pass (included in its payout) */
+  dust: Map<string, bigint>;
+}
+
+/**
+ * What happens to distributablePool when no prediction is on a winning reel.
+ */
+export type NoWinnerPolicy =
+  | { kind: 'refund' }
+  | { kind: 'rollover'; /** Challenge that receives the pool */ nextChallengeId: string }
+  | { kind: 'jackpot' };
+
+export interface NoWinnerOutcome {
+  policy: NoWinnerPolicy;
+  /** Amount refunded, rolled over, or sent to the jackpot */
+  amount: bigint;
+}
+
+/** Optional knobs shared by the payout calculators. */
+export interface PayoutOptions {
+  /** Challenge multiplier curve (default quadratic 5× → 1×) */
+  multiplier?: MultiplierConfig;
+  /** Handling of distributablePool when nobody predicted the winner (default refund) */
+  noWinnerPolicy?: NoWinnerPolicy;
+  /** Pool carried in from a rollover or the jackpot; added to distributablePool fee-free */
+  carriedPool?: bigint;
+  /** Use `signedTimestamp` for multipliers; clamp or reject missing / out-of-window times */
+  signedTimePolicy?: SignedTimePolicy;
+  /** Prediction cutoff (blackout start, after any overtime); later bids are refunded */
+  closesAt?: number;
+  /** Per-address caps; stake above them is refunded */
+  stakeLimits?: StakeLimits;
+  /** How stake size maps to weight (default linear) */
+  weighting?: StakeWeighting;
+}
+
+export interface StakeLimits {
+  /** Max total stake one address may hold on a single reel */
+  maxStakePerReel?: bigint;
+  /** Max share of the challenge pool one address may hold, in basis points */
+  maxPoolShareBps?: number;
+}
+
+export type StakeWeighting = 'linear' | 'sqrt';
+
+export type SignedTimePolicy = 'clamp' | 'reject';
+
+export interface PayoutTier {
+  /** 1-based rank (1 = winner) */
+  rank: number;
+  reelId: string;
+  /** Share of the pool this rank was configured for */
+  splitBps: number;
+  /** Slice of distributablePool paid to predictors on this reel */
+  pool: bigint;
+  /** Slice of the creator fee paid to this reel's creator */
+  creatorFee: bigint;
+}
+
+/**
+ * Shape of the multiplier decay between `maxMultiplier` (t = 0) and
+ * `minMultiplier` (t = 1).
+ *
+ * - `linear`      → straight line
+ * - `quadratic`   → (1 − t)², the original jpeg.fun-style curve
+ * - `exponential` → e^(−rate·t), normalised so it still ends at MIN
+ * - `step`        → flat tiers, e.g. "first 10% of the contest pays 5×"
+ * - `piecewise`   → custom table of points, linearly interpolated
+ *
+ * `step` and `piecewise` use absolute multiplier values; they are clamped
+ * to [minMultiplier, maxMultiplier].
+ */
+export type MultiplierCurve =
+  | { kind: 'linear' }
+  | { kind: 'quadratic' }
+  | { kind: 'exponential'; /** Decay rate (default 3) — higher = steeper early drop */ rate?: number }
+  | { kind: 'step'; /** Tiers sorted by `until` (0 – 1); the last tier covers the rest */ tiers: MultiplierTier[] }
+  | { kind: 'piecewise'; /** Points sorted by `progress` (0 – 1) */ points: MultiplierPoint[] };
+
+export interface MultiplierTier {
+  /** Tier applies while timeProgress < until */
+  until: number;
+  multiplier: number;
+}
+
+export interface MultiplierPoint {
+  progress: number;
+  multiplier: number;
+}
+
+/** Per-challenge multiplier definition. */
+export interface MultiplierConfig {
+  curve: MultiplierCurve;
+  /** Multiplier at contest end (default MIN_MULTIPLIER) */
+  minMultiplier: number;
+  /** Multiplier at contest start (default MAX_MULTIPLIER) */
+  maxMultiplier: number;
+}
+
+/** Current stake and weight on one reel — input to `quotePayout`. */
+export interface ReelPoolSnapshot {
+  reelId: string;
+  /** Raw stake on this reel */
+  amount: bigint;
+  /** Sum of time-weighted stakes (amount × multiplier) on this reel */
+  weight: bigint;
+}
+
+export interface PayoutQuote {
+  reelId: string;
+  /** Stake being quoted */
+  amount: bigint;
+  /** Multiplier the stake would get right now */
+  multiplier: number;
+  /** Time-weighted stake (same rounding as settlement) */
+  weight: bigint;
+  /** Total payout (stake included) if `reelId` wins and no other bets arrive */
+  payoutIfWins: bigint;
+  /** payoutIfWins − amount (negative when under water) */
+  profitIfWins: bigint;
+  /** Share of the reel's total weight after this bet (0 – 1) */
+  shareOfReel: number;
+  /**
+   * Further stake on the same reel, at the current multiplier, that would
+   * drag payoutIfWins down to the stake itself. 0 if already at or below
+   * break-even; null if no amount would — under sqrt weighting late stake
+   * adds only √x of weight while the pool grows by x, and a large carried
+   * pool can keep the payout above the stake however much arrives.
+   */
+  breakEvenExtraStake: bigint | null;
+  /** How payoutIfWins moves if more bets arrive before the contest ends */
+  scenarios: QuoteScenario[];
+}
+
+export interface QuoteScenario {
+  /** Additional stake assumed to arrive */
+  extraStake: bigint;
+  /** payoutIfWins if that stake lands on the same reel at the current multiplier */
+  sameReel: bigint;
+  /** payoutIfWins if that stake lands on other reels */
+  otherReels: bigint;
 }
 
 export interface MultiplierInfo {
-  /** Current multiplier value (1.0 – 5.0) */
+  /** Current multiplier value (within the challenge's min – max) */
   multiplier: number;
   /** How far through the contest we are (0 – 1) */
   timeProgress: number;
@@ -89,55 +324,117 @@ export interface MultiplierInfo {
   color: string;
 }
 
+// ── Multiplier Curves ───────────────────────────
+
+/**
+ * Evaluate a curve at `timeProgress` (0 – 1) and return the multiplier.
+ */
+export function evaluateCurve(timeProgress: number, config: MultiplierConfig): number {
+  const { curve, minMultiplier, maxMultiplier } = config;
+  const t = Math.max(0, Math.min(1, timeProgress));
+  const range = maxMultiplier - minMultiplier;
+
+  switch (curve.kind) {
+    case 'linear':
+      return minMultiplier + range * (1 - t);
+
+    case 'quadratic':
+      return minMultiplier + range * (1 - t) ** 2;
+
+    case 'exponential': {
+      const rate = curve.rate ?? 3;
+      if (rate <= 0) return minMultiplier + range * (1 - t);
+      // Normalise e^(−rate·t) so that t=0 → 1 and t=1 → 0
+      const floor = Math.exp(-rate);
+      const decay = (Math.exp(-rate * t) - floor) / (1 - floor);
+      return minMultiplier + range * decay;
+    }
+
+    case 'step': {
+      const tier = curve.tiers.find((s) => t < s.until) ?? curve.tiers[curve.tiers.length - 1];
+      return clampMultiplier(tier ? tier.multiplier : minMultiplier, config);
+    }
+
+    case 'piecewise': {
+      const pts = curve.points;
+      if (pts.length === 0) return minMultiplier;
+      if (t <= pts[0].progress) return clampMultiplier(pts[0].multiplier, config);
+
+      for (let i = 1; i < pts.length; i++) {
+        const a = pts[i - 1];
+        const b = pts[i];
+        if (t <= b.progress) {
+          const span = b.progress - a.progress;
+          const f = span > 0 ? (t - a.progress) / span : 1;
+          return clampMultiplier(a.multiplier + (b.multiplier - a.multiplier) * f, config);
+        }
+      }
+      return clampMultiplier(pts[pts.length - 1].multiplier, config);
+    }
+  }
+}
+
+function clampMultiplier(multiplier: number, config: MultiplierConfig): number {
+  return Math.max(config.minMultiplier, Math.min(config.maxMultiplier, multiplier));
+}
+
 // ── Core Algorithm ──────────────────────────────
 
 /**
  * Calculate the time-weighted multiplier for a prediction placed at `bidTime`.
  *
- * Uses a **quadratic decay** so early bidders get a dramatically higher
- * multiplier, with the advantage tapering off smoothly.
+ * Defaults to a **quadratic decay** so early bidders get a dramatically
+ * higher multiplier, with the advantage tapering off smoothly. Pass the
+ * challenge's `MultiplierConfig` to use a different curve or range.
  */
 export function getMultiplier(
   bidTime: number,
   contestStart: number,
   contestEnd: number,
+  config: MultiplierConfig = DEFAULT_MULTIPLIER_CONFIG,
 ): number {
   const duration = contestEnd - contestStart;
-  if (duration <= 0) return MIN_MULTIPLIER;
+  if (duration <= 0) return config.minMultiplier;
 
   const elapsed = Math.max(0, Math.min(duration, bidTime - contestStart));
   const timeProgress = elapsed / duration; // 0.0 → 1.0
 
-  // Quadratic decay: (1 − t)²
-  const decay = (1 - timeProgress) ** 2;
-  return MIN_MULTIPLIER + (MAX_MULTIPLIER - MIN_MULTIPLIER) * decay;
+  return evaluateCurve(timeProgress, config);
 }
 
 /**
  * Get multiplier info for UI display at the current moment.
+ *
+ * Labels are picked from where the multiplier sits inside the challenge's
+ * [min, max] range, so they stay meaningful for any curve.
  */
 export function getCurrentMultiplierInfo(
   contestStart: number,
   contestEnd: number,
   now: number = Date.now(),
+  config: MultiplierConfig = DEFAULT_MULTIPLIER_CONFIG,
 ): MultiplierInfo {
-  const multiplier = getMultiplier(now, contestStart, contestEnd);
+  const multiplier = getMultiplier(now, contestStart, contestEnd, config);
   const duration = contestEnd - contestStart;
   const timeProgress = duration > 0 ? Math.max(0, Math.min(1, (now - contestStart) / duration)) : 1;
 
+  // Position within the range: 1 = max multiplier, 0 = min multiplier
+  const range = config.maxMultiplier - config.minMultiplier;
+  const strength = range > 0 ? (multiplier - config.minMultiplier) / range : 0;
+
   let label: string;
   let color: string;
 
-  if (multiplier >= 4.0) {
+  if (strength >= 0.75) {
     label = '🔥 Early Bird';
     color = 'text-red-400';
-  } else if (multiplier >= 3.0) {
+  } else if (strength >= 0.5) {
     label = '⚡ Fast Mover';
     color = 'text-orange-400';
-  } else if (multiplier >= 2.0) {
+  } else if (strength >= 0.25) {
     label = '💫 Good Timing';
     color = 'text-yellow-400';
-  } else if (multiplier >= 1.5) {
+  } else if (strength >= 0.125) {
     label = '⏰ Late Entry';
     color = 'text-blue-400';
   } else {
@@ -155,7 +452,8 @@ export function getCurrentMultiplierInfo(
 }
 
 /**
- * Calculate the weight of a single prediction (amount × multiplier).
+ * Calculate the weight of a single prediction (amount × multiplier, or
+ * √amount × multiplier with sqrt weighting).
  * Returns a bigint-safe integer by scaling the multiplier by 10000.
  */
 function weightedAmount(
@@ -163,11 +461,30 @@ function weightedAmount(
   bidTime: number,
   contestStart: number,
   contestEnd: number,
+  config: MultiplierConfig,
+  weighting: StakeWeighting = 'linear',
 ): bigint {
-  const mul = getMultiplier(bidTime, contestStart, contestEnd);
+  const mul = getMultiplier(bidTime, contestStart, contestEnd, config);
   // Scale to 4 decimal places for bigint precision
   const mulScaled = BigInt(Math.round(mul * 10000));
-  return (amount * mulScaled) / 10000n;
+  return (stakeSize(amount, weighting) * mulScaled) / 10000n;
+}
+
+/** Stake size before the multiplier is applied (√amount with sqrt weighting). */
+export function stakeSize(amount: bigint, weighting: StakeWeighting = 'linear'): bigint {
+  return weighting === 'sqrt' ? bigintSqrt(amount) : amount;
+}
+
+/** Integer square root (floor) by Newton's method. */
+function bigintSqrt(value: bigint): bigint {
+  if (value < 2n) return value < 0n ? 0n : value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
 }
 
 /**
@@ -177,8 +494,9 @@ function weightedAmount(
  * @param winnerReelId  - The reel that won
  * @param contestStart  - Unix ms timestamp when the contest started
  * @param contestEnd    - Unix ms timestamp when the contest ended
- * @param creatorFeeBps - Creator fee in basis points (default 500 = 5%)
+ * @param creatorFeeBps - Creator fee in basis points (default 1000 = 10%)
  * @param platformFeeBps- Platform fee in basis points (default 250 = 2.5%)
+ * @param options       - Multiplier curve, no-winner policy, carried pool
  */
 export function calculateTimeWeightedPayouts(
   predictions: TimedPrediction[],
@@ -187,52 +505,606 @@ export function calculateTimeWeightedPayouts(
   contestEnd: number,
   creatorFeeBps: number = CREATOR_FEE_BPS,
   platformFeeBps: number = PLATFORM_FEE_BPS,
+  options: PayoutOptions = {},
 ): PayoutBreakdown {
+  const multiplier = options.multiplier ?? DEFAULT_MULTIPLIER_CONFIG;
+
+  // 0. Swap in signed bid times; set aside predictions that fail the policy,
+  //    then trim stake above the whale caps
+  const screened = screenBidTimes(predictions, contestStart, contestEnd, options.signedTimePolicy, options.closesAt);
+  const limited = applyStakeLimits(screened.eligible, options.stakeLimits);
+  predictions = limited.capped;
+
   // 1. Total pool = sum of ALL predictions (winners + losers)
   const totalPool = predictions.reduce((sum, p) => sum + p.amount, 0n);
 
-  // 2. Fees
+  // 2. Fees (charged on stakes only, never on a carried pool)
   const creatorFee = (totalPool * BigInt(creatorFeeBps)) / 10000n;
   const platformFee = (totalPool * BigInt(platformFeeBps)) / 10000n;
-  const distributablePool = totalPool - creatorFee - platformFee;
+  const distributablePool = totalPool - creatorFee - platformFee + (options.carriedPool ?? 0n);
 
   // 3. Winning predictions with time-weighted amounts
   const winningPredictions = predictions.filter((p) => p.reelId === winnerReelId);
 
   const predictorPayouts = new Map<string, bigint>();
+  const dust = new Map<string, bigint>();
+  const breakdown: PayoutBreakdown = {
+    predictorPayouts,
+    payoutsByPredictor: new Map(),
+    creatorFee,
+    platformFee,
+    distributablePool,
+    totalPool,
+    winnerReelId,
+    dust,
+  };
+
+  if (distributablePool > 0n) {
+    if (winningPredictions.length === 0) {
+      breakdown.noWinner = applyNoWinnerPolicy(predictions, distributablePool, options, predictorPayouts, dust);
+    } else {
+      // 4–5. Distribute pool proportionally to time-weighted amounts
+      distributeByWeight(winningPredictions, distributablePool, contestStart, contestEnd, multiplier, predictorPayouts, dust, options.weighting);
+    }
+  }
+
+  // 6. Refund rejected bids and trimmed stake, then roll payouts up per wallet
+  refundRejected(screened.rejected, breakdown);
+  refundExcessStake(limited.excess, breakdown);
+  breakdown.payoutsByPredictor = aggregatePayoutsByPredictor([...screened.eligible, ...screened.rejected], predictorPayouts);
+
+  return breakdown;
+}
+
+/**
+ * Calculate a ranked (podium) payout breakdown.
+ *
+ * `rankedReelIds[i]` receives `splitBps[i]` of both the distributable pool
+ * and the creator fee. Reels ranked beyond the split table get nothing.
+ *
+ * @param predictions   - All predictions across all reels for this challenge
+ * @param rankedReelIds - Reels in finishing order (index 0 = winner)
+ * @param splitBps      - Share per rank in basis points, must sum to 10000
+ * @param contestStart  - Unix ms timestamp when the contest started
+ * @param contestEnd    - Unix ms timestamp when the contest ended
+ * @param creatorFeeBps - Creator fee in basis points (default 1000 = 10%)
+ * @param platformFeeBps- Platform fee in basis points (default 250 = 2.5%)
+ * @param options       - Multiplier curve, no-winner policy, carried pool
+ */
+export function calculateRankedPayouts(
+  predictions: TimedPrediction[],
+  rankedReelIds: string[],
+  splitBps: number[],
+  contestStart: number,
+  contestEnd: number,
+  creatorFeeBps: number = CREATOR_FEE_BPS,
+  platformFeeBps: number = PLATFORM_FEE_BPS,
+  options: PayoutOptions = {},
+): PayoutBreakdown {
+  if (splitBps.length === 0 || splitBps.some((b) => b < 0 || !Number.isInteger(b))) {
+    throw new Error('Invalid podium split: expected non-negative integer basis points');
+  }
+  if (splitBps.reduce((sum, b) => sum + b, 0) !== 10000) {
+    throw new Error('Invalid podium split: basis points must sum to 10000');
+  }
+
+  const multiplier = options.multiplier ?? DEFAULT_MULTIPLIER_CONFIG;
+  const screened = screenBidTimes(predictions, contestStart, contestEnd, options.signedTimePolicy, options.closesAt);
+  const limited = applyStakeLimits(screened.eligible, options.stakeLimits);
+  predictions = limited.capped;
+
+  const totalPool = predictions.reduce((sum, p) => sum + p.amount, 0n);
+  const creatorFee = (totalPool * BigInt(creatorFeeBps)) / 10000n;
+  const platformFee = (totalPool * BigInt(platformFeeBps)) / 10000n;
+  const distributablePool = totalPool - creatorFee - platformFee + (options.carriedPool ?? 0n);
+  const winnerReelId = rankedReelIds[0] ?? '';
+
+  // One tier per ranked reel, capped by the split table
+  const ranked = rankedReelIds.slice(0, splitBps.length).map((reelId, i) => ({
+    rank: i + 1,
+    reelId,
+    splitBps: splitBps[i],
+    predictions: predictions.filter((p) => p.reelId === reelId),
+  }));
+
+  // Creator fee goes to every ranked creator; the pool only to funded tiers
+  const creatorSlices = splitByBps(creatorFee, ranked.map((t) => t.splitBps));
+  const funded = ranked.map((t) => t.predictions.length > 0 && t.splitBps > 0);
+  const poolSlices = distributablePool > 0n
+    ? splitByBps(distributablePool, ranked.map((t, i) => (funded[i] ? t.splitBps : 0)))
+    : ranked.map(() => 0n);
+
+  const predictorPayouts = new Map<string, bigint>();
+  const dust = new Map<string, bigint>();
+  const tiers: PayoutTier[] = ranked.map((t, i) => {
+    if (poolSlices[i] > 0n) {
+      distributeByWeight(t.predictions, poolSlices[i], contestStart, contestEnd, multiplier, predictorPayouts, dust, options.weighting);
+    }
+    return {
+      rank: t.rank,
+      reelId: t.reelId,
+      splitBps: t.splitBps,
+      pool: poolSlices[i],
+      creatorFee: creatorSlices[i],
+    };
+  });
+
+  const breakdown: PayoutBreakdown = {
+    predictorPayouts,
+    payoutsByPredictor: new Map(),
+    creatorFee,
+    platformFee,
+    distributablePool,
+    totalPool,
+    winnerReelId,
+    tiers,
+    dust,
+  };
+
+  if (distributablePool > 0n && !funded.includes(true)) {
+    breakdown.noWinner = applyNoWinnerPolicy(predictions, distributablePool, options, predictorPayouts, dust);
+  }
+
+  refundRejected(screened.rejected, breakdown);
+  refundExcessStake(limited.excess, breakdown);
+  breakdown.payoutsByPredictor = aggregatePayoutsByPredictor([...screened.eligible, ...screened.rejected], predictorPayouts);
 
-  if (winningPredictions.length === 0 || distributablePool <= 0n) {
-    return { predictorPayouts, creatorFee, platformFee, distributablePool, totalPool, winnerReelId };
+  return breakdown;
+}
+
+/**
+ * Apply the signed-time policy. Eligible predictions come back with
+ * `timestamp` replaced by the (possibly clamped) signed time; without a
+ * policy the input is returned untouched.
+ */
+function screenBidTimes(
+  predictions: TimedPrediction[],
+  contestStart: number,
+  contestEnd: number,
+  policy?: SignedTimePolicy,
+  closesAt?: number,
+): { eligible: TimedPrediction[]; rejected: TimedPrediction[] } {
+  if (!policy && closesAt === undefined) return { eligible: predictions, rejected: [] };
+
+  // Overtime can keep predictions open past contestEnd
+  const latest = closesAt ?? contestEnd;
+  const eligible: TimedPrediction[] = [];
+  const rejected: TimedPrediction[] = [];
+
+  for (const pred of predictions) {
+    const bidTime = policy ? pred.signedTimestamp : pred.timestamp;
+
+    // Placed after predictions closed (blackout) — refunded under any policy
+    if (bidTime !== undefined && closesAt !== undefined && bidTime > closesAt) {
+      rejected.push(pred);
+      continue;
+    }
+    if (!policy) {
+      eligible.push(pred);
+      continue;
+    }
+
+    const inWindow = bidTime !== undefined && bidTime >= contestStart && bidTime <= latest;
+
+    if (inWindow) {
+      eligible.push({ ...pred, timestamp: bidTime });
+    } else if (policy === 'reject') {
+      rejected.push(pred);
+    } else {
+      const clamped = bidTime === undefined ? contestEnd : Math.max(contestStart, Math.min(latest, bidTime));
+      eligible.push({ ...pred, timestamp: clamped });
+    }
   }
 
-  // 4. Calculate weighted amounts for each winning prediction
-  const weights: { id: string; weight: bigint }[] = [];
-  let totalWeight = 0n;
+  return { eligible, rejected };
+}
+
+/** Refund rejected predictions at face value and add them back into totalPool. */
+function refundRejected(rejected: TimedPrediction[], breakdown: PayoutBreakdown): void {
+  if (rejected.length === 0) return;
+  for (const pred of rejected) {
+    breakdown.predictorPayouts.set(pred.id, pred.amount);
+    breakdown.totalPool += pred.amount;
+  }
+  breakdown.rejectedPredictions = rejected.map((p) => p.id);
+}
+
+/**
+ * Trim stake above `limits`, earliest stake kept first. Returns the capped
+ * predictions (fully trimmed ones dropped) and the excess per prediction ID.
+ *
+ * The pool-share cap is measured against the pool after every trim: all
+ * addresses above it are cut to one common stake X, the largest with
+ * X ≤ bps × (pool after trimming). The cap never goes below an equal split
+ * between the addresses — with no competing stake there's no one to dominate.
+ */
+function applyStakeLimits(
+  predictions: TimedPrediction[],
+  limits?: StakeLimits,
+): { capped: TimedPrediction[]; excess: Map<string, bigint> } {
+  const excess = new Map<string, bigint>();
+  if (!limits || (limits.maxStakePerReel === undefined && limits.maxPoolShareBps === undefined)) {
+    return { capped: predictions, excess };
+  }
+
+  const ordered = [...predictions].sort(byBidOrder);
+  const kept = new Map<string, bigint>(predictions.map((p) => [p.id, p.amount]));
+
+  const trim = (id: string, by: bigint) => {
+    kept.set(id, kept.get(id)! - by);
+    excess.set(id, (excess.get(id) ?? 0n) + by);
+  };
 
-  for (const pred of winningPredictions) {
-    const w = weightedAmount(pred.amount, pred.timestamp, contestStart, contestEnd);
-    weights.push({ id: pred.id, weight: w });
-    totalWeight += w;
+  // 1. Per address per reel
+  if (limits.maxStakePerReel !== undefined) {
+    const used = new Map<string, bigint>();
+    for (const pred of ordered) {
+      const key = `${pred.predictor.toLowerCase()}:${pred.reelId}`;
+      const room = limits.maxStakePerReel - (used.get(key) ?? 0n);
+      const take = pred.amount < room ? pred.amount : room > 0n ? room : 0n;
+      used.set(key, (used.get(key) ?? 0n) + take);
+      if (take < pred.amount) trim(pred.id, pred.amount - take);
+    }
   }
 
-  // 5. Distribute pool proportionally to weights
-  if (totalWeight > 0n) {
-    let distributed = 0n;
-    for (let i = 0; i < weights.length; i++) {
-      const { id, weight } = weights[i];
-      let payout: bigint;
-      if (i === weights.length - 1) {
-        // Last one gets the remainder to avoid rounding dust
-        payout = distributablePool - distributed;
-      } else {
-        payout = (weight * distributablePool) / totalWeight;
+  // 2. Share of the pool — latest stake trimmed first
+  const bps = limits.maxPoolShareBps;
+  if (bps !== undefined && bps < 10000) {
+    const byAddress = new Map<string, bigint>();
+    for (const pred of ordered) {
+      const addr = pred.predictor.toLowerCase();
+      byAddress.set(addr, (byAddress.get(addr) ?? 0n) + kept.get(pred.id)!);
+    }
+
+    const cutoff = poolShareCutoff(Array.from(byAddress.values()), bps);
+
+    for (const [addr, stake] of byAddress) {
+      let over = stake - cutoff;
+      for (let i = ordered.length - 1; i >= 0 && over > 0n; i--) {
+        const pred = ordered[i];
+        if (pred.predictor.toLowerCase() !== addr) continue;
+        const left = kept.get(pred.id)!;
+        const by = left < over ? left : over;
+        if (by > 0n) trim(pred.id, by);
+        over -= by;
       }
-      distributed += payout;
-      predictorPayouts.set(id, payout);
     }
   }
 
-  return { predictorPayouts, creatorFee, platformFee, distributablePool, totalPool, winnerReelId };
+  const capped = predictions
+    .filter((p) => kept.get(p.id)! > 0n)
+    .map((p) => (excess.has(p.id) ? { ...p, amount: kept.get(p.id)! } : p));
+  return { capped, excess };
+}
+
+/**
+ * Largest per-address stake X such that, with every stake above X cut to X,
+ * X is at most `bps` of the remaining pool. With the top k stakes cut,
+ * X × 10000 ≤ bps × (k × X + rest); walk k up until X lands in its segment.
+ */
+function poolShareCutoff(stakes: bigint[], bps: number): bigint {
+  if (stakes.length === 0) return 0n;
+  const sorted = [...stakes].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  const total = sorted.reduce((sum, s) => sum + s, 0n);
+  const share = BigInt(Math.max(bps, Math.ceil(10000 / sorted.length)));
+  if (sorted[0] * 10000n <= share * total) return sorted[0];
+
+  let rest = total;
+  for (let k = 1; k <= sorted.length; k++) {
+    rest -= sorted[k - 1];
+    const room = 10000n - BigInt(k) * share;
+    if (room <= 0n) break;
+    const x = (share * rest) / room;
+    if (x >= (sorted[k] ?? 0n)) return x;
+  }
+  // Unreachable: an equal split always satisfies the cap
+  return sorted[sorted.length - 1];
+}
+
+/**
+ * Check whether adding `next` to `existing` stays within `limits`, using
+ * the same rules as payout-time trimming. Returns the reason it doesn't,
+ * or null when it's fine.
+ *
+ * `poolTotal` is the challenge's whole staked pool (every wallet, including
+ * `existing`) for callers that only hold their own predictions; without it
+ * the pool share is measured against `existing` alone. Either way payout-time
+ * trimming still enforces the caps against the full pool.
+ */
+export function checkStakeLimits(
+  existing: Pick<TimedPrediction, 'predictor' | 'reelId' | 'amount'>[],
+  next: Pick<TimedPrediction, 'predictor' | 'reelId' | 'amount'>,
+  limits?: StakeLimits,
+  poolTotal?: bigint,
+): string | null {
+  if (!limits) return null;
+  const addr = next.predictor.toLowerCase();
+
+  if (limits.maxStakePerReel !== undefined) {
+    const onReel = existing
+      .filter((p) => p.predictor.toLowerCase() === addr && p.reelId === next.reelId)
+      .reduce((sum, p) => sum + p.amount, 0n);
+    if (onReel + next.amount > limits.maxStakePerReel) {
+      return `Stake cap exceeded: max ${limits.maxStakePerReel} per reel, ${onReel} already staked`;
+    }
+  }
+
+  const bps = limits.maxPoolShareBps;
+  if (bps !== undefined && bps < 10000) {
+    let mine = next.amount;
+    let others = 0n;
+    for (const p of existing) {
+      if (p.predictor.toLowerCase() === addr) mine += p.amount;
+      else others += p.amount;
+    }
+    if (poolTotal !== undefined) {
+      const rest = poolTotal - (mine - next.amount);
+      if (rest > others) others = rest;
+    }
+    if (others > 0n && mine * 10000n > (mine + others) * BigInt(bps)) {
+      return `Pool share cap exceeded: max ${bps / 100}% of the pool per address`;
+    }
+  }
+
+  return null;
+}
+
+/** Refund stake trimmed by `stakeLimits` on top of any payout and add it back into totalPool. */
+function refundExcessStake(excess: Map<string, bigint>, breakdown: PayoutBreakdown): void {
+  if (excess.size === 0) return;
+  for (const [id, amount] of excess) {
+    breakdown.predictorPayouts.set(id, (breakdown.predictorPayouts.get(id) ?? 0n) + amount);
+    breakdown.totalPool += amount;
+  }
+  breakdown.stakeRefunds = excess;
+}
+
+/**
+ * Roll per-prediction payouts up to one total per predictor.
+ * Keys are lower-cased so checksummed and plain addresses merge.
+ * Predictors with no payout are omitted.
+ */
+export function aggregatePayoutsByPredictor(
+  predictions: TimedPrediction[],
+  predictorPayouts: Map<string, bigint>,
+): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const pred of predictions) {
+    const payout = predictorPayouts.get(pred.id);
+    if (!payout) continue;
+    const key = pred.predictor.toLowerCase();
+    totals.set(key, (totals.get(key) ?? 0n) + payout);
+  }
+  return totals;
+}
+
+/**
+ * Apply the challenge's no-winner policy to `pool`.
+ * Refunds are written into `into`, pro rata to each prediction's stake.
+ */
+function applyNoWinnerPolicy(
+  predictions: TimedPrediction[],
+  pool: bigint,
+  options: PayoutOptions,
+  into: Map<string, bigint>,
+  dust: Map<string, bigint>,
+): NoWinnerOutcome {
+  const policy = options.noWinnerPolicy ?? DEFAULT_NO_WINNER_POLICY;
+
+  if (policy.kind === 'refund') {
+    const stakes = predictions.filter((p) => p.amount > 0n).sort(byBidOrder);
+    const totalStaked = stakes.reduce((sum, p) => sum + p.amount, 0n);
+    // Nothing to refund against (e.g. a carried pool with no stakes) → keep it carried
+    if (totalStaked === 0n) return { policy: { kind: 'jackpot' }, amount: pool };
+
+    const split = largestRemainder(pool, stakes.map((p) => p.amount));
+    stakes.forEach((p, i) => {
+      into.set(p.id, split.shares[i]);
+      if (split.dust[i] > 0n) dust.set(p.id, split.dust[i]);
+    });
+  }
+
+  return { policy, amount: pool };
+}
+
+/** Canonical prediction order: signed bid time (else timestamp), then ID. */
+function byBidOrder(a: TimedPrediction, b: TimedPrediction): number {
+  const byTime = (a.signedTimestamp ?? a.timestamp) - (b.signedTimestamp ?? b.timestamp);
+  return byTime || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * Split `amount` by basis-point weights, renormalised over the non-zero
+ * weights (largest remainder, ties to the higher rank).
+ * Returns all zeros if every weight is zero.
+ */
+function splitByBps(amount: bigint, weights: number[]): bigint[] {
+  return largestRemainder(amount, weights.map((w) => BigInt(Math.max(0, w)))).shares;
+}
+
+/**
+ * Largest-remainder split of `amount` proportional to `weights`.
+ * Leftover units go one each to the largest remainders; equal remainders
+ * go to the earlier index, so callers pass weights in canonical order.
+ * `dust[i]` is 1n where a leftover unit was added. All zeros if Σweights = 0.
+ */
+function largestRemainder(amount: bigint, weights: bigint[]): { shares: bigint[]; dust: bigint[] } {
+  const total = weights.reduce((sum, w) => sum + w, 0n);
+  const shares = weights.map(() => 0n);
+  const dust = weights.map(() => 0n);
+  if (total <= 0n) return { shares, dust };
+
+  const remainders: { index: number; remainder: bigint }[] = [];
+  let allocated = 0n;
+  weights.forEach((w, i) => {
+    shares[i] = (amount * w) / total;
+    allocated += shares[i];
+    remainders.push({ index: i, remainder: (amount * w) % total });
+  });
+
+  remainders.sort((a, b) =>
+    a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1,
+  );
+  for (let k = 0; k < Number(amount - allocated); k++) {
+    const { index } = remainders[k];
+    shares[index] += 1n;
+    dust[index] = 1n;
+  }
+  return { shares, dust };
+}
+
+/**
+ * Distribute `pool` across `preds` proportionally to their time-weighted
+ * amounts (largest remainder, canonical order), writing each payout into
+ * `into` and any rounding unit into `dust`. If every weight is zero (e.g. a
+ * 0× minimum multiplier and only late bids) the pool goes back pro rata by
+ * stake instead, so it is never dropped.
+ */
+function distributeByWeight(
+  preds: TimedPrediction[],
+  pool: bigint,
+  contestStart: number,
+  contestEnd: number,
+  multiplier: MultiplierConfig,
+  into: Map<string, bigint>,
+  dust: Map<string, bigint>,
+  weighting: StakeWeighting = 'linear',
+): void {
+  const ordered = [...preds].sort(byBidOrder);
+  let weights = ordered.map((pred) =>
+    weightedAmount(pred.amount, pred.timestamp, contestStart, contestEnd, multiplier, weighting),
+  );
+  if (weights.every((w) => w <= 0n)) weights = ordered.map((pred) => pred.amount);
+  if (weights.every((w) => w <= 0n)) {
+    throw new Error(`Cannot distribute a pool of ${pool} across predictions with no stake`);
+  }
+
+  const split = largestRemainder(pool, weights);
+
+  ordered.forEach((pred, i) => {
+    into.set(pred.id, split.shares[i]);
+    if (split.dust[i] > 0n) dust.set(pred.id, split.dust[i]);
+  });
+}
+
+/**
+ * Summarise predictions into per-reel pool snapshots for `quotePayout`.
+ * Weights use the same rounding as `calculateTimeWeightedPayouts`.
+ */
+export function summarizeReelPools(
+  predictions: TimedPrediction[],
+  contestStart: number,
+  contestEnd: number,
+  multiplier: MultiplierConfig = DEFAULT_MULTIPLIER_CONFIG,
+  weighting: StakeWeighting = 'linear',
+): ReelPoolSnapshot[] {
+  const pools = new Map<string, ReelPoolSnapshot>();
+  for (const pred of predictions) {
+    const pool = pools.get(pred.reelId) ?? { reelId: pred.reelId, amount: 0n, weight: 0n };
+    pool.amount += pred.amount;
+    pool.weight += weightedAmount(pred.amount, pred.timestamp, contestStart, contestEnd, multiplier, weighting);
+    pools.set(pred.reelId, pool);
+  }
+  return Array.from(pools.values());
+}
+
+/**
+ * Quote the payout of placing `amount` on `reelId` right now, from the real
+ * pool composition.
+ *
+ * Mirrors `calculateTimeWeightedPayouts` for a single winner: fees come out
+ * of every reel's stake, and the user's share is their weight over the
+ * winning reel's total weight.
+ *
+ * @param pools          - Current stake + weight per reel (see `summarizeReelPools`)
+ * @param scenarioStakes - Extra stake amounts to project (default: +25%, +100% of the pool)
+ */
+export function quotePayout(
+  amount: bigint,
+  reelId: string,
+  pools: ReelPoolSnapshot[],
+  contestStart: number,
+  contestEnd: number,
+  now: number = Date.now(),
+  creatorFeeBps: number = CREATOR_FEE_BPS,
+  platformFeeBps: number = PLATFORM_FEE_BPS,
+  options: PayoutOptions = {},
+  scenarioStakes?: bigint[],
+): PayoutQuote {
+  const config = options.multiplier ?? DEFAULT_MULTIPLIER_CONFIG;
+  const carried = options.carriedPool ?? 0n;
+  const mul = getMultiplier(now, contestStart, contestEnd, config);
+  const mulScaled = BigInt(Math.round(mul * 10000));
+  const weighting = options.weighting ?? 'linear';
+  const weight = amount > 0n ? weightedAmount(amount, now, contestStart, contestEnd, config, weighting) : 0n;
+
+  const poolTotal = pools.reduce((sum, p) => sum + p.amount, 0n);
+  const reel = pools.find((p) => p.reelId === reelId);
+  const reelWeight = reel?.weight ?? 0n;
+
+  const distributable = (stake: bigint) =>
+    stake - (stake * BigInt(creatorFeeBps)) / 10000n - (stake * BigInt(platformFeeBps)) / 10000n + carried;
+
+  // Payout with `extraSame` stake added to this reel and `extraOther` elsewhere
+  const payoutWith = (extraSame: bigint, extraOther: bigint): bigint => {
+    if (weight <= 0n) return 0n;
+    const extraWeight = (stakeSize(extraSame, weighting) * mulScaled) / 10000n;
+    const totalWeight = reelWeight + weight + extraWeight;
+    const pool = distributable(poolTotal + amount + extraSame + extraOther);
+    return pool > 0n ? (weight * pool) / totalWeight : 0n;
+  };
+
+  const payoutIfWins = payoutWith(0n, 0n);
+
+  // Solve weight·D(S + x) / (W + w + x·mul) = amount for x by bisection.
+  // As x grows the payout tends to weight·(1 − fees)/mul under linear
+  // weighting and grows without bound under sqrt weighting (√x of weight
+  // against x of pool); with a 0× multiplier late stake adds no weight at
+  // all. If that limit isn't below the stake there is no break-even.
+  const keptBps = 10000n - BigInt(creatorFeeBps + platformFeeBps);
+  const reachable = mulScaled > 0n && (weighting === 'sqrt' ? keptBps <= 0n : weight * keptBps < amount * mulScaled);
+
+  let breakEvenExtraStake: bigint | null = 0n;
+  if (payoutIfWins > amount) {
+    breakEvenExtraStake = null;
+    let lo = 0n;
+    let hi = poolTotal + amount > 0n ? poolTotal + amount : 1n;
+    // Bounded anyway, so a limit right at the stake can't spin forever
+    for (let i = 0; reachable && i < BREAK_EVEN_MAX_DOUBLINGS && payoutWith(hi, 0n) > amount; i++) {
+      lo = hi;
+      hi *= 2n;
+    }
+    if (reachable && payoutWith(hi, 0n) <= amount) {
+      while (hi - lo > 1n) {
+        const mid = (lo + hi) / 2n;
+        if (payoutWith(mid, 0n) > amount) lo = mid;
+        else hi = mid;
+      }
+      breakEvenExtraStake = lo;
+    }
+  }
+
+  const base = poolTotal + amount;
+  const stakes = scenarioStakes ?? [base / 4n, base];
+  const scenarios = stakes.map((extraStake) => ({
+    extraStake,
+    sameReel: payoutWith(extraStake, 0n),
+    otherReels: payoutWith(0n, extraStake),
+  }));
+
+  const reelTotalWeight = reelWeight + weight;
+
+  return {
+    reelId,
+    amount,
+    multiplier: mul,
+    weight,
+    payoutIfWins,
+    profitIfWins: payoutIfWins - amount,
+    shareOfReel: reelTotalWeight > 0n ? Number((weight * 10000n) / reelTotalWeight) / 10000 : 0,
+    breakEvenExtraStake,
+    scenarios,
+  };
 }
 
 /**
@@ -242,6 +1114,8 @@ export function calculateTimeWeightedPayouts(
  * Simplified model: assumes user is the only predictor at this moment
  * and the rest of the pool stays the same.
  *
+ * @deprecated Treats the whole pool as competition at a guessed multiplier.
+ *             Use `quotePayout` with real per-reel pools instead.
  * @returns Estimated payout in raw USDC units (6 decimals)
  */
 export function estimatePayout(
@@ -250,10 +1124,11 @@ export function estimatePayout(
   contestStart: number,
   contestEnd: number,
   now: number = Date.now(),
+  config: MultiplierConfig = DEFAULT_MULTIPLIER_CONFIG,
 ): bigint {
   if (userAmount <= 0n) return 0n;
 
-  const mul = getMultiplier(now, contestStart, contestEnd);
+  const mul = getMultiplier(now, contestStart, contestEnd, config);
   const totalPool = currentPoolSize + userAmount;
 
   // Fees
@@ -263,8 +1138,9 @@ export function estimatePayout(
   // Simplified: assume user's weighted share ≈ mul * amount / (pool + mul * amount)
   const mulScaled = BigInt(Math.round(mul * 10000));
   const userWeight = (userAmount * mulScaled) / 10000n;
-  // Assume existing pool has average multiplier of ~2x (rough midpoint)
-  const existingWeight = (currentPoolSize * 20000n) / 10000n;
+  // Assume existing pool was placed around the contest midpoint (rough average)
+  const midScaled = BigInt(Math.round(evaluateCurve(0.5, config) * 10000));
+  const existingWeight = (currentPoolSize * midScaled) / 10000n;
   const totalWeight = existingWeight + userWeight;
 
   if (totalWeight <= 0n) return 0n;
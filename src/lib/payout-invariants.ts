@@ -0,0 +1,221 @@
+/**
+ * Payout invariant checker
+ *
+ * On-chain settlement is irreversible, so a PayoutBreakdown is proven sound
+ * before it's submitted:
+ *
+ *   conservation      Σ payouts + fees + unclaimed = totalPool + carriedPool
+ *   non-negative      no payout or fee below zero
+ *   known-predictions every paid ID is one of the predictions
+ *   winners-only      only winning (paid-tier) predictions are paid, except refunds
+ *                     (rejected bids, trimmed stake, no-winner refund) up to the stake
+ *   fees              creator / platform fees match the challenge's bps
+ *   per-predictor     payoutsByPredictor is the roll-up of predictorPayouts
+ *   deterministic     recomputing from the same input gives the same result (dust included)
+ *   order-independent recomputing from reordered input gives the same result
+ *
+ * The checker never throws; it returns a report listing every violation.
+ */
+
+import type { PayoutBreakdown, TimedPrediction } from './payout-algorithm';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export type PayoutInvariant =
+  | 'conservation'
+  | 'non-negative'
+  | 'known-predictions'
+  | 'winners-only'
+  | 'fees'
+  | 'per-predictor'
+  | 'deterministic'
+  | 'order-independent';
+
+export interface InvariantViolation {
+  invariant: PayoutInvariant;
+  message: string;
+  /** Offending prediction, when the violation is about a single one */
+  predictionId?: string;
+}
+
+export interface InvariantReport {
+  ok: boolean;
+  violations: InvariantViolation[];
+}
+
+export interface PayoutInvariantInput {
+  /** The predictions the breakdown was computed from */
+  predictions: TimedPrediction[];
+  /** Reels whose predictions may be paid (the winner, or every podium reel) */
+  paidReelIds: string[];
+  /** Fees from the challenge config */
+  creatorFeeBps: number;
+  platformFeeBps: number;
+  /** Pool carried in from a rollover / the jackpot */
+  carriedPool?: bigint;
+  /** Re-run the payout calculation with the same settings on the given predictions */
+  recompute: (predictions: TimedPrediction[]) => PayoutBreakdown;
+}
+
+// ────────────────────────────────────────────────
+// Checker
+// ────────────────────────────────────────────────
+
+export function checkPayoutInvariants(
+  breakdown: PayoutBreakdown,
+  input: PayoutInvariantInput,
+): InvariantReport {
+  const violations: InvariantViolation[] = [];
+  const fail = (invariant: PayoutInvariant, message: string, predictionId?: string) =>
+    violations.push({ invariant, message, predictionId });
+
+  const byId = new Map(input.predictions.map((p) => [p.id, p]));
+  const rejected = new Set(breakdown.rejectedPredictions ?? []);
+  const stakeRefunds = breakdown.stakeRefunds ?? new Map<string, bigint>();
+  const paidReels = new Set(input.paidReelIds);
+  const noWinnerRefund = breakdown.noWinner?.policy.kind === 'refund';
+
+  // ── non-negative ──
+  if (breakdown.creatorFee < 0n) fail('non-negative', `creatorFee is ${breakdown.creatorFee}`);
+  if (breakdown.platformFee < 0n) fail('non-negative', `platformFee is ${breakdown.platformFee}`);
+
+  let paidOut = 0n;
+  for (const [id, amount] of breakdown.predictorPayouts) {
+    paidOut += amount;
+    if (amount < 0n) fail('non-negative', `payout is ${amount}`, id);
+
+    // ── known-predictions ──
+    const pred = byId.get(id);
+    if (!pred) {
+      fail('known-predictions', `payout of ${amount} to unknown prediction`, id);
+      continue;
+    }
+
+    // ── winners-only ──
+    if (amount <= 0n || paidReels.has(pred.reelId)) continue;
+    // A no-winner refund shares out the distributable pool, which may
+    // include a carried pool on top of the stake
+    const refundable = rejected.has(id)
+      ? pred.amount
+      : noWinnerRefund
+      ? pred.amount - (stakeRefunds.get(id) ?? 0n) + (input.carriedPool ?? 0n)
+      : 0n;
+    const allowed = refundable + (stakeRefunds.get(id) ?? 0n);
+    if (amount > allowed) {
+      fail('winners-only', `losing prediction on ${pred.reelId} paid ${amount} (refundable: ${allowed})`, id);
+    }
+  }
+
+  // ── conservation ──
+  const unclaimed = breakdown.noWinner && !noWinnerRefund ? breakdown.noWinner.amount : 0n;
+  const outflow = paidOut + breakdown.creatorFee + breakdown.platformFee + unclaimed;
+  const inflow = breakdown.totalPool + (input.carriedPool ?? 0n);
+  if (outflow !== inflow) {
+    fail('conservation', `payouts + fees + unclaimed = ${outflow}, expected totalPool + carried = ${inflow}`);
+  }
+
+  const staked = input.predictions.reduce((sum, p) => sum + p.amount, 0n);
+  if (staked !== breakdown.totalPool) {
+    fail('conservation', `totalPool is ${breakdown.totalPool}, predictions stake ${staked}`);
+  }
+
+  // ── fees ── (charged on stake that stays in the pool)
+  let refundedStake = 0n;
+  for (const id of rejected) refundedStake += byId.get(id)?.amount ?? 0n;
+  for (const amount of stakeRefunds.values()) refundedStake += amount;
+  const feeBase = breakdown.totalPool - refundedStake;
+
+  const expectedCreator = (feeBase * BigInt(input.creatorFeeBps)) / 10000n;
+  const expectedPlatform = (feeBase * BigInt(input.platformFeeBps)) / 10000n;
+  if (breakdown.creatorFee !== expectedCreator) {
+    fail('fees', `creatorFee is ${breakdown.creatorFee}, ${input.creatorFeeBps} bps of ${feeBase} is ${expectedCreator}`);
+  }
+  if (breakdown.platformFee !== expectedPlatform) {
+    fail('fees', `platformFee is ${breakdown.platformFee}, ${input.platformFeeBps} bps of ${feeBase} is ${expectedPlatform}`);
+  }
+
+  // ── per-predictor ──
+  const rolledUp = new Map<string, bigint>();
+  for (const [id, amount] of breakdown.predictorPayouts) {
+    const pred = byId.get(id);
+    if (!pred || amount === 0n) continue;
+    const key = pred.predictor.toLowerCase();
+    rolledUp.set(key, (rolledUp.get(key) ?? 0n) + amount);
+  }
+  for (const diff of diffPayoutMaps(rolledUp, breakdown.payoutsByPredictor)) {
+    fail('per-predictor', diff);
+  }
+
+  // ── deterministic / order-independent ──
+  const rerun = (predictions: TimedPrediction[]): PayoutBreakdown | null => {
+    try {
+      return input.recompute(predictions);
+    } catch (err: any) {
+      fail('deterministic', `recompute threw: ${err?.message ?? err}`);
+      return null;
+    }
+  };
+
+  const again = rerun(input.predictions);
+  if (again) {
+    for (const diff of diffBreakdowns(breakdown, again)) fail('deterministic', diff);
+  }
+
+  const orderings: [string, TimedPrediction[]][] = [
+    ['reversed', [...input.predictions].reverse()],
+    ['rotated', rotate(input.predictions)],
+  ];
+  for (const [label, reordered] of orderings) {
+    const result = rerun(reordered);
+    if (!result) continue;
+    for (const diff of diffBreakdowns(breakdown, result)) fail('order-independent', `${label} input: ${diff}`);
+  }
+
+  return { ok: violations.length === 0, violations };
+}
+
+/** Multi-line summary of a report for logs and error messages. */
+export function formatInvariantReport(report: InvariantReport): string {
+  if (report.ok) return 'All payout invariants hold';
+  return [
+    `${report.violations.length} payout invariant violation(s):`,
+    ...report.violations.map((v) =>
+      `  [${v.invariant}]${v.predictionId ? ` ${v.predictionId}:` : ''} ${v.message}`,
+    ),
+  ].join('\n');
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+function diffBreakdowns(a: PayoutBreakdown, b: PayoutBreakdown): string[] {
+  const diffs: string[] = [];
+  const fields = ['totalPool', 'distributablePool', 'creatorFee', 'platformFee'] as const;
+  for (const field of fields) {
+    if (a[field] !== b[field]) diffs.push(`${field} ${a[field]} ≠ ${b[field]}`);
+  }
+  diffs.push(...diffPayoutMaps(a.predictorPayouts, b.predictorPayouts));
+  diffs.push(...diffPayoutMaps(a.dust, b.dust).map((d) => `dust ${d}`));
+  return diffs;
+}
+
+/** Differences between two payout maps, ignoring zero entries. */
+function diffPayoutMaps(a: Map<string, bigint>, b: Map<string, bigint>): string[] {
+  const diffs: string[] = [];
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  for (const key of keys) {
+    const x = a.get(key) ?? 0n;
+    const y = b.get(key) ?? 0n;
+    if (x !== y) diffs.push(`${key}: ${x} ≠ ${y}`);
+  }
+  return diffs;
+}
+
+function rotate<T>(items: T[]): T[] {
+  if (items.length < 2) return [...items];
+  const mid = Math.floor(items.length / 2);
+  return [...items.slice(mid), ...items.slice(0, mid)];
+}
@@ -0,0 +1,437 @@
+/**
+ * Dispute Service — two-phase settlement
+ *
+ * `ReelPredict.proposeSettlement` only opens a dispute window. Until it
+ * closes, any participant of the challenge can knock the proposal out:
+ *
+ *   later-state   a clearnode-signed state with a higher nonce than the
+ *                 proposal's — the proposal settled a stale state
+ *                   signed message = keccak256(abi.encodePacked(challengeId, stateHash, uint64 nonce))
+ *   fraud-proof   a second clearnode-signed settlement for the same
+ *                 stateHash — the clearnode equivocated
+ *
+ * After the window anyone may call `finalizeSettlement`, which posts the
+ * payout root and opens claims (`finalizeSettlements` for a whole batch).
+ *
+ * Uses viem clients so the same service backs scripts and the
+ * challenge-page hook.
+ */
+
+import type { Address, Hex, PublicClient, WalletClient } from 'viem';
+import { decodeErrorResult, encodePacked, keccak256, parseEventLogs, recoverMessageAddress, isAddressEqual, toHex } from 'viem';
+import type { SessionState } from './nitrolite-client';
+import { hashSessionState } from './state-encoding';
+import type { SettlementSubmission } from './settlement-verifier';
+
+const DISPUTE_ABI = [
+  {
+    name: 'getPendingSettlement',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'challengeId', type: 'string' }],
+    outputs: [
+      {
+        type: 'tuple',
+        components: [
+          { name: 'stateHash', type: 'bytes32' },
+          { name: 'stateNonce', type: 'uint64' },
+          { name: 'payoutRoot', type: 'bytes32' },
+          { name: 'totalPayout', type: 'uint256' },
+          { name: 'winnerReelId', type: 'string' },
+          { name: 'noWinnerPolicy', type: 'uint8' },
+          { name: 'rolloverChallengeId', type: 'string' },
+          { name: 'unclaimedAmount', type: 'uint256' },
+          { name: 'creators', type: 'address[]' },
+          { name: 'creatorFees', type: 'uint256[]' },
+          { name: 'platformFee', type: 'uint256' },
+          { name: 'messageHash', type: 'bytes32' },
+          { name: 'disputeDeadline', type: 'uint256' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'disputeWindow',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'disputeWithLaterState',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'challengeId', type: 'string' },
+      { name: 'stateHash', type: 'bytes32' },
+      { name: 'stateNonce', type: 'uint64' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'disputeWithFraudProof',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'challengeId', type: 'string' },
+      {
+        name: 'conflicting',
+        type: 'tuple',
+        components: [
+          { name: 'stateHash', type: 'bytes32' },
+          { name: 'stateNonce', type: 'uint64' },
+          { name: 'signatures', type: 'bytes[]' },
+          { name: 'payoutRoot', type: 'bytes32' },
+          { name: 'totalPayout', type: 'uint256' },
+          { name: 'winnerReelId', type: 'string' },
+          { name: 'noWinnerPolicy', type: 'uint8' },
+          { name: 'rolloverChallengeId', type: 'string' },
+          { name: 'unclaimedAmount', type: 'uint256' },
+          { name: 'creators', type: 'address[]' },
+          { name: 'creatorFees', type: 'uint256[]' },
+          { name: 'platformFee', type: 'uint256' },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'finalizeSettlement',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'challengeId', type: 'string' }],
+    outputs: [],
+  },
+  {
+    name: 'finalizeSettlements',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'challengeIds', type: 'string[]' }],
+    outputs: [{ name: 'finalized', type: 'bool[]' }],
+  },
+  {
+    name: 'SettlementBatchItemFailed',
+    type: 'event',
+    inputs: [
+      { name: 'challengeId', type: 'string', indexed: true },
+      { name: 'reason', type: 'bytes', indexed: false },
+    ],
+  },
+  { name: 'NoPendingSettlement', type: 'error', inputs: [] },
+  { name: 'DisputeWindowOpen', type: 'error', inputs: [] },
+  { name: 'InvalidSettlementData', type: 'error', inputs: [] },
+] as const;
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/** A settlement waiting out its dispute window */
+export interface PendingSettlement {
+  challengeId: string;
+  stateHash: Hex;
+  stateNonce: number;
+  payoutRoot: Hex;
+  totalPayout: bigint;
+  winnerReelId: string;
+  noWinnerPolicy: number;
+  rolloverChallengeId: string;
+  unclaimedAmount: bigint;
+  /** Creator fees paid on finalization, paired by index */
+  creators: Address[];
+  creatorFees: bigint[];
+  platformFee: bigint;
+  /** Hash of the settlement message the clearnode signed */
+  messageHash: Hex;
+  /** Unix ms when the window closes */
+  disputeDeadline: number;
+}
+
+/** A session state co-signed by the clearnode */
+export interface SignedState {
+  challengeId: string;
+  stateHash: Hex;
+  nonce: number;
+  signature: Hex;
+}
+
+export type DisputeEvidence =
+  | { kind: 'later-state'; state: SignedState }
+  | { kind: 'fraud-proof'; settlement: SettlementSubmission };
+
+export interface FinalizeManyResult {
+  hash: Hex;
+  finalized: string[];
+  /** Challenges the contract skipped, with the revert reason */
+  failed: { challengeId: string; error: string }[];
+}
+
+/** How a pending settlement compares with the participant's own session */
+export interface PendingSettlementReview {
+  /** The local state is newer than the one proposed */
+  stale: boolean;
+  /** Same nonce as the proposal but a different hash */
+  conflicting: boolean;
+  localNonce: number;
+  localStateHash: string;
+  reasons: string[];
+  /** The session's Clearnode-signed state, when it outdates the proposal */
+  evidence: DisputeEvidence | null;
+}
+
+// ────────────────────────────────────────────────
+// Evidence helpers
+// ────────────────────────────────────────────────
+
+/** Message the clearnode signs for every state it accepts. */
+export function stateCommitmentHash(challengeId: string, stateHash: Hex, nonce: number): Hex {
+  return keccak256(encodePacked(['string', 'bytes32', 'uint64'], [challengeId, stateHash, BigInt(nonce)]));
+}
+
+/** Whether a signed state really carries `clearnode`'s signature. */
+export async function verifySignedState(state: SignedState, clearnode: Address): Promise<boolean> {
+  try {
+    const recovered = await recoverMessageAddress({
+      message: { raw: stateCommitmentHash(state.challengeId, state.stateHash, state.nonce) },
+      signature: state.signature,
+    });
+    return isAddressEqual(recovered, clearnode);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse evidence pasted or uploaded by a participant: a SignedState
+ * (`nonce` + `signature`) or a conflicting SettlementSubmission
+ * (`signatures` + `payoutRoot`). Amounts may be decimal strings.
+ */
+export function parseDisputeEvidence(json: string): DisputeEvidence {
+  const data = JSON.parse(json);
+  if (data && typeof data.signature === 'string' && data.nonce !== undefined) {
+    return {
+      kind: 'later-state',
+      state: { challengeId: data.challengeId, stateHash: data.stateHash, nonce: Number(data.nonce), signature: data.signature },
+    };
+  }
+  if (data && Array.isArray(data.signatures) && typeof data.payoutRoot === 'string') {
+    return {
+      kind: 'fraud-proof',
+      settlement: {
+        stateHash: data.stateHash,
+        stateNonce: Number(data.stateNonce),
+        signatures: data.signatures,
+        winnerReelId: data.winnerReelId,
+        payoutRoot: data.payoutRoot,
+        totalPayout: BigInt(data.totalPayout),
+        noWinnerPolicy: Number(data.noWinnerPolicy),
+        rolloverChallengeId: data.rolloverChallengeId ?? '',
+        unclaimedAmount: BigInt(data.unclaimedAmount ?? 0),
+        creators: data.creators ?? [],
+        creatorFees: (data.creatorFees ?? []).map((fee: string | number) => BigInt(fee)),
+        platformFee: BigInt(data.platformFee ?? 0),
+      },
+    };
+  }
+  throw new Error('Evidence must be a signed state or a conflicting settlement');
+}
+
+// ────────────────────────────────────────────────
+// Service
+// ────────────────────────────────────────────────
+
+export class DisputeService {
+  private contractAddress: Address;
+  private publicClient: PublicClient;
+  private walletClient?: WalletClient;
+
+  constructor(contractAddress: Address, publicClient: PublicClient, walletClient?: WalletClient) {
+    this.contractAddress = contractAddress;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /** The settlement awaiting finalization, or null if none is pending */
+  async getPendingSettlement(challengeId: string): Promise<PendingSettlement | null> {
+    const p = await this.publicClient.readContract({
+      address: this.contractAddress,
+      abi: DISPUTE_ABI,
+      functionName: 'getPendingSettlement',
+      args: [challengeId],
+    });
+    if (p.disputeDeadline === 0n) return null;
+
+    return {
+      challengeId,
+      stateHash: p.stateHash,
+      stateNonce: Number(p.stateNonce),
+      payoutRoot: p.payoutRoot,
+      totalPayout: p.totalPayout,
+      winnerReelId: p.winnerReelId,
+      noWinnerPolicy: p.noWinnerPolicy,
+      rolloverChallengeId: p.rolloverChallengeId,
+      unclaimedAmount: p.unclaimedAmount,
+      creators: [...p.creators],
+      creatorFees: [...p.creatorFees],
+      platformFee: p.platformFee,
+      messageHash: p.messageHash,
+      disputeDeadline: Number(p.disputeDeadline) * 1000,
+    };
+  }
+
+  /** Length of the dispute window in ms */
+  async getDisputeWindow(): Promise<number> {
+    const seconds = await this.publicClient.readContract({
+      address: this.contractAddress,
+      abi: DISPUTE_ABI,
+      functionName: 'disputeWindow',
+    });
+    return Number(seconds) * 1000;
+  }
+
+  isDisputeWindowOpen(pending: PendingSettlement, now: number = Date.now()): boolean {
+    return now < pending.disputeDeadline;
+  }
+
+  /**
+   * Compare a pending settlement with the participant's own final state.
+   * A newer local state means the proposal is stale; the participant
+   * contests it with the clearnode's signature on that state — the
+   * session's latest `commitment`, if it is newer than the proposal.
+   */
+  reviewPendingSettlement(
+    pending: PendingSettlement,
+    state: SessionState,
+    sessionId: string,
+    commitment?: SignedState | null,
+  ): PendingSettlementReview {
+    const localStateHash = hashSessionState(state, sessionId);
+    const stale = state.nonce > pending.stateNonce;
+    const conflicting = state.nonce === pending.stateNonce && localStateHash !== pending.stateHash;
+    const reasons: string[] = [];
+    if (stale) reasons.push(`Your session is at nonce ${state.nonce}; the proposal settles nonce ${pending.stateNonce}`);
+    if (conflicting) reasons.push(`Your state at nonce ${state.nonce} hashes to ${localStateHash}, not ${pending.stateHash}`);
+
+    const evidence: DisputeEvidence | null = commitment && commitment.challengeId === pending.challengeId && commitment.nonce > pending.stateNonce
+      ? { kind: 'later-state', state: commitment }
+      : null;
+    if (stale && !evidence) reasons.push('The Clearnode has not signed a state newer than the proposal — paste evidence to contest it');
+    return { stale, conflicting, localNonce: state.nonce, localStateHash, reasons, evidence };
+  }
+
+  /** Submit evidence against the pending settlement. Returns the tx hash. */
+  async dispute(challengeId: string, evidence: DisputeEvidence): Promise<Hex> {
+    const wallet = this.requireWallet();
+
+    const hash = evidence.kind === 'later-state'
+      ? await wallet.writeContract({
+          address: this.contractAddress,
+          abi: DISPUTE_ABI,
+          functionName: 'disputeWithLaterState',
+          args: [challengeId, evidence.state.stateHash, BigInt(evidence.state.nonce), evidence.state.signature],
+          account: wallet.account!,
+          chain: wallet.chain,
+        })
+      : await wallet.writeContract({
+          address: this.contractAddress,
+          abi: DISPUTE_ABI,
+          functionName: 'disputeWithFraudProof',
+          args: [challengeId, { ...evidence.settlement, stateNonce: BigInt(evidence.settlement.stateNonce) }],
+          account: wallet.account!,
+          chain: wallet.chain,
+        });
+
+    await this.publicClient.waitForTransactionReceipt({ hash });
+    console.log(`⚖️ Settlement for ${challengeId} disputed (${evidence.kind})`);
+    return hash;
+  }
+
+  /** Finalize a pending settlement whose window has closed. Returns the tx hash. */
+  async finalizeSettlement(challengeId: string): Promise<Hex> {
+    const wallet = this.requireWallet();
+    const pending = await this.getPendingSettlement(challengeId);
+    if (!pending) throw new Error(`No pending settlement for ${challengeId}`);
+    if (this.isDisputeWindowOpen(pending)) {
+      throw new Error(`Dispute window for ${challengeId} is open until ${new Date(pending.disputeDeadline).toISOString()}`);
+    }
+
+    const hash = await wallet.writeContract({
+      address: this.contractAddress,
+      abi: DISPUTE_ABI,
+      functionName: 'finalizeSettlement',
+      args: [challengeId],
+      account: wallet.account!,
+      chain: wallet.chain,
+    });
+    await this.publicClient.waitForTransactionReceipt({ hash });
+    console.log(`✅ Settlement finalized for ${challengeId}`);
+    return hash;
+  }
+
+  /**
+   * Finalize several settlements in one `finalizeSettlements` transaction.
+   * Challenges still in their window (or not pending) are skipped by the
+   * contract without failing the rest.
+   */
+  async finalizeSettlements(challengeIds: string[]): Promise<FinalizeManyResult> {
+    const wallet = this.requireWallet();
+    const hash = await wallet.writeContract({
+      address: this.contractAddress,
+      abi: DISPUTE_ABI,
+      functionName: 'finalizeSettlements',
+      args: [challengeIds],
+      account: wallet.account!,
+      chain: wallet.chain,
+    });
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+
+    // `string indexed challengeId` is logged as its keccak256
+    const rejections = new Map<Hex, string>();
+    const events = parseEventLogs({ abi: DISPUTE_ABI, eventName: 'SettlementBatchItemFailed', logs: receipt.logs });
+    for (const event of events) {
+      if (!isAddressEqual(event.address, this.contractAddress)) continue;
+      rejections.set(event.args.challengeId as Hex, describeRevert(event.args.reason));
+    }
+
+    const failed = challengeIds
+      .filter((id) => rejections.has(keccak256(toHex(id))))
+      .map((id) => ({ challengeId: id, error: rejections.get(keccak256(toHex(id)))! }));
+    const finalized = challengeIds.filter((id) => !rejections.has(keccak256(toHex(id))));
+    console.log(`✅ Finalized ${finalized.length} settlement(s), ${failed.length} skipped`);
+    return { hash, finalized, failed };
+  }
+
+  private requireWallet(): WalletClient {
+    if (!this.walletClient?.account) throw new Error('Wallet client required for disputes');
+    return this.walletClient;
+  }
+}
+
+/** Custom error name for revert data, or the raw data if it isn't one of ours */
+function describeRevert(data: Hex): string {
+  try {
+    return decodeErrorResult({ abi: DISPUTE_ABI, data }).errorName;
+  } catch {
+    return data;
+  }
+}
+
+// Singleton instance
+let disputeServiceInstance: DisputeService | null = null;
+
+export function initializeDisputeService(
+  contractAddress: Address,
+  publicClient: PublicClient,
+  walletClient?: WalletClient,
+): DisputeService {
+  disputeServiceInstance = new DisputeService(contractAddress, publicClient, walletClient);
+  return disputeServiceInstance;
+}
+
+export function getDisputeService(): DisputeService {
+  if (!disputeServiceInstance) {
+    throw new Error('Dispute service not initialized');
+  }
+  return disputeServiceInstance;
+}
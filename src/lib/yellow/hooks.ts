@@ -3,24 +3,29 @@
  * Based on official Yellow Network documentation: https://docs.yellow.org/docs/learn/
  *
  * Flow:
- *   1. useYellowSession     → create app session (connects lazily on first use)
+ *   1. useYellowSession     → create a challenge's app session (connects lazily on first use)
+ *      useYellowSessions    → every session, one per challenge
  *   2. usePredictions       → instant, gasless predictions off-chain
  *   3. useVoting            → instant, gasless votes off-chain
  *   4. useSettlement        → finalise on-chain when session ends
+ *   5. useSettlementDispute → watch / contest / finalize a proposed settlement
+ *   6. useClaimWinnings     → claim a settled payout with its Merkle proof
+ *   useSessionKeyVault      → secure / unlock / lock the session key that signs all of the above
  *
  * ARCHITECTURE NOTE:
- * Session state is held in MODULE-LEVEL singletons so that every component
- * calling the same hook sees the *same* session / state / predictions.
- * React components subscribe via a tiny pub-sub (_sessionListeners) and
- * re-render when the shared state changes.
+ * Sessions live on the MODULE-LEVEL client singleton, keyed by challenge,
+ * so every component asking for the same challenge sees the *same*
+ * session / state / predictions. React components subscribe via a tiny
+ * pub-sub (_sessionListeners) and re-render when any session changes.
  *
  * IMPORTANT: The Yellow client is created LAZILY — only when the user
  * explicitly starts a session (clicks "Start Session"). This prevents
  * unwanted MetaMask popups on page load.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { useWalletClient, usePublicClient, useChainId } from 'wagmi';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAccount, useWalletClient, usePublicClient, useChainId } from 'wagmi';
+import type { Address } from 'viem';
 import {
   YellowNitroliteClient,
   initializeYellowClient,
@@ -31,9 +36,20 @@ import {
   type VoteState,
   type YellowConfig,
 } from './nitrolite-client';
+import { HttpTimestampAuthority } from './timestamp-authority';
+import type { VaultStatus, VaultUnlockMethod } from './session-key-vault';
+import { getSettlementServiceSafe } from './settlement';
+import { getPayoutClaim, parsePayoutTree, type PayoutClaim, type PayoutTree } from './payout-tree';
+import {
+  DisputeService,
+  parseDisputeEvidence,
+  type PendingSettlement,
+  type PendingSettlementReview,
+} from './dispute-service';
+import type { StakeLimits } from '../payout-algorithm';
 
 // ── Connection status ────────────────────────────
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'reconnecting' | 'connected' | 'error';
 
 // ════════════════════════════════════════════════════
 // MODULE-LEVEL SHARED STATE
@@ -41,23 +57,17 @@ export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'er
 // ════════════════════════════════════════════════════
 
 let _sharedClient: YellowNitroliteClient | null = null;
-let _sharedSession: AppSession | null = null;
-let _sharedState: SessionState | null = null;
 let _connectionStatus: ConnectionStatus = 'disconnected';
 const _sessionListeners = new Set<() => void>();
 
+/** Whether persisted sessions have been loaded into the client yet. */
+let _sessionsRestored = false;
+
 /** Notify every mounted hook to re-render. */
 function _notifySessionListeners() {
   _sessionListeners.forEach((fn) => fn());
 }
 
-/** Set session + state and broadcast to all listeners. */
-function _setSharedSession(session: AppSession | null, state: SessionState | null) {
-  _sharedSession = session;
-  _sharedState = state;
-  _notifySessionListeners();
-}
-
 /** Whether we've already wired global event handlers to the client singleton. */
 let _clientEventsWired = false;
 
@@ -67,27 +77,22 @@ function _wireClientEvents(client: YellowNitroliteClient) {
   if (_clientEventsWired) return;
   _clientEventsWired = true;
 
-  client.on('sessionCreated', (s: AppSession) => {
-    _setSharedSession(s, s.state);
-  });
-
-  client.on('stateUpdate', (updatedState: SessionState) => {
-    if (_sharedSession) {
-      const updated: AppSession = {
-        ..._sharedSession,
-        state: updatedState,
-        availableBalance: updatedState.balance - updatedState.lockedAmount,
-      };
-      _setSharedSession(updated, updatedState);
-    }
-  });
-
+  // Sessions are read straight from the client, so every change is just a re-render
+  client.on('sessionCreated', () => _notifySessionListeners());
+  client.on('stateUpdate', () => _notifySessionListeners());
   client.on('predictionMade', () => _notifySessionListeners());
   client.on('predictionUpdated', () => _notifySessionListeners());
   client.on('predictionCancelled', () => _notifySessionListeners());
   client.on('voteCast', () => _notifySessionListeners());
   client.on('settlementReady', () => _notifySessionListeners());
 
+  // Locking the session key changes what every hook can do
+  const vault = client.getVault();
+  vault.on('locked', () => _notifySessionListeners());
+  vault.on('unlocked', () => _notifySessionListeners());
+  vault.on('secured', () => _notifySessionListeners());
+  vault.on('destroyed', () => _notifySessionListeners());
+
   client.on('connected', () => {
     _connectionStatus = 'connected';
     _notifySessionListeners();
@@ -96,6 +101,14 @@ function _wireClientEvents(client: YellowNitroliteClient) {
     _connectionStatus = 'disconnected';
     _notifySessionListeners();
   });
+  client.on('reconnecting', () => {
+    _connectionStatus = 'reconnecting';
+    _notifySessionListeners();
+  });
+  client.on('reconnectFailed', () => {
+    _connectionStatus = 'error';
+    _notifySessionListeners();
+  });
   client.on('error', () => {
     _connectionStatus = 'error';
     _notifySessionListeners();
@@ -117,6 +130,9 @@ function buildConfig(walletClient: any, publicClient: any, chainId: number): Yel
     chainId,
     publicClient: publicClient ?? undefined,
     walletClient: walletClient ?? undefined,
+    timestampAuthority: process.env.NEXT_PUBLIC_TIMESTAMP_AUTHORITY_URL
+      ? new HttpTimestampAuthority(process.env.NEXT_PUBLIC_TIMESTAMP_AUTHORITY_URL)
+      : undefined,
   };
 }
 
@@ -176,52 +192,27 @@ async function connectClient(client: YellowNitroliteClient): Promise<void> {
 // ════════════════════════════════════════════════════
 
 /**
- * Manage a Yellow Network App Session.
- *
- * Session state is MODULE-LEVEL so every component that calls this hook
- * sees the same session. When `openSession()` is called from the deposit
- * modal, the challenge page (and every other consumer) re-renders with
- * the updated session.
- *
- * LAZY: The client is only created and connected when openSession() is called.
- * No MetaMask popups on page load.
+ * Re-render on any session change, and load persisted sessions into the
+ * client the first time any session hook mounts.
  */
-export function useYellowSession() {
+function useSharedSessions() {
   const { data: walletClient } = useWalletClient();
   const publicClient = usePublicClient();
   const chainId = useChainId();
 
-  // Force re-render when shared state changes
   const [, rerender] = useState(0);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-
-  // Subscribe to shared state changes + restore session from localStorage
   useEffect(() => {
     const listener = () => rerender((n) => n + 1);
     _sessionListeners.add(listener);
 
-    // On mount, try to restore session from localStorage
-    if (!_sharedSession) {
-      // If client exists, check its in-memory session first
-      if (_sharedClient) {
-        const existing = _sharedClient.getSession();
-        if (existing) {
-          _setSharedSession(existing, existing.state);
-        }
-      }
-
-      // If still no session, try restoring from localStorage
-      if (!_sharedSession) {
-        try {
-          const client = getOrCreateClient(walletClient, publicClient, chainId);
-          const restored = client.restoreSession();
-          if (restored) {
-            _setSharedSession(restored, restored.state);
-          }
-        } catch {
-          // Client creation might fail without wallet — that's OK
-        }
+    if (!_sessionsRestored) {
+      try {
+        const client = getOrCreateClient(walletClient, publicClient, chainId);
+        _sessionsRestored = true;
+        client.restoreSessions();
+        _notifySessionListeners();
+      } catch {
+        // Client creation might fail without wallet — that's OK
       }
     }
 
@@ -231,7 +222,26 @@ export function useYellowSession() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const openSession = useCallback(async (depositAmount: bigint, challengeId: string) => {
+  return { walletClient, publicClient, chainId };
+}
+
+/**
+ * Manage the Yellow Network App Session for one challenge.
+ *
+ * Sessions live on the MODULE-LEVEL client, so every component that calls
+ * this hook with the same challenge sees the same session. When
+ * `openSession()` is called from the deposit modal, the challenge page
+ * (and every other consumer) re-renders with the new session.
+ *
+ * LAZY: The client is only connected when openSession() is called.
+ * No MetaMask popups on page load.
+ */
+export function useYellowSession(challengeId: string) {
+  const { walletClient, publicClient, chainId } = useSharedSessions();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const openSession = useCallback(async (depositAmount: bigint) => {
     setIsLoading(true);
     setError(null);
     try {
@@ -248,25 +258,30 @@ export function useYellowSession() {
       // Step 3: Connect to clearnode and authenticate (zero MetaMask popups)
       await connectClient(client);
 
-      // Step 4: Create app session (works in both live and local mode)
-      const newSession = await client.createAppSession(depositAmount, challengeId);
-      _setSharedSession(newSession, newSession.state);
-      return newSession;
+      // Step 4: Create this challenge's app session (works in both live and local mode)
+      return await client.createAppSession(depositAmount, challengeId);
     } catch (err) {
       setError(err as Error);
       throw err;
     } finally {
       setIsLoading(false);
     }
-  }, [walletClient, publicClient, chainId]);
+  }, [walletClient, publicClient, chainId, challengeId]);
 
-  const session = _sharedSession;
-  const state = _sharedState;
+  /** Signed state history of this challenge's session as JSON (null without a session) */
+  const exportHistory = useCallback((): string | null => {
+    if (!_sharedClient?.getSession(challengeId)) return null;
+    return _sharedClient.exportStateHistory(challengeId);
+  }, [challengeId]);
+
+  const session = _sharedClient?.getSession(challengeId) ?? null;
+  const state = session?.state ?? null;
 
   return {
     session,
     state,
     openSession,
+    exportHistory,
     isLoading,
     error,
     connectionStatus: _connectionStatus,
@@ -275,6 +290,88 @@ export function useYellowSession() {
   };
 }
 
+/**
+ * Every session the client knows about, one per challenge, oldest first.
+ * `openSessions` are the ones still taking predictions.
+ */
+export function useYellowSessions() {
+  useSharedSessions();
+
+  const sessions: AppSession[] = _sharedClient?.getSessions() ?? [];
+  const now = Date.now();
+  const openSessions = sessions.filter((s) => s.status === 'active' && s.expiresAt > now);
+
+  return {
+    sessions,
+    openSessions,
+    totalAvailable: openSessions.reduce((sum, s) => sum + s.availableBalance, 0n),
+    totalLocked: openSessions.reduce((sum, s) => sum + s.state.lockedAmount, 0n),
+  };
+}
+
+// ════════════════════════════════════════════════════
+// useSessionKeyVault
+// ════════════════════════════════════════════════════
+
+/**
+ * Lock state of the encrypted session key, and the actions to secure it
+ * with a passphrase or passkey, unlock it and lock it. Pointer and key
+ * activity on the page pushes back the vault's auto-lock.
+ */
+export function useSessionKeyVault() {
+  const { walletClient, publicClient, chainId } = useSharedSessions();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const touch = () => _sharedClient?.getVault().touch();
+    window.addEventListener('pointerdown', touch);
+    window.addEventListener('keydown', touch);
+    return () => {
+      window.removeEventListener('pointerdown', touch);
+      window.removeEventListener('keydown', touch);
+    };
+  }, []);
+
+  const withVault = useCallback(async (action: 'secure' | 'unlock', method: VaultUnlockMethod) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const vault = getOrCreateClient(walletClient, publicClient, chainId).getVault();
+      await vault[action](method);
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [walletClient, publicClient, chainId]);
+
+  /** Encrypt and persist the key (or re-encrypt it under a new secret) */
+  const secure = useCallback((method: VaultUnlockMethod) => withVault('secure', method), [withVault]);
+  const unlock = useCallback((method: VaultUnlockMethod) => withVault('unlock', method), [withVault]);
+  const lock = useCallback(() => _sharedClient?.getVault().lock(), []);
+  /** Replace a key that was locked before it was ever secured */
+  const create = useCallback(() => getOrCreateClient(walletClient, publicClient, chainId).createSessionKey(), [walletClient, publicClient, chainId]);
+
+  const vault = _sharedClient?.getVault();
+  const status: VaultStatus = vault?.status() ?? 'empty';
+
+  return {
+    status,
+    address: vault?.address ?? null,
+    /** False while the key only lives in memory — it is lost on reload until secured */
+    isPersisted: vault?.isPersisted() ?? false,
+    unlockKind: vault?.unlockKind() ?? null,
+    secure,
+    unlock,
+    lock,
+    create,
+    isLoading,
+    error,
+  };
+}
+
 // ════════════════════════════════════════════════════
 // usePredictions
 // ════════════════════════════════════════════════════
@@ -294,20 +391,28 @@ export function usePredictions(challengeId?: string) {
     return () => { _sessionListeners.delete(listener); };
   }, []);
 
-  // Derive predictions from the shared client state
+  // Derive predictions from the shared client state (every session without a challenge)
   const predictions: PredictionState[] = (() => {
     if (!_sharedClient) return [];
     if (challengeId) return _sharedClient.getPredictionsForChallenge(challengeId);
-    const s = _sharedClient.getState();
-    return s ? Array.from(s.predictions.values()) : [];
+    return _sharedClient.getSessions().flatMap((s) => Array.from(s.state.predictions.values()));
   })();
 
-  const makePrediction = useCallback(async (targetChallengeId: string, reelId: string, amount: bigint) => {
+  const makePrediction = useCallback(async (
+    targetChallengeId: string,
+    reelId: string,
+    amount: bigint,
+    predictor?: string,
+    limits?: StakeLimits,
+    poolTotal?: bigint,
+  ) => {
     setIsLoading(true);
     setError(null);
     try {
       if (!_sharedClient) throw new Error('No Yellow client — open a session first');
-      return await _sharedClient.makePrediction(targetChallengeId, reelId, amount);
+      if (limits) _sharedClient.setStakeLimits(targetChallengeId, limits);
+      if (poolTotal !== undefined) _sharedClient.setPoolTotal(targetChallengeId, poolTotal);
+      return await _sharedClient.makePrediction(targetChallengeId, reelId, amount, predictor);
     } catch (err) {
       setError(err as Error);
       throw err;
@@ -359,7 +464,7 @@ export function usePredictions(challengeId?: string) {
 /**
  * Cast instant, gasless votes via the off-chain App Session.
  */
-export function useVoting() {
+export function useVoting(challengeId?: string) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
@@ -372,8 +477,10 @@ export function useVoting() {
 
   const votes: VoteState[] = (() => {
     if (!_sharedClient) return [];
-    const s = _sharedClient.getState();
-    return s ? Array.from(s.votes.values()) : [];
+    const sessions = challengeId
+      ? [_sharedClient.getSession(challengeId)].filter((s): s is AppSession => !!s)
+      : _sharedClient.getSessions();
+    return sessions.flatMap((s) => Array.from(s.state.votes.values()));
   })();
 
   const castVote = useCallback(async (challengeId: string, reelId: string) => {
@@ -445,3 +552,194 @@ export function useSettlement() {
 
   return { settlementData, requestSettlement, isSettling, isSettled, error };
 }
+
+// ════════════════════════════════════════════════════
+// useSettlementDispute
+// ════════════════════════════════════════════════════
+
+/**
+ * A challenge's proposed settlement while its dispute window runs:
+ * how it compares with this session's state, contesting it with the
+ * session's Clearnode-signed state or pasted evidence, and finalizing
+ * once the window has closed.
+ */
+export function useSettlementDispute(challengeId: string) {
+  const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient();
+  const contractAddress = process.env.NEXT_PUBLIC_PREDICTION_MARKET_ADDRESS as Address | undefined;
+
+  const [pending, setPending] = useState<PendingSettlement | null>(null);
+  const [review, setReview] = useState<PendingSettlementReview | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const service = useMemo(
+    () => (contractAddress && publicClient ? new DisputeService(contractAddress, publicClient, walletClient ?? undefined) : null),
+    [contractAddress, publicClient, walletClient],
+  );
+
+  const refresh = useCallback(async () => {
+    if (!service) return;
+    try {
+      const next = await service.getPendingSettlement(challengeId);
+      const session = _sharedClient?.getSession(challengeId);
+      setPending(next);
+      setReview(next && session ? service.reviewPendingSettlement(next, session.state, session.sessionId, session.stateCommitment) : null);
+    } catch (err) {
+      setError(err as Error);
+    }
+  }, [service, challengeId]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = useCallback(async (action: (s: DisputeService) => Promise<unknown>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (!service) throw new Error('NEXT_PUBLIC_PREDICTION_MARKET_ADDRESS is not set');
+      await action(service);
+      await refresh();
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [service, refresh]);
+
+  /**
+   * Contest with evidence JSON (a signed later state or a conflicting
+   * settlement), or without it, with the session's own signed state
+   */
+  const contest = useCallback(
+    (evidenceJson?: string) => run((s) => {
+      const evidence = evidenceJson?.trim() ? parseDisputeEvidence(evidenceJson) : review?.evidence;
+      if (!evidence) throw new Error('No Clearnode-signed state newer than the proposal — paste evidence to contest it');
+      return s.dispute(challengeId, evidence);
+    }),
+    [run, challengeId, review],
+  );
+  const finalize = useCallback(() => run((s) => s.finalizeSettlement(challengeId)), [run, challengeId]);
+
+  return { pending, review, contest, finalize, refresh, isSubmitting, error };
+}
+
+// ════════════════════════════════════════════════════
+// useClaimWinnings
+// ════════════════════════════════════════════════════
+
+const CLAIM_ABI = [
+  {
+    name: 'claim',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'challengeId', type: 'string' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'proof', type: 'bytes32[]' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'hasClaimed',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'challengeId', type: 'string' },
+      { name: 'account', type: 'address' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
+] as const;
+
+/**
+ * Load the payout tree for a settled challenge: from the in-process
+ * settlement service if it settled this challenge, otherwise from
+ * NEXT_PUBLIC_PAYOUT_PROOFS_URL/<challengeId>.json.
+ */
+async function loadPayoutTree(challengeId: string): Promise<PayoutTree | null> {
+  const local = getSettlementServiceSafe()?.getPayoutTree(challengeId);
+  if (local) return local;
+
+  const base = process.env.NEXT_PUBLIC_PAYOUT_PROOFS_URL;
+  if (!base) return null;
+  const res = await fetch(`${base.replace(/\/$/, '')}/${encodeURIComponent(challengeId)}.json`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Payout proofs responded ${res.status}`);
+  return parsePayoutTree(await res.text());
+}
+
+/**
+ * The connected wallet's payout for a settled challenge, and a one-click
+ * `claim()` against ReelPredict. `claim` is null when there's nothing to
+ * claim (not settled yet, or no winnings).
+ */
+export function useClaimWinnings(challengeId: string) {
+  const { address } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient();
+  const contractAddress = process.env.NEXT_PUBLIC_PREDICTION_MARKET_ADDRESS as Address | undefined;
+
+  const [claim, setClaim] = useState<PayoutClaim | null>(null);
+  const [hasClaimed, setHasClaimed] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!address) { setClaim(null); return; }
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const tree = await loadPayoutTree(challengeId);
+        const found = tree ? getPayoutClaim(tree, address) ?? null : null;
+        let claimed = false;
+        if (found && publicClient && contractAddress) {
+          claimed = await publicClient.readContract({
+            address: contractAddress,
+            abi: CLAIM_ABI,
+            functionName: 'hasClaimed',
+            args: [challengeId, address],
+          });
+        }
+        if (cancelled) return;
+        setClaim(found);
+        setHasClaimed(claimed);
+      } catch (err) {
+        if (!cancelled) setError(err as Error);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [challengeId, address, publicClient, contractAddress]);
+
+  const claimWinnings = useCallback(async () => {
+    if (!claim) throw new Error('Nothing to claim');
+    setIsClaiming(true);
+    setError(null);
+    try {
+      if (!walletClient || !publicClient) throw new Error('Connect a wallet to claim');
+      if (!contractAddress) throw new Error('NEXT_PUBLIC_PREDICTION_MARKET_ADDRESS is not set');
+
+      const hash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: CLAIM_ABI,
+        functionName: 'claim',
+        args: [challengeId, claim.amount, claim.proof],
+        account: walletClient.account,
+        chain: walletClient.chain,
+      });
+      await publicClient.waitForTransactionReceipt({ hash });
+      console.log(`💰 Claimed ${claim.amount} from ${challengeId}`);
+      setHasClaimed(true);
+      return hash;
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    } finally {
+      setIsClaiming(false);
+    }
+  }, [claim, walletClient, publicClient, contractAddress, challengeId]);
+
+  return { claim, hasClaimed, claimWinnings, isClaiming, error };
+}
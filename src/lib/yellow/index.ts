@@ -13,8 +13,41 @@
 // Core Yellow client (wraps real @erc7824/nitrolite SDK)
 export * from './nitrolite-client';
 
+// Typed Clearnode RPC (requestId correlation + push subscriptions)
+export * from './rpc';
+
+// Encrypted session-key storage
+export * from './session-key-vault';
+
+// Durable outbound queue (predict / vote replay)
+export * from './outbound-queue';
+
 // React hooks
 export * from './hooks';
 
 // Settlement service
 export * from './settlement';
+
+// Timestamp authority (signed bid times)
+export * from './timestamp-authority';
+
+// Winner resolution strategies
+export * from './winner-resolver';
+
+// Canonical state encoding + stateHash
+export * from './state-encoding';
+
+// Signed append-only state history
+export * from './state-history';
+
+// Offline settlement verification
+export * from './settlement-verifier';
+
+// Merkle payout tree (claim-based settlement)
+export * from './payout-tree';
+
+// Dispute window (two-phase settlement)
+export * from './dispute-service';
+
+// Settlement job queue
+export * from './settlement-queue';
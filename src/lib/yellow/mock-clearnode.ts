@@ -0,0 +1,636 @@
+/**
+ * Mock Clearnode — a local NitroRPC WebSocket server (Node only)
+ *
+ * Lets the client's live code paths run offline: point
+ * NEXT_PUBLIC_YELLOW_CLEARNODE_URL at it (`npm run clearnode:mock`) or
+ * start one in-process from a script.
+ *
+ * Speaks the subset of NitroRPC the client uses:
+ *
+ *   auth_request → auth_challenge   challenge UUID for the session key
+ *   auth_verify                     EIP-712 Policy signature (or raw ECDSA fallback)
+ *   get_config                      broker address + one network
+ *   get_ledger_balances             the account's ledger
+ *   create_app_session              moves the allocations out of the ledger
+ *   message                         records predict / update / cancel / vote payloads (repeats by
+ *                                   nonce are ignored) and signs each one's state commitment;
+ *                                   countersigns a `settle` payload over the latest committed state
+ *   close_app_session               credits the final allocations back
+ *   ping → pong
+ *
+ * The same port serves the timestamp authority over HTTP: `POST /bid-time`
+ * with a TimestampClaim returns a TimestampAttestation signed by the
+ * authority key (see timestamp-authority.ts) — point
+ * NEXT_PUBLIC_TIMESTAMP_AUTHORITY_URL at `timestampUrl` and
+ * TIMESTAMP_AUTHORITY_ADDRESS at `timestampAuthorityAddress`.
+ *
+ * Every signed request must recover to the authenticated session key.
+ * Responses are signed with the broker key the same way the SDK signs
+ * requests (ECDSA over keccak256 of the JSON payload), and every ledger
+ * change is pushed as a `bu` balance update.
+ *
+ * Faults can be injected at start-up or at runtime with setFaults():
+ * dropped responses, delayed responses, dropped connections and failed auth.
+ *
+ * Not exported from the yellow index — it pulls in `ws` and must never end
+ * up in the browser bundle.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import type { Address, Hex } from 'viem';
+import { keccak256, recoverAddress, toHex, verifyTypedData, isAddressEqual, getAddress } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { createECDSAMessageSigner, EIP712AuthTypes, RPCChannelStatus, type MessageSigner, type RPCData } from '@erc7824/nitrolite';
+import { parseSettlementMessage, settlementMessageHash } from './settlement-verifier';
+import { stateCommitmentHash } from './dispute-service';
+import { LocalTimestampAuthority, type TimestampClaim } from './timestamp-authority';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export interface MockClearnodeFaults {
+  /** Probability (0–1) that a response is silently never sent */
+  dropRate?: number;
+  /** Probability (0–1) that the socket is closed instead of answering a request */
+  disconnectRate?: number;
+  /** Fixed delay, or a [min, max] range, before each response (ms) */
+  delayMs?: number | [number, number];
+  /** Answer every auth_verify with an error */
+  failAuth?: boolean;
+  /** Never answer requests for these methods */
+  dropMethods?: string[];
+}
+
+export interface MockClearnodeOptions {
+  /** Port to listen on (default 8765; 0 picks a free one) */
+  port?: number;
+  host?: string;
+  /** Broker key signing every response (default: random per run) */
+  brokerPrivateKey?: Hex;
+  /** Timestamp authority key signing bid times (default: random per run) */
+  timestampPrivateKey?: Hex;
+  /** Network reported by get_config */
+  chainId?: number;
+  custodyAddress?: Address;
+  adjudicatorAddress?: Address;
+  /** Asset new accounts are funded in (default 'USDC') */
+  asset?: string;
+  /** Balance credited to an account on its first login, like the sandbox faucet (default 1000 USDC in 6 decimals) */
+  initialBalance?: bigint;
+  faults?: MockClearnodeFaults;
+}
+
+export interface MockAppSession {
+  appSessionId: Hex;
+  owner: Address;
+  application: string;
+  participants: string[];
+  allocations: Array<{ participant: string; asset: string; amount: bigint }>;
+  status: RPCChannelStatus;
+  version: number;
+  /** Application message payloads in arrival order, repeats removed */
+  messages: any[];
+  /** Highest-nonce state a message committed to */
+  latestState?: { nonce: number; stateHash: Hex };
+}
+
+interface Connection {
+  id: number;
+  socket: WebSocket;
+  /** From auth_request, until auth_verify succeeds */
+  pendingAuth?: { address: Address; sessionKey: Address; scope: string; expiresAt: bigint; allowances: any[]; challenge: string };
+  account?: Address;
+  sessionKey?: Address;
+}
+
+type RequestPayload = [number, string, any, number];
+
+const DEFAULT_CUSTODY = '0x1111111111111111111111111111111111111111';
+const DEFAULT_ADJUDICATOR = '0x2222222222222222222222222222222222222222';
+
+// ────────────────────────────────────────────────
+// Server
+// ────────────────────────────────────────────────
+
+export class MockClearnode extends EventEmitter {
+  private options: Required<Omit<MockClearnodeOptions, 'faults' | 'brokerPrivateKey' | 'timestampPrivateKey'>>;
+  private faults: MockClearnodeFaults;
+  private http: Server | null = null;
+  private server: WebSocketServer | null = null;
+  private connections = new Set<Connection>();
+  private nextConnectionId = 1;
+
+  private brokerKey: Hex;
+  private brokerSigner: MessageSigner;
+  readonly brokerAddress: Address;
+  private timestampAuthority: LocalTimestampAuthority;
+
+  /** account → asset → balance */
+  private ledger = new Map<string, Map<string, bigint>>();
+  private appSessions = new Map<string, MockAppSession>();
+
+  constructor(options: MockClearnodeOptions = {}) {
+    super();
+    this.options = {
+      port: options.port ?? 8765,
+      host: options.host ?? '127.0.0.1',
+      chainId: options.chainId ?? 11155111,
+      custodyAddress: options.custodyAddress ?? DEFAULT_CUSTODY,
+      adjudicatorAddress: options.adjudicatorAddress ?? DEFAULT_ADJUDICATOR,
+      asset: options.asset ?? 'USDC',
+      initialBalance: options.initialBalance ?? 1_000_000_000n,
+    };
+    this.faults = { ...options.faults };
+    this.brokerKey = options.brokerPrivateKey ?? generatePrivateKey();
+    this.brokerSigner = createECDSAMessageSigner(this.brokerKey);
+    this.brokerAddress = privateKeyToAccount(this.brokerKey).address;
+    this.timestampAuthority = new LocalTimestampAuthority(options.timestampPrivateKey ?? generatePrivateKey());
+  }
+
+  // ── Lifecycle ────────────────────────────────
+
+  start(): Promise<void> {
+    if (this.server) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const http = createServer((req, res) => this.handleHttp(req, res));
+      const server = new WebSocketServer({ server: http });
+      http.once('listening', () => {
+        this.http = http;
+        this.server = server;
+        console.log(`🟡 Mock Clearnode listening on ${this.url} (broker ${this.brokerAddress})`);
+        console.log(`🕐 Bid times signed at ${this.timestampUrl} (authority ${this.timestampAuthorityAddress})`);
+        resolve();
+      });
+      http.once('error', reject);
+      server.on('connection', (socket) => this.accept(socket));
+      http.listen(this.options.port, this.options.host);
+    });
+  }
+
+  async stop(): Promise<void> {
+    const { http, server } = this;
+    if (!http || !server) return;
+    this.http = null;
+    this.server = null;
+    this.dropConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await new Promise<void>((resolve) => http.close(() => resolve()));
+  }
+
+  /** ws:// URL clients should connect to */
+  get url(): string {
+    return `ws://${this.options.host}:${this.port}`;
+  }
+
+  /** HTTP endpoint of the timestamp authority (HttpTimestampAuthority) */
+  get timestampUrl(): string {
+    return `http://${this.options.host}:${this.port}/bid-time`;
+  }
+
+  /** Key settlement should trust for bid times (SettleOptions.timestampSigner) */
+  get timestampAuthorityAddress(): Address {
+    return this.timestampAuthority.address;
+  }
+
+  private get port(): number {
+    const address = this.http?.address();
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  // ── Fault injection + inspection ─────────────
+
+  setFaults(faults: MockClearnodeFaults): void {
+    this.faults = { ...this.faults, ...faults };
+  }
+
+  clearFaults(): void {
+    this.faults = {};
+  }
+
+  /** Terminate every open socket (simulates a network drop) */
+  dropConnections(): void {
+    for (const conn of Array.from(this.connections)) conn.socket.terminate();
+  }
+
+  getBalance(account: string, asset: string = this.options.asset): bigint {
+    return this.ledger.get(account.toLowerCase())?.get(asset) ?? 0n;
+  }
+
+  /** Add funds to an account's ledger, as a deposit or the faucet would */
+  credit(account: string, amount: bigint, asset: string = this.options.asset): void {
+    this.adjust(account, asset, amount);
+    this.pushBalances(account);
+  }
+
+  getAppSession(appSessionId: string): MockAppSession | undefined {
+    return this.appSessions.get(appSessionId.toLowerCase());
+  }
+
+  listAppSessions(): MockAppSession[] {
+    return Array.from(this.appSessions.values());
+  }
+
+  // ── Connections ──────────────────────────────
+
+  private accept(socket: WebSocket): void {
+    const conn: Connection = { id: this.nextConnectionId++, socket };
+    this.connections.add(conn);
+    this.emit('connection', conn.id);
+
+    socket.on('message', (data) => {
+      this.handleMessage(conn, data.toString()).catch((err) => {
+        console.warn('Mock Clearnode handler failed:', err);
+      });
+    });
+    socket.on('close', () => {
+      this.connections.delete(conn);
+      this.emit('disconnection', conn.id);
+    });
+  }
+
+  private async handleMessage(conn: Connection, raw: string): Promise<void> {
+    let message: { req?: RequestPayload; sig?: Hex[]; sid?: string };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return this.sendError(conn, 0, 'invalid JSON');
+    }
+    if (!Array.isArray(message.req) || message.req.length !== 4) {
+      return this.sendError(conn, 0, 'invalid request format');
+    }
+
+    const [requestId, method, params] = message.req;
+    this.emit('request', { connectionId: conn.id, method, params, sid: message.sid });
+
+    if (this.faults.disconnectRate && Math.random() < this.faults.disconnectRate) {
+      conn.socket.terminate();
+      return;
+    }
+
+    try {
+      const result = await this.dispatch(conn, message.req, message.sig ?? [], message.sid);
+      await this.respond(conn, requestId, method, result.method, result.params);
+    } catch (err) {
+      await this.respond(conn, requestId, method, 'error', { error: (err as Error).message });
+    }
+  }
+
+  private async dispatch(
+    conn: Connection,
+    req: RequestPayload,
+    sig: Hex[],
+    sid?: string,
+  ): Promise<{ method: string; params: any }> {
+    const [, method, params] = req;
+
+    switch (method) {
+      case 'ping':
+        return { method: 'pong', params: {} };
+      case 'get_config':
+        return { method: 'get_config', params: this.configParams() };
+      case 'auth_request':
+        return this.handleAuthRequest(conn, params);
+      case 'auth_verify':
+        return this.handleAuthVerify(conn, req, sig);
+    }
+
+    // Everything else is signed by the authenticated session key
+    const account = await this.requireSigned(conn, req, sig);
+
+    switch (method) {
+      case 'get_ledger_balances':
+        return { method, params: { ledger_balances: this.balancesOf(account) } };
+      case 'create_app_session':
+        return this.handleCreateAppSession(account, params);
+      case 'message':
+        return this.handleAppMessage(account, sid, params);
+      case 'close_app_session':
+        return this.handleCloseAppSession(account, params);
+      default:
+        throw new Error(`unsupported method: ${method}`);
+    }
+  }
+
+  // ── Timestamp authority (HTTP) ───────────────
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    // The app runs on another origin in development
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'POST' || req.url !== '/bid-time') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      this.attestBidTime(body).then(
+        (attestation) => {
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(attestation));
+        },
+        (err) => {
+          res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: (err as Error).message }));
+        },
+      );
+    });
+  }
+
+  private async attestBidTime(body: string) {
+    const claim = JSON.parse(body) as TimestampClaim;
+    for (const field of ['predictionId', 'challengeId', 'reelId', 'predictor', 'amount'] as const) {
+      if (typeof claim?.[field] !== 'string' || !claim[field]) throw new Error(`invalid claim: ${field}`);
+    }
+    this.parseAmount(claim.amount);
+    const { predictionId, challengeId, reelId, predictor, amount } = claim;
+    const attestation = await this.timestampAuthority.attest({ predictionId, challengeId, reelId, predictor, amount });
+    this.emit('bidTimeAttested', attestation);
+    return attestation;
+  }
+
+  // ── Auth ─────────────────────────────────────
+
+  private handleAuthRequest(conn: Connection, params: any): { method: string; params: any } {
+    const address = getAddress(params?.address);
+    const sessionKey = getAddress(params?.session_key);
+    const challenge = randomUUID();
+    conn.pendingAuth = {
+      address,
+      sessionKey,
+      scope: params?.scope ?? '',
+      expiresAt: BigInt(params?.expires_at ?? 0),
+      allowances: params?.allowances ?? [],
+      challenge,
+    };
+    return { method: 'auth_challenge', params: { challenge_message: challenge } };
+  }
+
+  private async handleAuthVerify(conn: Connection, req: RequestPayload, sig: Hex[]): Promise<{ method: string; params: any }> {
+    const pending = conn.pendingAuth;
+    if (this.faults.failAuth) throw new Error('authentication failed (injected)');
+    if (!pending || req[2]?.challenge !== pending.challenge) throw new Error('invalid challenge');
+    if (!sig[0]) throw new Error('missing signature');
+
+    const viaPolicy = await verifyTypedData({
+      address: pending.address,
+      domain: { name: 'yellow.org' },
+      types: EIP712AuthTypes,
+      primaryType: 'Policy',
+      message: {
+        challenge: pending.challenge,
+        scope: pending.scope,
+        wallet: pending.address,
+        session_key: pending.sessionKey,
+        expires_at: pending.expiresAt,
+        allowances: pending.allowances,
+      },
+      signature: sig[0],
+    }).catch(() => false);
+    if (!viaPolicy) {
+      // Raw ECDSA fallback: the session key signs the request payload itself
+      const signer = await this.recoverSigner(req, sig[0]);
+      if (!signer || !isAddressEqual(signer, pending.sessionKey)) throw new Error('invalid signature');
+    }
+
+    conn.account = pending.address;
+    conn.sessionKey = pending.sessionKey;
+    conn.pendingAuth = undefined;
+
+    const key = pending.address.toLowerCase();
+    if (!this.ledger.has(key)) this.adjust(pending.address, this.options.asset, this.options.initialBalance);
+    console.log(`🔑 Mock Clearnode: ${pending.address} authenticated (${viaPolicy ? 'EIP-712' : 'ECDSA'})`);
+
+    return {
+      method: 'auth_verify',
+      params: { address: pending.address, session_key: pending.sessionKey, success: true, jwt_token: `mock.${randomUUID()}` },
+    };
+  }
+
+  private async requireSigned(conn: Connection, req: RequestPayload, sig: Hex[]): Promise<Address> {
+    if (!conn.account || !conn.sessionKey) throw new Error('authentication required');
+    const signer = sig[0] ? await this.recoverSigner(req, sig[0]) : null;
+    if (!signer || !isAddressEqual(signer, conn.sessionKey)) throw new Error('invalid signature');
+    return conn.account;
+  }
+
+  /** Inverse of the SDK's ECDSA signer: keccak256 of the JSON payload */
+  private async recoverSigner(req: RequestPayload, signature: Hex): Promise<Address | null> {
+    try {
+      return await recoverAddress({ hash: keccak256(toHex(JSON.stringify(req))), signature });
+    } catch {
+      return null;
+    }
+  }
+
+  // ── App sessions ─────────────────────────────
+
+  private handleCreateAppSession(account: Address, params: any): { method: string; params: any } {
+    const definition = params?.definition;
+    if (!definition || !Array.isArray(params?.allocations)) throw new Error('invalid create_app_session params');
+
+    const allocations = params.allocations.map((a: any) => ({
+      participant: a.participant,
+      asset: a.asset,
+      amount: this.parseAmount(a.amount),
+    }));
+    const needed = new Map<string, bigint>();
+    for (const a of allocations) needed.set(a.asset, (needed.get(a.asset) ?? 0n) + a.amount);
+    needed.forEach((amount, asset) => {
+      if (this.getBalance(account, asset) < amount) throw new Error(`insufficient funds: ${asset}`);
+    });
+    needed.forEach((amount, asset) => this.adjust(account, asset, -amount));
+
+    const appSessionId = keccak256(toHex(`${account}:${JSON.stringify(definition)}:${randomUUID()}`));
+    const session: MockAppSession = {
+      appSessionId,
+      owner: account,
+      application: definition.application ?? '',
+      participants: definition.participants ?? [],
+      allocations,
+      status: RPCChannelStatus.Open,
+      version: 1,
+      messages: [],
+    };
+    this.appSessions.set(appSessionId.toLowerCase(), session);
+    this.pushBalances(account);
+    this.emit('appSessionCreated', session);
+
+    return { method: 'create_app_session', params: { app_session_id: appSessionId, version: 1, status: session.status } };
+  }
+
+  private async handleAppMessage(account: Address, sid: string | undefined, params: any): Promise<{ method: string; params: any }> {
+    const session = sid ? this.getAppSession(sid) : undefined;
+    if (!session) throw new Error(`unknown app session: ${sid}`);
+    if (!isAddressEqual(session.owner, account)) throw new Error('not a participant');
+    if (session.status !== RPCChannelStatus.Open) throw new Error(`app session is ${session.status}`);
+
+    let settlementSignature: Hex | undefined;
+    let stateSignature: Hex | undefined;
+    for (const payload of Array.isArray(params) ? params : [params]) {
+      if (payload?.action === 'settle') {
+        settlementSignature = await this.countersignSettlement(session, payload);
+        continue;
+      }
+      // A replayed message carries the same action + nonce; it is signed
+      // again, since the first response may be what got lost
+      const isRepeat = payload?.nonce !== undefined && session.messages.some(
+        (m) => m.action === payload.action && m.nonce === payload.nonce,
+      );
+      if (!isRepeat) {
+        session.messages.push(payload);
+        session.version++;
+        if (payload?.stateHash && payload.nonce > (session.latestState?.nonce ?? -1)) {
+          session.latestState = { nonce: payload.nonce, stateHash: payload.stateHash };
+        }
+        this.emit('appMessage', { appSessionId: session.appSessionId, payload });
+      }
+      if (payload?.stateHash && payload.challengeId) stateSignature = await this.signStateCommitment(payload);
+    }
+
+    return {
+      method: 'message',
+      params: {
+        app_session_id: session.appSessionId,
+        version: session.version,
+        state_signature: stateSignature,
+        settlement_signature: settlementSignature,
+      },
+    };
+  }
+
+  /** Sign keccak256(challengeId, stateHash, nonce) the way ReelPredict's later-state dispute checks it */
+  private signStateCommitment(payload: { challengeId: string; stateHash: Hex; nonce: number }): Promise<Hex> {
+    const hash = stateCommitmentHash(payload.challengeId, payload.stateHash, payload.nonce);
+    return privateKeyToAccount(this.brokerKey).signMessage({ message: { raw: hash } });
+  }
+
+  /**
+   * Sign a settlement message the way ReelPredict checks it (EIP-191 over
+   * its hash) with the broker key. Refused unless it settles exactly the
+   * latest state committed to (or the empty state of a silent session).
+   */
+  private async countersignSettlement(session: MockAppSession, payload: any): Promise<Hex> {
+    const message = parseSettlementMessage(payload.message);
+    const latest = session.latestState;
+    if (!latest) {
+      if (message.stateNonce !== 0) throw new Error(`settlement is over state ${message.stateNonce}, but no state was committed`);
+    } else if (message.stateNonce !== latest.nonce || message.stateHash.toLowerCase() !== latest.stateHash.toLowerCase()) {
+      throw new Error(`settlement is over state ${message.stateNonce} (${message.stateHash}), not the latest committed state ${latest.nonce} (${latest.stateHash})`);
+    }
+
+    const signature = await privateKeyToAccount(this.brokerKey).signMessage({ message: { raw: settlementMessageHash(message) } });
+    this.emit('settlementCountersigned', { appSessionId: session.appSessionId, challengeId: payload.challengeId, message });
+    return signature;
+  }
+
+  private handleCloseAppSession(account: Address, params: any): { method: string; params: any } {
+    const session = this.getAppSession(params?.app_session_id ?? '');
+    if (!session) throw new Error(`unknown app session: ${params?.app_session_id}`);
+    if (!isAddressEqual(session.owner, account)) throw new Error('not a participant');
+    if (session.status !== RPCChannelStatus.Open) throw new Error(`app session is ${session.status}`);
+
+    const final = (params.allocations ?? []).map((a: any) => ({ asset: a.asset as string, amount: this.parseAmount(a.amount) }));
+    const funded = new Map<string, bigint>();
+    for (const a of session.allocations) funded.set(a.asset, (funded.get(a.asset) ?? 0n) + a.amount);
+    const returned = new Map<string, bigint>();
+    for (const a of final) returned.set(a.asset, (returned.get(a.asset) ?? 0n) + a.amount);
+    returned.forEach((amount, asset) => {
+      if (amount > (funded.get(asset) ?? 0n)) throw new Error(`allocations exceed session funds: ${asset}`);
+    });
+
+    // Whatever isn't allocated back stays with the broker
+    returned.forEach((amount, asset) => this.adjust(account, asset, amount));
+    session.status = RPCChannelStatus.Closed;
+    session.version++;
+    this.pushBalances(account);
+    this.emit('appSessionClosed', session);
+
+    return { method: 'close_app_session', params: { app_session_id: session.appSessionId, version: session.version, status: session.status } };
+  }
+
+  // ── Ledger ───────────────────────────────────
+
+  private adjust(account: string, asset: string, delta: bigint): void {
+    const key = account.toLowerCase();
+    const balances = this.ledger.get(key) ?? new Map<string, bigint>();
+    balances.set(asset, (balances.get(asset) ?? 0n) + delta);
+    this.ledger.set(key, balances);
+  }
+
+  private balancesOf(account: string): Array<{ asset: string; amount: string }> {
+    const balances = this.ledger.get(account.toLowerCase()) ?? new Map<string, bigint>();
+    return Array.from(balances, ([asset, amount]) => ({ asset, amount: amount.toString() }));
+  }
+
+  private parseAmount(value: unknown): bigint {
+    try {
+      const amount = BigInt(value as string);
+      if (amount < 0n) throw new Error();
+      return amount;
+    } catch {
+      throw new Error(`invalid amount: ${value}`);
+    }
+  }
+
+  private configParams() {
+    return {
+      broker_address: this.brokerAddress,
+      networks: [{
+        chain_id: this.options.chainId,
+        name: 'mock',
+        custody_address: this.options.custodyAddress,
+        adjudicator_address: this.options.adjudicatorAddress,
+      }],
+    };
+  }
+
+  // ── Outgoing ─────────────────────────────────
+
+  /** Balance update push to every socket logged in as `account` */
+  private pushBalances(account: string): void {
+    const params = { balance_updates: this.balancesOf(account) };
+    for (const conn of Array.from(this.connections)) {
+      if (conn.account && isAddressEqual(conn.account, account as Address)) {
+        this.send(conn, Date.now(), 'bu', params).catch(() => { /* socket gone */ });
+      }
+    }
+  }
+
+  private sendError(conn: Connection, requestId: number, error: string): Promise<void> {
+    return this.send(conn, requestId, 'error', { error });
+  }
+
+  /**
+   * Send the response to a request, subject to the injected drop / delay
+   * faults. The request has already been applied, so a dropped response
+   * looks to the client exactly like one lost on the wire.
+   */
+  private async respond(conn: Connection, requestId: number, requestMethod: string, method: string, params: any): Promise<void> {
+    const { dropRate, dropMethods, delayMs } = this.faults;
+    if (dropMethods?.includes(requestMethod) || (dropRate && Math.random() < dropRate)) {
+      this.emit('dropped', { connectionId: conn.id, requestId, method: requestMethod });
+      return;
+    }
+    if (delayMs) {
+      const [min, max] = Array.isArray(delayMs) ? delayMs : [delayMs, delayMs];
+      await new Promise((resolve) => setTimeout(resolve, min + Math.random() * (max - min)));
+    }
+    await this.send(conn, requestId, method, params);
+  }
+
+  private async send(conn: Connection, requestId: number, method: string, params: any): Promise<void> {
+    if (conn.socket.readyState !== WebSocket.OPEN) return;
+    const res: RequestPayload = [requestId, method, params, Date.now()];
+    const signature = await this.brokerSigner(res as RPCData);
+    conn.socket.send(JSON.stringify({ res, sig: [signature] }));
+  }
+}
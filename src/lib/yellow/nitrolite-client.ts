@@ -18,12 +18,25 @@
  * Signing:
  *   All messages are signed with a local ECDSA session key (no MetaMask).
  *   MetaMask is only needed for on-chain operations (deposit/withdraw).
+ *   The key lives in an encrypted vault (see session-key-vault.ts); while
+ *   it is locked, anything that has to sign is refused.
+ *
+ * Reconnect:
+ *   A dropped socket is reopened with exponential backoff + jitter and
+ *   re-authenticated. `predict` / `vote` messages go through a durable
+ *   outbound queue (see outbound-queue.ts) and are replayed in nonce order
+ *   until the Clearnode answers them.
+ *
+ * State commitments:
+ *   The Clearnode answers every accepted state change with its signature
+ *   over keccak256(challengeId, stateHash, nonce). The latest one is kept
+ *   on the session — it is the evidence that knocks out a settlement of
+ *   an older state (see dispute-service.ts).
  */
 
 import { EventEmitter } from 'events';
-import type { Address, Hex, PublicClient, Hash } from 'viem';
-import { createWalletClient, http } from 'viem';
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import type { Address, Hex, PublicClient, Hash, LocalAccount } from 'viem';
+import { createWalletClient, http, isAddressEqual, recoverMessageAddress, zeroHash } from 'viem';
 import { sepolia } from 'viem/chains';
 
 // ---------- SDK imports (v0.5.3) ----------
@@ -44,12 +57,10 @@ import {
   createGetLedgerBalancesMessage,
   createCreateChannelMessage,
   // Signer helpers
-  createECDSAMessageSigner,
   createEIP712AuthMessageSigner,
   // Parsers
   parseAnyRPCResponse,
-  // State signer
-  SessionKeyStateSigner,
+  RPCMethod,
 } from '@erc7824/nitrolite';
 
 import type {
@@ -59,6 +70,16 @@ import type {
   RPCProtocolVersion,
 } from '@erc7824/nitrolite';
 
+import type { TimestampAuthority, TimestampAttestation, TimestampClaim } from './timestamp-authority';
+import { checkStakeLimits, type StakeLimits } from '../payout-algorithm';
+import { hashSessionState } from './state-encoding';
+import { hashHistoryEntry, exportStateHistory, serializePrediction, type StateAction, type StateHistoryEntry } from './state-history';
+import { OutboundQueue, type OutboundMessage, type OutboundPayload } from './outbound-queue';
+import { ClearnodeRPC, type PushMethod, type RPCCallOptions, type RPCResult } from './rpc';
+import { SessionKeyVault, SessionKeyVaultError } from './session-key-vault';
+import { serializeSettlementMessage, settlementMessageHash, type SettlementMessage } from './settlement-verifier';
+import { verifySignedState, type SignedState } from './dispute-service';
+
 // ────────────────────────────────────────────────
 // Config — only clearnodeUrl is required!
 // ────────────────────────────────────────────────
@@ -71,6 +92,21 @@ export interface YellowConfig {
   /** Viem clients (from wagmi) */
   publicClient?: PublicClient;
   walletClient?: any; // WalletClient with account
+  /** Countersigns bid times; without one, predictions carry only the local clock */
+  timestampAuthority?: TimestampAuthority;
+  /** Backoff for reopening a dropped Clearnode socket */
+  reconnect?: ReconnectOptions;
+  /** Where the session key is kept (default: a passphrase / passkey vault in localStorage) */
+  vault?: SessionKeyVault;
+}
+
+export interface ReconnectOptions {
+  /** First retry delay (default 1s), doubled per attempt */
+  baseDelayMs?: number;
+  /** Delay cap (default 30s) */
+  maxDelayMs?: number;
+  /** Give up after this many attempts in a row (default: never) */
+  maxAttempts?: number;
 }
 
 /** Config fetched dynamically from the Clearnode via get_config */
@@ -93,14 +129,19 @@ export interface ClearnodeConfig {
 
 export interface AppSession {
   sessionId: string;
+  /** The challenge this session stakes on — one session per challenge */
+  challengeId: string;
   appId: string;
   channelId: string;
   participants: string[];
   state: SessionState;
   createdAt: number;
   expiresAt: number;
-  status: 'active' | 'challenging' | 'settled' | 'expired';
+  /** 'settling' from requestSettlement until the Clearnode countersigns (or cancelSettlement) */
+  status: 'active' | 'challenging' | 'settling' | 'settled' | 'expired';
   availableBalance: bigint;
+  /** Latest state the Clearnode co-signed (live mode) */
+  stateCommitment?: SignedState;
 }
 
 export interface SessionState {
@@ -109,6 +150,7 @@ export interface SessionState {
   predictions: Map<string, PredictionState>;
   votes: Map<string, VoteState>;
   nonce: number;
+  /** keccak256 of the canonical encoding (see state-encoding.ts) */
   stateHash: string;
 }
 
@@ -116,9 +158,13 @@ export interface PredictionState {
   id: string;
   challengeId: string;
   reelId: string;
+  /** Wallet address of the user who placed the prediction */
+  predictor: string;
   amount: bigint;
   timestamp: number;
   nonce: number;
+  /** Authority-signed bid time — the only timestamp settlement trusts */
+  attestation?: TimestampAttestation;
 }
 
 export interface VoteState {
@@ -128,6 +174,28 @@ export interface VoteState {
   timestamp: number;
 }
 
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const SESSION_STORAGE_PREFIX = 'rizzz-session:';
+
+/** Where older builds kept the session key in plaintext */
+const LEGACY_SESSION_KEY_STORAGE = 'rizzz-session-key';
+
+/** Where older builds kept their single session and its history */
+const LEGACY_SESSION_STORAGE = 'rizzz-session';
+const LEGACY_HISTORY_STORAGE = 'rizzz-session-history';
+
+/** localStorage key holding one challenge's persisted session */
+export function sessionStorageKey(challengeId: string): string {
+  return `${SESSION_STORAGE_PREFIX}${challengeId}`;
+}
+
+/** One challenge's app session plus its signed transition log */
+interface ChallengeSession {
+  session: AppSession;
+  history: StateHistoryEntry[];
+}
+
 // ────────────────────────────────────────────────
 // Sandbox Faucet
 // ────────────────────────────────────────────────
@@ -170,50 +238,50 @@ export class YellowNitroliteClient extends EventEmitter {
   private config: YellowConfig;
   private sdkClient: SdkClient | null = null;
   private ws: WebSocket | null = null;
-  private session: AppSession | null = null;
-  private state: SessionState | null = null;
+  /** App sessions keyed by challenge id */
+  private sessions = new Map<string, ChallengeSession>();
   private isDemo: boolean;
   private isAuthenticated = false;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
 
-  /** Ephemeral session key — used for ALL Clearnode message signing (NO MetaMask) */
-  private sessionKeyHex: Hex;
-  private sessionKeyAccount: ReturnType<typeof privateKeyToAccount>;
+  /** Encrypted home of the session key — used for ALL Clearnode message signing (NO MetaMask) */
+  private vault: SessionKeyVault;
+  /** viem account that signs through the vault */
+  private sessionKeyAccount!: LocalAccount;
 
-  /** ECDSA signer created from the session key — the SDK's recommended approach */
-  private ecdsaSigner: MessageSigner;
+  /** ECDSA signer backed by the vault — same scheme as the SDK's createECDSAMessageSigner */
+  private ecdsaSigner!: MessageSigner;
 
   /** Discovered dynamically from the Clearnode */
   private clearnodeConfig: ClearnodeConfig = {};
 
+  /** Whale-dampening caps per challenge, enforced on predict / update */
+  private stakeLimits = new Map<string, StakeLimits>();
+  private poolTotals = new Map<string, bigint>();
+
   /** Local wallet client for EIP-712 signing (no MetaMask) */
   private localWalletClient: any;
 
+  /** predict / vote messages the Clearnode has not answered yet */
+  private outbox = new OutboundQueue();
+
+  /** Pending RPC calls keyed by requestId, plus push subscriptions (see rpc.ts) */
+  private rpc = new ClearnodeRPC((message) => this.wsSend(message));
+
   constructor(config: YellowConfig) {
     super();
     this.config = config;
 
-    // Restore or generate ephemeral session key
-    const stored = typeof window !== 'undefined' ? localStorage.getItem('rizzz-session-key') : null;
-    if (stored) {
-      this.sessionKeyHex = stored as Hex;
-      console.log('🔑 Restored session key from storage');
-    } else {
-      this.sessionKeyHex = generatePrivateKey();
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('rizzz-session-key', this.sessionKeyHex);
-      }
-    }
-    this.sessionKeyAccount = privateKeyToAccount(this.sessionKeyHex);
-
-    // ECDSA signer for general RPC messages
-    this.ecdsaSigner = createECDSAMessageSigner(this.sessionKeyHex);
+    this.vault = config.vault ?? new SessionKeyVault();
+    this.initSessionKey();
 
-    // Local wallet client for EIP-712 auth signing (signs locally, no MetaMask)
-    this.localWalletClient = createWalletClient({
-      account: this.sessionKeyAccount,
-      chain: sepolia,
-      transport: http(),
+    // Once secured, the plaintext copy from older builds can go
+    this.vault.on('secured', () => {
+      if (typeof window !== 'undefined') localStorage.removeItem(LEGACY_SESSION_KEY_STORAGE);
+    });
+    // Messages queued while locked could not be signed — send them now
+    this.vault.on('unlocked', () => {
+      this.flushOutbox().catch((err) => console.warn('Outbound replay failed:', err));
     });
 
     // Demo mode = no clearnode URL set
@@ -227,6 +295,31 @@ export class YellowNitroliteClient extends EventEmitter {
     }
   }
 
+  /**
+   * Point the signers at the vault's key. A locked vault keeps its address,
+   * so sessions and auth still know who we are; an empty one gets a fresh
+   * in-memory key (importing a plaintext key left by an older build).
+   */
+  private initSessionKey(): void {
+    if (this.vault.status() === 'empty') {
+      const legacy = typeof window !== 'undefined' ? localStorage.getItem(LEGACY_SESSION_KEY_STORAGE) : null;
+      this.vault.generate(legacy ? legacy as Hex : undefined);
+      if (legacy) console.log('🔑 Imported plaintext session key — secure it to remove the plaintext copy');
+    } else if (this.vault.status() === 'locked') {
+      console.log('🔒 Session key is locked — unlock it to sign');
+    }
+
+    this.sessionKeyAccount = this.vault.account();
+    this.ecdsaSigner = this.vault.signer();
+
+    // Local wallet client for EIP-712 auth signing (signs locally, no MetaMask)
+    this.localWalletClient = createWalletClient({
+      account: this.sessionKeyAccount,
+      chain: sepolia,
+      transport: http(),
+    });
+  }
+
   /** Update wallet/public clients (e.g. after wagmi connects) */
   updateClients(publicClient?: any, walletClient?: any) {
     if (publicClient) this.config.publicClient = publicClient;
@@ -260,7 +353,7 @@ export class YellowNitroliteClient extends EventEmitter {
     this.sdkClient = new SdkClient({
       publicClient: c.publicClient,
       walletClient: c.walletClient,
-      stateSigner: new SessionKeyStateSigner(this.sessionKeyHex),
+      stateSigner: this.vault.stateSigner(),
       addresses,
       chainId: c.chainId ?? 11155111,
       challengeDuration: 3600n,
@@ -274,6 +367,14 @@ export class YellowNitroliteClient extends EventEmitter {
   private isConnecting = false;
   private isConnected = false;
 
+  /** False after an explicit disconnect(), so onclose doesn't reopen the socket */
+  private shouldReconnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set once (re-)authentication has settled on the current socket */
+  private outboxReady = false;
+  private isFlushing = false;
+
   async connect(): Promise<void> {
     if (this.isDemo) {
       console.log('✅ Yellow Network ready (local demo mode)');
@@ -281,6 +382,9 @@ export class YellowNitroliteClient extends EventEmitter {
       return;
     }
 
+    this.shouldReconnect = true;
+    this.clearReconnectTimer();
+
     // Prevent duplicate connections
     if (this.isConnected || this.isConnecting) return;
     this.isConnecting = true;
@@ -288,16 +392,20 @@ export class YellowNitroliteClient extends EventEmitter {
     const url = this.config.clearnodeUrl!;
     return new Promise<void>((resolve) => {
       if (this.ws) {
-        try { this.ws.close(); } catch { /* ignore */ }
+        const stale = this.ws;
         this.ws = null;
+        try { stale.close(); } catch { /* ignore */ }
       }
 
-      this.ws = new WebSocket(url);
+      const ws = new WebSocket(url);
+      this.ws = ws;
 
-      this.ws.onopen = async () => {
-        console.log('✅ Connected to Clearnode:', url);
+      ws.onopen = async () => {
+        const isReconnect = this.reconnectAttempts > 0;
+        console.log(`✅ ${isReconnect ? 'Reconnected' : 'Connected'} to Clearnode:`, url);
         this.isConnected = true;
         this.isConnecting = false;
+        this.reconnectAttempts = 0;
         this.emit('connected');
         this.startHeartbeat();
 
@@ -315,10 +423,17 @@ export class YellowNitroliteClient extends EventEmitter {
           console.warn('⚠️ get_config failed:', err);
         }
 
+        // Dropped again while authenticating — onclose has already taken over
+        if (this.ws !== ws) return resolve();
+
+        this.outboxReady = true;
+        if (isReconnect) this.emit('reconnected');
+        this.flushOutbox().catch((err) => console.warn('Outbound replay failed:', err));
+
         resolve();
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
         const rawStr = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
         console.log('📩 Clearnode:', rawStr.substring(0, 500));
 
@@ -337,25 +452,39 @@ export class YellowNitroliteClient extends EventEmitter {
         }
       };
 
-      this.ws.onerror = (err) => {
+      ws.onerror = (err) => {
         console.error('Clearnode WebSocket error:', err);
         this.isConnecting = false;
         this.emit('error', err);
         resolve();
       };
 
-      this.ws.onclose = () => {
+      ws.onclose = () => {
+        // A socket we replaced or closed on purpose
+        if (this.ws !== ws) return;
         console.log('Disconnected from Clearnode');
+        this.ws = null;
         this.stopHeartbeat();
         this.isAuthenticated = false;
         this.isConnected = false;
         this.isConnecting = false;
+        this.outboxReady = false;
+        this.outbox.resetInFlight();
+        this.rpc.rejectAll();
         this.emit('disconnected');
+        this.scheduleReconnect();
+        resolve();
       };
     });
   }
 
   disconnect(): void {
+    this.shouldReconnect = false;
+    this.reconnectAttempts = 0;
+    this.clearReconnectTimer();
+    this.outboxReady = false;
+    this.outbox.resetInFlight();
+    this.rpc.rejectAll();
     this.stopHeartbeat();
     if (this.ws) {
       try { this.ws.close(); } catch { /* ignore */ }
@@ -377,6 +506,134 @@ export class YellowNitroliteClient extends EventEmitter {
     return false;
   }
 
+  // ── Typed RPC ──────────────────────────────────
+
+  /**
+   * Sign and send a request, resolving with the params of the response that
+   * carries its requestId. `error` responses, timeouts and aborts reject
+   * with a ClearnodeRPCError.
+   */
+  async request<M extends RPCMethod>(
+    method: M,
+    buildMessage: (signer: MessageSigner) => string | Promise<string>,
+    options: RPCCallOptions = {},
+  ): Promise<RPCResult<M>> {
+    if (this.isDemo) throw new Error('No Clearnode in demo mode');
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) throw new Error('Not connected');
+    return this.rpc.call(method, await buildMessage(this.ecdsaSigner), options);
+  }
+
+  /** Listen for a Clearnode push notification (`bu`, `channels`, ...); returns the unsubscribe function */
+  subscribe<M extends PushMethod>(method: M, listener: (params: RPCResult<M>) => void): () => void {
+    return this.rpc.subscribe(method, listener);
+  }
+
+  // ── Reconnect ──────────────────────────────────
+
+  /** Reopen the socket after an unexpected close: base · 2^attempt, capped, ±20% jitter */
+  private scheduleReconnect(): void {
+    if (this.isDemo || !this.shouldReconnect || this.reconnectTimer) return;
+
+    const { baseDelayMs = 1000, maxDelayMs = 30_000, maxAttempts = Infinity } = this.config.reconnect ?? {};
+    if (this.reconnectAttempts >= maxAttempts) {
+      console.warn(`❌ Giving up on Clearnode after ${this.reconnectAttempts} reconnect attempts`);
+      this.shouldReconnect = false;
+      this.emit('reconnectFailed', { attempts: this.reconnectAttempts });
+      return;
+    }
+
+    const attempt = ++this.reconnectAttempts;
+    const backoff = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+    console.log(`🔄 Reconnecting to Clearnode in ${delayMs}ms (attempt ${attempt})`);
+    this.emit('reconnecting', { attempt, delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((err) => console.warn('Reconnect failed:', err));
+    }, delayMs);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) { clearTimeout(this.reconnectTimer); this.reconnectTimer = null; }
+  }
+
+  // ── Outbound queue ─────────────────────────────
+
+  /** Queue an application message for a session and try to send it */
+  private queueApplicationMessage(session: AppSession, payload: OutboundPayload): void {
+    if (this.isDemo) return;
+    this.outbox.enqueue({
+      id: this.generateId('msg'),
+      sessionId: session.sessionId,
+      nonce: payload.nonce,
+      payload,
+    });
+    this.flushOutbox().catch((err) => console.warn('Failed to send queued message:', err));
+  }
+
+  /**
+   * Send every unsent queued message, lowest nonce first. Messages are
+   * signed at send time so a replay carries a fresh timestamp.
+   */
+  private async flushOutbox(): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+    try {
+      while (this.outboxReady && this.ws?.readyState === WebSocket.OPEN && this.vault.status() === 'unlocked') {
+        const [next] = this.outbox.pending();
+        if (!next) break;
+
+        const msg = await createApplicationMessage(this.ecdsaSigner, next.sessionId as Hex, [next.payload]);
+        const requestId: number = JSON.parse(msg).req[0];
+        if (!this.outboxReady || !this.wsSend(msg)) break;
+        this.outbox.markSent(next.id, requestId);
+        if (next.attempts > 1) {
+          console.log(`📤 Replayed ${next.payload.action} (nonce ${next.nonce}, attempt ${next.attempts})`);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Drop the queued message a response answers; `error` responses reject it.
+   * An accepted one carries the Clearnode's commitment to the new state.
+   */
+  private acknowledgeOutbound(requestId: unknown, error?: unknown, params?: any): void {
+    if (typeof requestId !== 'number') return;
+    const entry = this.outbox.acknowledge(requestId);
+    if (!entry) return;
+    if (error !== undefined) {
+      console.warn(`⚠️ Clearnode rejected ${entry.payload.action} (nonce ${entry.nonce}):`, error);
+      this.emit('messageRejected', entry, error);
+      return;
+    }
+    this.emit('messageAcknowledged', entry);
+
+    const signature = params?.state_signature ?? params?.stateSignature;
+    if (typeof signature === 'string' && entry.payload.stateHash) {
+      const { challengeId, stateHash, nonce } = entry.payload;
+      this.recordStateCommitment({ challengeId, stateHash: stateHash as Hex, nonce, signature: signature as Hex })
+        .catch((err) => console.warn(`⚠️ Dropped state commitment for ${challengeId} (nonce ${nonce}):`, err.message));
+    }
+  }
+
+  /** Keep a Clearnode state commitment if it is the broker's and newer than the last one */
+  private async recordStateCommitment(commitment: SignedState): Promise<void> {
+    const session = this.sessions.get(commitment.challengeId)?.session;
+    if (!session) return;
+    const broker = this.clearnodeConfig.brokerAddress;
+    if (!broker) throw new Error('Clearnode broker address is unknown');
+    if (!(await verifySignedState(commitment, broker))) throw new Error(`not signed by the Clearnode broker ${broker}`);
+    if (session.stateCommitment && session.stateCommitment.nonce >= commitment.nonce) return;
+
+    session.stateCommitment = commitment;
+    this.persistSession(commitment.challengeId);
+    this.emit('stateCommitted', commitment, session);
+  }
+
   // ── Authentication (v0.5.x) ───────────────────
 
   /** Auth params reused across auth_request and EIP-712 signing */
@@ -477,20 +734,17 @@ export class YellowNitroliteClient extends EventEmitter {
   private async fetchConfig(): Promise<ClearnodeConfig> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return this.clearnodeConfig;
 
-    // v0.5.3: createGetConfigMessageV2 — no signer needed
-    const msg = createGetConfigMessageV2();
-    if (!this.wsSend(msg)) return this.clearnodeConfig;
-    console.log('📋 Sent get_config');
-
     try {
-      const data = await this.waitForMethod('get_config', 10000);
+      // v0.5.3: createGetConfigMessageV2 — no signer needed
+      console.log('📋 Sending get_config');
+      const data = await this.rpc.call(RPCMethod.GetConfig, createGetConfigMessageV2());
       if (data) {
         this.clearnodeConfig = this.parseConfigData(data);
         console.log('📋 Config received:', this.clearnodeConfig);
         this.emit('configReceived', this.clearnodeConfig);
       }
     } catch (err) {
-      console.warn('get_config timed out');
+      console.warn('get_config failed:', (err as Error).message);
     }
 
     return this.clearnodeConfig;
@@ -530,22 +784,6 @@ export class YellowNitroliteClient extends EventEmitter {
     return config;
   }
 
-  /** Wait for a specific method response */
-  private waitForMethod(method: string, timeoutMs: number): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.off(`response:${method}`, onResponse);
-        reject(new Error(`Timeout waiting for ${method}`));
-      }, timeoutMs);
-
-      const onResponse = (data: any) => {
-        clearTimeout(timeout);
-        resolve(data);
-      };
-      this.once(`response:${method}`, onResponse);
-    });
-  }
-
   // ── Message handlers ──────────────────────────
 
   /**
@@ -559,6 +797,8 @@ export class YellowNitroliteClient extends EventEmitter {
     const params = response.params;
 
     console.log(`📨 Parsed: method=${method}`, params);
+    this.acknowledgeOutbound(response.requestId, method === 'error' ? params?.error ?? params : undefined, params);
+    this.rpc.handleResponse(response.requestId, method, params);
 
     switch (method) {
       case 'auth_request':
@@ -595,37 +835,25 @@ export class YellowNitroliteClient extends EventEmitter {
         }
         break;
 
-      case 'get_config':
-        this.emit('response:get_config', params);
-        break;
-
-      case 'get_ledger_balances':
-        this.emit('response:get_ledger_balances', params);
-        break;
-
       case 'create_app_session':
         console.log('✅ App session confirmed:', params);
-        this.emit('response:create_app_session', params);
         break;
 
       case 'close_app_session':
         console.log('✅ Session close confirmed:', params);
-        this.emit('response:close_app_session', params);
         break;
 
+      // Pushes — delivered to subscribe() listeners by the RPC layer
       case 'assets':
         console.log('📦 Assets:', params);
-        this.emit('response:assets', params);
         break;
 
       case 'bu': // balance update
         console.log('💰 Balance update:', params);
-        this.emit('response:bu', params);
         break;
 
       case 'channels':
         console.log('📺 Channels:', params);
-        this.emit('response:channels', params);
         break;
 
       case 'ping':
@@ -633,10 +861,7 @@ export class YellowNitroliteClient extends EventEmitter {
         break; // heartbeat
 
       default:
-        if (method) {
-          this.emit(`response:${method}`, params);
-        }
-        break;
+        break; // other responses resolve their pending call by requestId
     }
 
     this.emit('message', response);
@@ -651,8 +876,12 @@ export class YellowNitroliteClient extends EventEmitter {
     const payload = raw.res || raw.req;
     if (!Array.isArray(payload)) return;
 
-    const [, method, dataObj] = payload;
+    const [requestId, method, dataObj] = payload;
     console.log(`📨 Raw ${raw.res ? 'res' : 'req'}: method=${method}`, dataObj);
+    if (raw.res) {
+      this.acknowledgeOutbound(requestId, method === 'error' ? dataObj?.error ?? dataObj : undefined, dataObj);
+      this.rpc.handleResponse(requestId, method, dataObj);
+    }
 
     // Route by method — same as handleParsedResponse but with raw data
     if (method === 'auth_request' || method === 'auth_challenge') {
@@ -669,10 +898,6 @@ export class YellowNitroliteClient extends EventEmitter {
       }
     } else if (method === 'error') {
       console.warn('⚠️ Clearnode error (raw):', dataObj);
-    } else if (method === 'ping' || method === 'pong') {
-      // ignore
-    } else if (method) {
-      this.emit(`response:${method}`, dataObj);
     }
 
     this.emit('message', raw);
@@ -680,11 +905,12 @@ export class YellowNitroliteClient extends EventEmitter {
 
   // ── Ledger balances ───────────────────────────
 
-  async getLedgerBalances(): Promise<{ available: bigint; locked: bigint }> {
+  async getLedgerBalances(options: RPCCallOptions = {}): Promise<{ available: bigint; locked: bigint }> {
     if (this.isDemo) {
+      const states = Array.from(this.sessions.values(), (e) => e.session.state);
       return {
-        available: this.state?.balance ?? 0n,
-        locked: this.state?.lockedAmount ?? 0n,
+        available: states.reduce((sum, s) => sum + s.balance, 0n),
+        locked: states.reduce((sum, s) => sum + s.lockedAmount, 0n),
       };
     }
 
@@ -693,14 +919,12 @@ export class YellowNitroliteClient extends EventEmitter {
     }
 
     const msg = await createGetLedgerBalancesMessage(this.ecdsaSigner);
-    this.wsSend(msg);
-
-    const data = await this.waitForMethod('get_ledger_balances', 10000);
+    const data = await this.rpc.call(RPCMethod.GetLedgerBalances, msg, options);
     console.log('💰 Ledger balances:', data);
 
     // Parse SDK response: { ledgerBalances: [{asset, amount}] }
     const balances = data?.ledgerBalances || [];
-    const total = balances.reduce((sum: bigint, b: any) => sum + BigInt(b.amount || 0), 0n);
+    const total = balances.reduce((sum: bigint, b) => sum + BigInt(b.amount || 0), 0n);
     return { available: total, locked: 0n };
   }
 
@@ -743,6 +967,7 @@ export class YellowNitroliteClient extends EventEmitter {
    * This ensures the tokens land in the same ledger account we authenticate as.
    */
   async requestFaucetTokens(): Promise<boolean> {
+    this.requireSecuredKey();
     // Must use session key address because we auth as session key
     return requestSandboxTokens(this.sessionKeyAccount.address);
   }
@@ -751,106 +976,218 @@ export class YellowNitroliteClient extends EventEmitter {
     return !!this.config.clearnodeUrl?.includes('sandbox');
   }
 
+  /**
+   * Start over with a fresh in-memory key once the vault is empty (a key
+   * that was never secured and has been locked away).
+   */
+  createSessionKey(): string {
+    if (this.vault.status() !== 'empty') throw new SessionKeyVaultError('A session key already exists', 'exists');
+    this.initSessionKey();
+    return this.sessionKeyAccount.address;
+  }
+
   /** Public getter for the ephemeral session key address */
   getSessionKeyAddress(): string {
     return this.sessionKeyAccount.address;
   }
 
+  /** The vault holding the session key (status, unlock, lock, secure) */
+  getVault(): SessionKeyVault {
+    return this.vault;
+  }
+
   // ── Session persistence ───────────────────────
 
-  /** Save current session to localStorage so it survives page refresh */
-  persistSession(): void {
-    if (!this.session || typeof window === 'undefined') return;
+  /** Save one challenge's session (and its history) so it survives a page refresh */
+  persistSession(challengeId: string): void {
+    const entry = this.sessions.get(challengeId);
+    if (!entry || typeof window === 'undefined') return;
+    const { session, history } = entry;
+    const state = session.state;
     const data = {
-      sessionId: this.session.sessionId,
-      appId: this.session.appId,
-      channelId: this.session.channelId,
-      participants: this.session.participants,
-      createdAt: this.session.createdAt,
-      expiresAt: this.session.expiresAt,
-      status: this.session.status,
-      balance: this.state?.balance?.toString() ?? '0',
-      lockedAmount: this.state?.lockedAmount?.toString() ?? '0',
-      nonce: this.state?.nonce ?? 0,
-      stateHash: this.state?.stateHash ?? '',
-      predictions: this.state ? Array.from(this.state.predictions.entries()).map(([k, v]) => ({
-        ...v,
-        amount: v.amount.toString(),
-      })) : [],
+      challengeId,
+      sessionId: session.sessionId,
+      appId: session.appId,
+      channelId: session.channelId,
+      participants: session.participants,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      status: session.status,
+      stateCommitment: session.stateCommitment,
+      balance: state.balance.toString(),
+      lockedAmount: state.lockedAmount.toString(),
+      nonce: state.nonce,
+      stateHash: state.stateHash,
+      predictions: Array.from(state.predictions.values()).map((p) => ({ ...p, amount: p.amount.toString() })),
+      votes: Array.from(state.votes.values()),
+      history,
     };
-    localStorage.setItem('rizzz-session', JSON.stringify(data));
+    localStorage.setItem(sessionStorageKey(challengeId), JSON.stringify(data));
   }
 
-  /** Restore session from localStorage */
-  restoreSession(): AppSession | null {
-    if (typeof window === 'undefined') return null;
+  /** Restore every unexpired persisted session; returns them oldest first */
+  restoreSessions(): AppSession[] {
+    if (typeof window === 'undefined') return [];
+
+    this.migrateLegacySession();
+
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(SESSION_STORAGE_PREFIX)) keys.push(key);
+    }
+
+    for (const key of keys) {
+      const challengeId = key.slice(SESSION_STORAGE_PREFIX.length);
+      if (this.sessions.has(challengeId)) continue;
+      const restored = this.restoreSession(challengeId);
+      if (restored) this.emit('sessionCreated', restored);
+    }
+    return this.getSessions();
+  }
+
+  /**
+   * Move the single session older builds stored (before sessions were per
+   * challenge) under its challenge's key. The challenge comes from its
+   * predictions or votes; a session with neither is left where it is.
+   */
+  private migrateLegacySession(): void {
+    const raw = localStorage.getItem(LEGACY_SESSION_STORAGE);
+    if (!raw) {
+      localStorage.removeItem(LEGACY_HISTORY_STORAGE);
+      return;
+    }
+
     try {
-      const raw = localStorage.getItem('rizzz-session');
+      const data = JSON.parse(raw);
+      const challengeId: string | undefined = data.predictions?.[0]?.challengeId ?? data.votes?.[0]?.challengeId;
+      if (!challengeId) {
+        console.warn('⚠️ Legacy session has no predictions or votes to tell its challenge — leaving it in place');
+        return;
+      }
+      if (localStorage.getItem(sessionStorageKey(challengeId))) {
+        console.warn(`⚠️ Challenge ${challengeId} already has a session — leaving the legacy one in place`);
+        return;
+      }
+
+      const history: StateHistoryEntry[] = JSON.parse(localStorage.getItem(LEGACY_HISTORY_STORAGE) ?? '[]');
+      localStorage.setItem(sessionStorageKey(challengeId), JSON.stringify({ ...data, challengeId, history }));
+      console.log(`📦 Migrated legacy session to ${challengeId}`);
+    } catch (err) {
+      console.warn('Failed to migrate legacy session:', err);
+      return;
+    }
+
+    localStorage.removeItem(LEGACY_SESSION_STORAGE);
+    localStorage.removeItem(LEGACY_HISTORY_STORAGE);
+  }
+
+  /** Restore one challenge's session from localStorage (null if missing or expired) */
+  private restoreSession(challengeId: string): AppSession | null {
+    const key = sessionStorageKey(challengeId);
+    try {
+      const raw = localStorage.getItem(key);
       if (!raw) return null;
       const data = JSON.parse(raw);
 
       // Check if session expired
       if (data.expiresAt < Date.now()) {
-        localStorage.removeItem('rizzz-session');
+        localStorage.removeItem(key);
         return null;
       }
 
       const predictions = new Map<string, PredictionState>();
-      if (data.predictions) {
-        for (const p of data.predictions) {
-          predictions.set(p.id, { ...p, amount: BigInt(p.amount) });
-        }
+      for (const p of data.predictions ?? []) {
+        // Sessions persisted before predictor tracking belong to the session owner
+        const predictor = p.predictor ?? data.participants?.[0] ?? ZERO_ADDRESS;
+        predictions.set(p.id, { ...p, predictor, amount: BigInt(p.amount) });
       }
 
-      this.state = {
+      const votes = new Map<string, VoteState>();
+      for (const v of data.votes ?? []) votes.set(v.id, v);
+
+      const state: SessionState = {
         balance: BigInt(data.balance),
         lockedAmount: BigInt(data.lockedAmount),
         predictions,
-        votes: new Map(),
+        votes,
         nonce: data.nonce,
-        stateHash: data.stateHash,
+        stateHash: '',
       };
+      // Recompute rather than trust storage
+      state.stateHash = hashSessionState(state, data.sessionId);
+      if (data.stateHash && data.stateHash !== state.stateHash) {
+        console.warn(`⚠️ Stored stateHash for ${challengeId} does not match restored state; using recomputed hash`);
+      }
 
-      this.session = {
+      const history: StateHistoryEntry[] = data.history ?? [];
+      if (history.length > 0 && history[history.length - 1].stateHash !== state.stateHash) {
+        console.warn(`⚠️ State history for ${challengeId} does not end at the restored state`);
+      }
+
+      const session: AppSession = {
         sessionId: data.sessionId,
+        challengeId,
         appId: data.appId,
         channelId: data.channelId,
         participants: data.participants,
-        state: this.state,
+        state,
         createdAt: data.createdAt,
         expiresAt: data.expiresAt,
         status: data.status,
-        availableBalance: this.state.balance - this.state.lockedAmount,
+        availableBalance: state.balance - state.lockedAmount,
+        stateCommitment: data.stateCommitment,
       };
+      this.sessions.set(challengeId, { session, history });
 
-      console.log('✅ Restored session from storage:', this.session.sessionId);
-      this.emit('sessionCreated', this.session);
-      return this.session;
+      console.log(`✅ Restored session for ${challengeId}:`, session.sessionId);
+      return session;
     } catch (err) {
-      console.warn('Failed to restore session:', err);
-      localStorage.removeItem('rizzz-session');
+      console.warn(`Failed to restore session for ${challengeId}:`, err);
+      localStorage.removeItem(key);
       return null;
     }
   }
 
-  /** Clear persisted session */
-  clearPersistedSession(): void {
+  /** Forget one challenge's session, or every session and the session key */
+  clearPersistedSession(challengeId?: string): void {
     if (typeof window === 'undefined') return;
-    localStorage.removeItem('rizzz-session');
-    localStorage.removeItem('rizzz-session-key');
-    this.session = null;
-    this.state = null;
+    if (challengeId) {
+      localStorage.removeItem(sessionStorageKey(challengeId));
+      this.sessions.delete(challengeId);
+      return;
+    }
+    for (const id of Array.from(this.sessions.keys())) localStorage.removeItem(sessionStorageKey(id));
+    localStorage.removeItem(LEGACY_SESSION_KEY_STORAGE);
+    this.outbox.clear();
+    this.sessions.clear();
+    this.vault.destroy();
+    this.initSessionKey();
   }
 
   // ── Off-chain App Session ─────────────────────
 
+  /**
+   * Open the app session for a challenge. Each challenge has its own
+   * session and balance; opening a second one for the same challenge
+   * while the first is active is an error.
+   */
   async createAppSession(depositAmount: bigint, challengeId: string): Promise<AppSession> {
+    this.requireUnlocked();
+    this.requireSecuredKey();
+    const existing = this.sessions.get(challengeId)?.session;
+    if (existing && existing.status === 'active' && existing.expiresAt > Date.now()) {
+      throw new Error(`A session is already open for challenge ${challengeId}`);
+    }
+
     const userAddress = await this.getUserAddress();
     const now = Date.now();
+    // Clearnode-assigned id, so application messages and the close reference the real session
+    let appSessionId: string | undefined;
 
     if (!this.isDemo && this.ws && this.ws.readyState === WebSocket.OPEN && this.isAuthenticated) {
       // Live: create app session via RPC
-      const brokerAddr = this.clearnodeConfig.brokerAddress || '0x0000000000000000000000000000000000000000';
+      const brokerAddr = this.clearnodeConfig.brokerAddress || ZERO_ADDRESS;
 
       const params = {
         definition: {
@@ -870,193 +1207,385 @@ export class YellowNitroliteClient extends EventEmitter {
 
       try {
         const msg = await createAppSessionMessage(this.ecdsaSigner, params);
-        this.wsSend(msg);
         console.log('📨 Sent create_app_session');
+        ({ appSessionId } = await this.rpc.call(RPCMethod.CreateAppSession, msg));
       } catch (err) {
         console.warn('create_app_session RPC failed (using local session):', err);
       }
     }
 
     // Build local session state (both live and demo)
-    this.state = {
+    const state: SessionState = {
       balance: depositAmount,
       lockedAmount: 0n,
       predictions: new Map(),
       votes: new Map(),
       nonce: 0,
-      stateHash: '0x' + this.randomHex(64),
+      stateHash: '',
     };
 
-    this.session = {
-      sessionId: this.generateId('session'),
+    const session: AppSession = {
+      sessionId: appSessionId ?? this.generateId('session'),
+      challengeId,
       appId: 'rizzz-fun',
       channelId: this.generateId('channel'),
       participants: [userAddress],
-      state: this.state,
+      state,
       createdAt: now,
       expiresAt: now + 2 * 60 * 1000, // 2 minutes
       status: 'active',
       availableBalance: depositAmount,
     };
+    const entry: ChallengeSession = { session, history: [] };
+    this.sessions.set(challengeId, entry);
+    this.refreshStateHash(session);
+    await this.recordTransition(entry, { type: 'open', balance: depositAmount.toString() });
 
     console.log(`🎮 Session created${this.isDemo ? ' (demo)' : ''}:`, {
-      sessionId: this.session.sessionId,
+      sessionId: session.sessionId,
       balance: depositAmount.toString(),
       challengeId,
     });
 
-    this.persistSession();
-    this.emit('sessionCreated', this.session);
-    return this.session;
+    this.persistSession(challengeId);
+    this.emit('sessionCreated', session);
+    return session;
   }
 
   // ── Off-chain predictions (gasless) ────────────
 
-  async makePrediction(challengeId: string, reelId: string, amount: bigint): Promise<PredictionState> {
-    if (!this.session || !this.state) throw new Error('No active session');
+  /** Set (or clear) the stake caps enforced for a challenge's predictions. */
+  setStakeLimits(challengeId: string, limits?: StakeLimits): void {
+    if (limits) this.stakeLimits.set(challengeId, limits);
+    else this.stakeLimits.delete(challengeId);
+  }
 
-    const available = this.state.balance - this.state.lockedAmount;
-    if (available < amount) throw new Error(`Insufficient balance: ${available} < ${amount}`);
+  /**
+   * Set (or clear) the challenge's total staked pool across all wallets.
+   * This session only sees its own predictions, so the pool-share cap
+   * needs the real total to mean anything.
+   */
+  setPoolTotal(challengeId: string, total?: bigint): void {
+    if (total !== undefined) this.poolTotals.set(challengeId, total);
+    else this.poolTotals.delete(challengeId);
+  }
 
-    const nonce = ++this.state.nonce;
+  /**
+   * Place a prediction. `predictor` defaults to the session owner's wallet.
+   * Rejected if it would breach the challenge's stake limits.
+   */
+  async makePrediction(
+    challengeId: string,
+    reelId: string,
+    amount: bigint,
+    predictor?: string,
+  ): Promise<PredictionState> {
+    const entry = this.requireActiveSession(challengeId);
+    const { session } = entry;
+    const state = session.state;
+
+    const id = this.generateId('pred');
+    const owner = predictor ?? session.participants[0] ?? ZERO_ADDRESS;
+    this.assertCanStake(entry, { predictor: owner, reelId, amount });
+
+    // Get the bid time countersigned before touching state, so a failed
+    // attestation leaves nothing locked
+    const attestation = await this.attestBidTime({ predictionId: id, challengeId, reelId, predictor: owner, amount: amount.toString() });
+
+    // Other bids (or a close) may have landed while we waited — check again
+    if (this.requireActiveSession(challengeId) !== entry) throw new Error(`Session for challenge ${challengeId} was replaced`);
+    this.assertCanStake(entry, { predictor: owner, reelId, amount });
+
+    const nonce = ++state.nonce;
     const prediction: PredictionState = {
-      id: this.generateId('pred'),
+      id,
       challengeId,
       reelId,
+      predictor: owner,
       amount,
-      timestamp: Date.now(),
+      timestamp: attestation?.timestamp ?? Date.now(),
       nonce,
+      attestation,
     };
 
-    this.state.predictions.set(prediction.id, prediction);
-    this.state.lockedAmount += amount;
-    this.state.stateHash = '0x' + this.randomHex(64);
-    this.session.availableBalance = this.state.balance - this.state.lockedAmount;
+    state.predictions.set(prediction.id, prediction);
+    state.lockedAmount += amount;
+    this.refreshStateHash(session);
+    const recorded = this.recordTransition(entry, { type: 'predict', prediction: serializePrediction(prediction) });
+    session.availableBalance = state.balance - state.lockedAmount;
 
-    // In live mode, send state update
-    if (!this.isDemo && this.ws?.readyState === WebSocket.OPEN && this.session?.sessionId) {
-      try {
-        const msg = await createApplicationMessage(
-          this.ecdsaSigner,
-          this.session.sessionId as Hex,
-          [{ action: 'predict', challengeId, reelId, amount: amount.toString(), nonce }],
-        );
-        this.wsSend(msg);
-      } catch (err) {
-        console.warn('Failed to send prediction via RPC:', err);
-      }
-    }
+    // In live mode, queue the state update (sent now, or replayed after a reconnect)
+    this.queueApplicationMessage(session, {
+      action: 'predict', challengeId, reelId, predictor: prediction.predictor, amount: amount.toString(), nonce, stateHash: state.stateHash, attestation,
+    });
 
     console.log(`🔮 Prediction${this.isDemo ? ' (demo)' : ''}:`, { id: prediction.id, reelId, amount: amount.toString() });
 
-    this.persistSession();
+    await recorded;
+    this.persistSession(challengeId);
     this.emit('predictionMade', prediction);
-    this.emit('stateUpdate', this.state);
+    this.emit('stateUpdate', state, session);
     return prediction;
   }
 
   async updatePrediction(predictionId: string, newAmount: bigint): Promise<PredictionState> {
-    if (!this.session || !this.state) throw new Error('No active session');
-    const p = this.state.predictions.get(predictionId);
-    if (!p) throw new Error('Prediction not found');
+    const { entry, prediction: p } = this.findPrediction(predictionId);
+    const { session } = entry;
+    const state = session.state;
+    const next = { predictor: p.predictor, reelId: p.reelId, amount: newAmount };
+    this.assertCanStake(entry, next, p);
+
+    // The attestation covers the amount, so a resized stake is re-stamped —
+    // the whole stake moves to the new (later, lower-multiplier) bid time
+    const attestation = await this.attestBidTime({
+      predictionId: p.id, challengeId: p.challengeId, reelId: p.reelId, predictor: p.predictor, amount: newAmount.toString(),
+    });
 
-    const diff = newAmount - p.amount;
-    if (diff > 0 && (this.state.balance - this.state.lockedAmount) < diff) throw new Error('Insufficient balance');
+    // It may have been cancelled or resized, or other bids placed, meanwhile
+    if (this.findPrediction(predictionId).prediction !== p) throw new Error('Prediction not found');
+    this.assertCanStake(entry, next, p);
 
-    this.state.lockedAmount += diff;
+    const diff = newAmount - p.amount;
+    state.lockedAmount += diff;
     p.amount = newAmount;
-    p.nonce = ++this.state.nonce;
-    this.state.stateHash = '0x' + this.randomHex(64);
-    this.session.availableBalance = this.state.balance - this.state.lockedAmount;
+    p.nonce = ++state.nonce;
+    if (attestation) {
+      p.attestation = attestation;
+      p.timestamp = attestation.timestamp;
+    }
+    this.refreshStateHash(session);
+    session.availableBalance = state.balance - state.lockedAmount;
+    const recorded = this.recordTransition(entry, {
+      type: 'update', predictionId: p.id, amount: newAmount.toString(), timestamp: p.timestamp, attestation,
+    });
+    this.queueApplicationMessage(session, {
+      action: 'update', challengeId: p.challengeId, predictionId: p.id, amount: newAmount.toString(), nonce: p.nonce, stateHash: state.stateHash, attestation,
+    });
 
+    await recorded;
+
+    this.persistSession(session.challengeId);
     this.emit('predictionUpdated', p);
-    this.emit('stateUpdate', this.state);
+    this.emit('stateUpdate', state, session);
     return p;
   }
 
+  /**
+   * Throw if staking `next` — in place of `replacing`, when resizing — would
+   * overdraw the session or breach the challenge's stake limits.
+   */
+  private assertCanStake(
+    { session }: ChallengeSession,
+    next: Pick<PredictionState, 'predictor' | 'reelId' | 'amount'>,
+    replacing?: PredictionState,
+  ): void {
+    const { state, challengeId } = session;
+    const extra = next.amount - (replacing?.amount ?? 0n);
+    const available = state.balance - state.lockedAmount;
+    if (extra > 0n && available < extra) throw new Error(`Insufficient balance: ${available} < ${extra}`);
+
+    // The pool total still holds the replaced prediction's old amount
+    const poolTotal = this.poolTotals.get(challengeId);
+    const violation = checkStakeLimits(
+      this.getPredictionsForChallenge(challengeId).filter((other) => other.id !== replacing?.id),
+      next,
+      this.stakeLimits.get(challengeId),
+      poolTotal !== undefined && replacing ? poolTotal - replacing.amount : poolTotal,
+    );
+    if (violation) throw new Error(violation);
+  }
+
+  /** Ask the configured timestamp authority to sign a bid time (undefined if none configured) */
+  private async attestBidTime(claim: TimestampClaim): Promise<TimestampAttestation | undefined> {
+    const authority = this.config.timestampAuthority;
+    if (!authority) return undefined;
+    try {
+      return await authority.attest(claim);
+    } catch (err: any) {
+      throw new Error(`Bid time attestation failed: ${err?.message ?? err}`);
+    }
+  }
+
   async cancelPrediction(predictionId: string): Promise<void> {
-    if (!this.session || !this.state) throw new Error('No active session');
-    const p = this.state.predictions.get(predictionId);
-    if (!p) throw new Error('Prediction not found');
+    const { entry, prediction: p } = this.findPrediction(predictionId);
+    const { session } = entry;
+    const state = session.state;
+
+    state.lockedAmount -= p.amount;
+    state.predictions.delete(predictionId);
+    const nonce = ++state.nonce;
+    this.refreshStateHash(session);
+    session.availableBalance = state.balance - state.lockedAmount;
+    const recorded = this.recordTransition(entry, { type: 'cancel', predictionId });
+    this.queueApplicationMessage(session, { action: 'cancel', challengeId: p.challengeId, predictionId, nonce, stateHash: state.stateHash });
 
-    this.state.lockedAmount -= p.amount;
-    this.state.predictions.delete(predictionId);
-    this.state.stateHash = '0x' + this.randomHex(64);
-    this.session.availableBalance = this.state.balance - this.state.lockedAmount;
+    await recorded;
 
+    this.persistSession(session.challengeId);
     this.emit('predictionCancelled', p);
-    this.emit('stateUpdate', this.state);
+    this.emit('stateUpdate', state, session);
   }
 
   // ── Off-chain votes (gasless) ──────────────────
 
   async vote(challengeId: string, reelId: string): Promise<VoteState> {
-    if (!this.session || !this.state) throw new Error('No active session');
+    const entry = this.requireActiveSession(challengeId);
+    const { session } = entry;
+    const state = session.state;
 
     const v: VoteState = { id: this.generateId('vote'), challengeId, reelId, timestamp: Date.now() };
-    this.state.votes.set(v.id, v);
+    state.votes.set(v.id, v);
+    const nonce = ++state.nonce;
+    this.refreshStateHash(session);
+    const recorded = this.recordTransition(entry, { type: 'vote', vote: { ...v } });
 
-    if (!this.isDemo && this.ws?.readyState === WebSocket.OPEN && this.session?.sessionId) {
-      try {
-        const msg = await createApplicationMessage(
-          this.ecdsaSigner,
-          this.session.sessionId as Hex,
-          [{ action: 'vote', challengeId, reelId }],
-        );
-        this.wsSend(msg);
-      } catch (err) {
-        console.warn('Failed to send vote via RPC:', err);
-      }
-    }
+    this.queueApplicationMessage(session, { action: 'vote', challengeId, reelId, nonce, stateHash: state.stateHash });
 
+    await recorded;
+    this.persistSession(challengeId);
     this.emit('voteCast', v);
-    this.emit('stateUpdate', this.state);
+    this.emit('stateUpdate', state, session);
     return v;
   }
 
   // ── Settlement ─────────────────────────────────
 
+  /**
+   * Freeze a challenge's session ('settling') and return its final state,
+   * with the session key's signature over the raw stateHash. The session
+   * becomes 'settled' once `countersignSettlement` succeeds; until then
+   * `cancelSettlement` reopens it.
+   */
   async requestSettlement(challengeId: string): Promise<{ stateHash: string; signatures: string[]; finalState: SessionState }> {
-    if (!this.session || !this.state) throw new Error('No active session');
-
-    if (!this.isDemo && this.ws?.readyState === WebSocket.OPEN && this.isAuthenticated) {
-      try {
-        const userAddr = await this.getUserAddress();
-        const closeParams = {
-          app_session_id: this.session.sessionId as Hex,
-          allocations: [
-            { participant: userAddr as Address, asset: 'USDC', amount: this.state.balance.toString() },
-          ],
-        };
-        const msg = await createCloseAppSessionMessage(this.ecdsaSigner, closeParams);
-        this.wsSend(msg);
-      } catch (err) {
-        console.warn('close_app_session RPC failed:', err);
-      }
+    const session = this.sessions.get(challengeId)?.session;
+    if (!session) throw new Error(`No session for challenge ${challengeId}`);
+    if (session.status === 'settled') throw new Error(`Session for challenge ${challengeId} is already settled`);
+    this.requireUnlocked();
+    const state = session.state;
+
+    const previous = session.status;
+    session.status = 'settling';
+    this.persistSession(challengeId);
+
+    // Sign the canonical state hash with the session key so anyone holding
+    // the final state can check it against this signature
+    this.refreshStateHash(session);
+    let signature: Hex;
+    try {
+      signature = await this.sessionKeyAccount.signMessage({
+        message: { raw: state.stateHash as Hex },
+      });
+    } catch (err) {
+      session.status = previous;
+      this.persistSession(challengeId);
+      throw err;
     }
-
-    this.session.status = 'settled';
     const result = {
-      stateHash: this.state.stateHash,
-      signatures: ['0x' + this.randomHex(130)],
-      finalState: this.state,
+      stateHash: state.stateHash,
+      signatures: [signature],
+      finalState: state,
     };
-    this.emit('settlementReady', result);
+    this.emit('settlementReady', result, session);
     return result;
   }
 
+  /**
+   * Get the Clearnode's signature over a settlement of this challenge — the
+   * exact message `ReelPredict` checks, so call it only once the payout root
+   * and fees are final — then close the app session. The signature goes
+   * first in `SettlementData.signatures`.
+   */
+  async countersignSettlement(challengeId: string, message: SettlementMessage, options?: RPCCallOptions): Promise<Hex> {
+    const session = this.sessions.get(challengeId)?.session;
+    if (!session) throw new Error(`No session for challenge ${challengeId}`);
+    if (session.status !== 'settling') throw new Error(`Request the final state of ${challengeId} before countersigning`);
+    if (message.stateHash !== session.state.stateHash) throw new Error(`Settlement for ${challengeId} is not over its final state`);
+    if (this.isDemo) throw new Error('No Clearnode in demo mode to countersign the settlement');
+
+    // Without the broker there is nothing to check the signature against
+    const broker = this.clearnodeConfig.brokerAddress ?? (await this.fetchConfig()).brokerAddress;
+    if (!broker) throw new Error('Clearnode broker address is unknown (get_config failed) — cannot check its countersignature');
+
+    const params = await this.request(
+      RPCMethod.Message,
+      (signer) => createApplicationMessage(signer, session.sessionId as Hex, [
+        { action: 'settle', challengeId, message: serializeSettlementMessage(message) },
+      ]),
+      options,
+    ) as { settlement_signature?: Hex };
+    const signature = params.settlement_signature;
+    if (!signature) throw new Error(`Clearnode did not countersign the settlement for ${challengeId}`);
+
+    const signer = await recoverMessageAddress({ message: { raw: settlementMessageHash(message) }, signature });
+    if (!isAddressEqual(signer, broker)) {
+      throw new Error(`Settlement countersigned by ${signer}, not the Clearnode broker ${broker}`);
+    }
+
+    session.status = 'settled';
+    this.persistSession(challengeId);
+    await this.closeAppSession(session);
+    return signature;
+  }
+
+  /** Reopen a session whose settlement failed before the Clearnode countersigned it */
+  cancelSettlement(challengeId: string): void {
+    const session = this.sessions.get(challengeId)?.session;
+    if (session?.status !== 'settling') return;
+    session.status = 'active';
+    this.persistSession(challengeId);
+    console.log(`↩️ Settlement of ${challengeId} cancelled — session reopened`);
+  }
+
+  /** Hand the session's final balance back to the owner's ledger on the Clearnode */
+  private async closeAppSession(session: AppSession): Promise<void> {
+    if (this.ws?.readyState !== WebSocket.OPEN || !this.isAuthenticated) return;
+    try {
+      const userAddr = await this.getUserAddress();
+      const closeParams = {
+        app_session_id: session.sessionId as Hex,
+        allocations: [
+          { participant: userAddr as Address, asset: 'USDC', amount: session.state.balance.toString() },
+        ],
+      };
+      const msg = await createCloseAppSessionMessage(this.ecdsaSigner, closeParams);
+      this.wsSend(msg);
+    } catch (err) {
+      console.warn('close_app_session RPC failed:', err);
+    }
+  }
+
   // ── Getters ────────────────────────────────────
 
-  getSession(): AppSession | null { return this.session; }
-  getState(): SessionState | null { return this.state; }
-  getAvailableBalance(): bigint { return this.state ? this.state.balance - this.state.lockedAmount : 0n; }
+  getSession(challengeId: string): AppSession | null { return this.sessions.get(challengeId)?.session ?? null; }
+  getState(challengeId: string): SessionState | null { return this.getSession(challengeId)?.state ?? null; }
+  /** Every known session (any status), oldest first */
+  getSessions(): AppSession[] {
+    return Array.from(this.sessions.values(), (e) => e.session).sort((a, b) => a.createdAt - b.createdAt);
+  }
+  getAvailableBalance(challengeId: string): bigint {
+    const state = this.getState(challengeId);
+    return state ? state.balance - state.lockedAmount : 0n;
+  }
   isLiveMode(): boolean { return !this.isDemo; }
   isDemoMode(): boolean { return this.isDemo; }
   getClearnodeConfig(): ClearnodeConfig { return this.clearnodeConfig; }
+  /** Latest Clearnode-signed state of a challenge's session — dispute evidence */
+  getStateCommitment(challengeId: string): SignedState | null { return this.getSession(challengeId)?.stateCommitment ?? null; }
+  getStateHistory(challengeId: string): StateHistoryEntry[] { return [...(this.sessions.get(challengeId)?.history ?? [])]; }
+  /** Queued predict / vote messages awaiting a Clearnode response, in nonce order */
+  getOutboundQueue(): OutboundMessage[] { return this.outbox.list(); }
+
+  /** A challenge session's signed state log as JSON, for download or an auditor. */
+  exportStateHistory(challengeId: string): string {
+    const entry = this.sessions.get(challengeId);
+    if (!entry) throw new Error(`No session for challenge ${challengeId}`);
+    return exportStateHistory(entry.session.sessionId, entry.history);
+  }
 
   getPredictionsForChallenge(challengeId: string): PredictionState[] {
-    if (!this.state) return [];
-    return Array.from(this.state.predictions.values()).filter(p => p.challengeId === challengeId);
+    const state = this.getState(challengeId);
+    if (!state) return [];
+    return Array.from(state.predictions.values()).filter(p => p.challengeId === challengeId);
   }
 
   getTotalPredictionForReel(challengeId: string, reelId: string): bigint {
@@ -1075,7 +1604,7 @@ export class YellowNitroliteClient extends EventEmitter {
         if (accounts?.[0]) return accounts[0];
       } catch { /* ignore */ }
     }
-    return '0x0000000000000000000000000000000000000000';
+    return ZERO_ADDRESS;
   }
 
   private startHeartbeat(): void {
@@ -1095,6 +1624,77 @@ export class YellowNitroliteClient extends EventEmitter {
     if (this.heartbeatTimer) { clearInterval(this.heartbeatTimer); this.heartbeatTimer = null; }
   }
 
+  /** Recompute `state.stateHash` from the canonical encoding of the current state. */
+  private refreshStateHash(session: AppSession): void {
+    session.state.stateHash = hashSessionState(session.state, session.sessionId);
+  }
+
+  /**
+   * Every transition is signed, so refuse it up front rather than apply it
+   * to local state and then fail to record it.
+   */
+  private requireUnlocked(): void {
+    const status = this.vault.status();
+    if (status === 'empty') {
+      throw new SessionKeyVaultError('No session key — create a new one to keep signing', 'empty');
+    }
+    if (status !== 'unlocked') {
+      throw new SessionKeyVaultError('Unlock your session key first', 'locked');
+    }
+  }
+
+  /**
+   * Live funds follow the session key, and a key that was never secured is
+   * regenerated on reload — so it has to be secured before money moves.
+   */
+  private requireSecuredKey(): void {
+    if (!this.isDemo && !this.vault.isPersisted()) {
+      throw new SessionKeyVaultError('Secure your session key (Profile → Session Key) before depositing', 'unsecured');
+    }
+  }
+
+  /** The challenge's session, if it can still take predictions and votes */
+  private requireActiveSession(challengeId: string): ChallengeSession {
+    const entry = this.sessions.get(challengeId);
+    if (!entry) throw new Error(`No active session for challenge ${challengeId}`);
+    if (entry.session.status !== 'active') throw new Error(`Session for challenge ${challengeId} is ${entry.session.status}`);
+    this.requireUnlocked();
+    return entry;
+  }
+
+  private findPrediction(predictionId: string): { entry: ChallengeSession; prediction: PredictionState } {
+    for (const entry of Array.from(this.sessions.values())) {
+      const prediction = entry.session.state.predictions.get(predictionId);
+      if (prediction) {
+        this.requireUnlocked();
+        return { entry, prediction };
+      }
+    }
+    throw new Error('Prediction not found');
+  }
+
+  /**
+   * Append a signed entry for a transition that has just been applied.
+   * The entry is chained and hashed synchronously so concurrent calls
+   * keep their order; only the signature is awaited.
+   */
+  private async recordTransition({ session, history }: ChallengeSession, action: StateAction): Promise<void> {
+    const prev = history[history.length - 1];
+    const entry: StateHistoryEntry = {
+      seq: history.length,
+      prevHash: prev?.stateHash ?? zeroHash,
+      action,
+      stateHash: session.state.stateHash as Hex,
+      recordedAt: Date.now(),
+      signer: this.sessionKeyAccount.address,
+      signature: '0x',
+    };
+    history.push(entry);
+    entry.signature = await this.sessionKeyAccount.signMessage({
+      message: { raw: hashHistoryEntry(session.sessionId, entry) },
+    });
+  }
+
   private randomHex(len: number): string {
     return Array.from({ length: len }, () => Math.floor(Math.random() * 16).toString(16)).join('');
   }
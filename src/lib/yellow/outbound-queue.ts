@@ -0,0 +1,139 @@
+/**
+ * Durable outbound queue for Clearnode application messages
+ *
+ * `predict`, `update`, `cancel` and `vote` change local state before the
+ * Clearnode hears about them, so a message that never arrives leaves the
+ * two sides disagreeing. Every such message is queued here (and in
+ * localStorage) until the Clearnode answers its request id:
+ *
+ *   enqueue  → stored with the state nonce it produced
+ *   send     → signed fresh on each attempt; the request id is remembered
+ *   response → removed (an `error` response removes it too — resending
+ *              a rejected message cannot succeed); a success carries the
+ *              Clearnode's signature over the payload's stateHash + nonce
+ *   drop     → every unanswered entry goes back to pending and is replayed
+ *              in nonce order once the socket is back
+ *
+ * A message can reach the Clearnode twice if the connection drops before
+ * its response does; the nonce inside the payload lets the other side
+ * ignore the repeat.
+ */
+
+import type { TimestampAttestation } from './timestamp-authority';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/**
+ * JSON-safe params of one application message (amounts as decimal strings).
+ * `stateHash` is the session state after the transition at `nonce`.
+ */
+export type OutboundPayload =
+  | { action: 'predict'; challengeId: string; reelId: string; predictor: string; amount: string; nonce: number; stateHash: string; attestation?: TimestampAttestation }
+  | { action: 'update'; challengeId: string; predictionId: string; amount: string; nonce: number; stateHash: string; attestation?: TimestampAttestation }
+  | { action: 'cancel'; challengeId: string; predictionId: string; nonce: number; stateHash: string }
+  | { action: 'vote'; challengeId: string; reelId: string; nonce: number; stateHash: string };
+
+export interface OutboundMessage {
+  id: string;
+  /** App session the message belongs to */
+  sessionId: string;
+  /** State nonce after the transition — replay order */
+  nonce: number;
+  payload: OutboundPayload;
+  enqueuedAt: number;
+  attempts: number;
+  /** Request id of the latest send, while it awaits a response on this connection */
+  requestId?: number;
+}
+
+// ────────────────────────────────────────────────
+// Queue
+// ────────────────────────────────────────────────
+
+export class OutboundQueue {
+  private entries: OutboundMessage[] = [];
+
+  constructor(private key: string = 'rizzz-outbound-queue') {
+    this.load();
+  }
+
+  /** Add a message and persist it before anything is sent */
+  enqueue(entry: Omit<OutboundMessage, 'enqueuedAt' | 'attempts' | 'requestId'>): OutboundMessage {
+    const message: OutboundMessage = { ...entry, enqueuedAt: Date.now(), attempts: 0 };
+    this.entries.push(message);
+    this.save();
+    return message;
+  }
+
+  /** Entries not yet sent on the current connection, lowest nonce first */
+  pending(): OutboundMessage[] {
+    return this.entries
+      .filter((e) => e.requestId === undefined)
+      .sort((a, b) => a.nonce - b.nonce || a.enqueuedAt - b.enqueuedAt);
+  }
+
+  /** Every queued entry, sent or not, lowest nonce first */
+  list(): OutboundMessage[] {
+    return [...this.entries].sort((a, b) => a.nonce - b.nonce || a.enqueuedAt - b.enqueuedAt);
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  markSent(id: string, requestId: number): void {
+    const entry = this.entries.find((e) => e.id === id);
+    if (!entry) return;
+    entry.requestId = requestId;
+    entry.attempts++;
+    this.save();
+  }
+
+  /** Remove and return the entry answered by `requestId`, if it is one of ours */
+  acknowledge(requestId: number): OutboundMessage | null {
+    const index = this.entries.findIndex((e) => e.requestId === requestId);
+    if (index === -1) return null;
+    const [entry] = this.entries.splice(index, 1);
+    this.save();
+    return entry;
+  }
+
+  /** The connection dropped — nothing sent on it will be answered */
+  resetInFlight(): void {
+    let changed = false;
+    for (const entry of this.entries) {
+      if (entry.requestId !== undefined) {
+        entry.requestId = undefined;
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.save();
+  }
+
+  // ── Persistence ──────────────────────────────
+
+  private load(): void {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored: OutboundMessage[] = JSON.parse(localStorage.getItem(this.key) ?? '[]');
+      // Request ids belong to the connection that sent them, which is gone after a reload
+      this.entries = stored.map(({ requestId: _requestId, ...entry }) => entry);
+    } catch (err) {
+      console.warn('Failed to restore outbound queue:', err);
+      localStorage.removeItem(this.key);
+    }
+  }
+
+  private save(): void {
+    if (typeof window === 'undefined') return;
+    if (this.entries.length === 0) localStorage.removeItem(this.key);
+    else localStorage.setItem(this.key, JSON.stringify(this.entries));
+  }
+}
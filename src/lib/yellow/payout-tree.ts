@@ -0,0 +1,138 @@
+/**
+ * Merkle payout tree for claim-based settlement
+ *
+ * Settlement posts one root instead of pushing a transfer per predictor;
+ * each winner then calls `ReelPredict.claim(challengeId, amount, proof)`.
+ *
+ *   leaf = keccak256(bytes.concat(keccak256(abi.encode(address, uint256))))
+ *   node = keccak256(min(a, b) ‖ max(a, b))        // OpenZeppelin MerkleProof
+ *
+ * Leaves are sorted by hash and paired bottom-up; an odd node moves up a
+ * level unchanged. Only non-zero payouts get a leaf.
+ */
+
+import type { Address, Hex } from 'viem';
+import { concat, encodeAbiParameters, getAddress, keccak256, parseAbiParameters, zeroHash } from 'viem';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export interface PayoutClaim {
+  address: Address;
+  amount: bigint;
+  /** Sibling hashes from the leaf up to the root */
+  proof: Hex[];
+}
+
+export interface PayoutTree {
+  root: Hex;
+  /** Σ claim amounts — what the contract reserves for claims */
+  totalPayout: bigint;
+  claims: PayoutClaim[];
+}
+
+// ────────────────────────────────────────────────
+// Tree
+// ────────────────────────────────────────────────
+
+/** Leaf hash for a payout, as `ReelPredict.claim` computes it. */
+export function payoutLeaf(address: string, amount: bigint): Hex {
+  return keccak256(keccak256(encodeAbiParameters(
+    parseAbiParameters('address, uint256'),
+    [getAddress(address), amount],
+  )));
+}
+
+/**
+ * Build the tree for a settlement's payouts (address → amount). Zero
+ * payouts are dropped; an empty tree has the zero root.
+ */
+export function buildPayoutTree(payouts: Map<string, bigint>): PayoutTree {
+  const entries = Array.from(payouts)
+    .filter(([, amount]) => amount > 0n)
+    .map(([address, amount]) => ({ address: getAddress(address), amount, leaf: payoutLeaf(address, amount) }))
+    .sort((a, b) => compareHex(a.leaf, b.leaf));
+
+  if (entries.length === 0) return { root: zeroHash, totalPayout: 0n, claims: [] };
+
+  // levels[0] = leaves, last level = [root]
+  const levels: Hex[][] = [entries.map((e) => e.leaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  const claims = entries.map((entry, leafIndex) => {
+    const proof: Hex[] = [];
+    let index = leafIndex;
+    for (let depth = 0; depth < levels.length - 1; depth++) {
+      const sibling = index ^ 1;
+      if (sibling < levels[depth].length) proof.push(levels[depth][sibling]);
+      index >>= 1;
+    }
+    return { address: entry.address, amount: entry.amount, proof };
+  });
+
+  return {
+    root: levels[levels.length - 1][0],
+    totalPayout: entries.reduce((sum, e) => sum + e.amount, 0n),
+    claims,
+  };
+}
+
+/** Find an address's claim in a tree (case-insensitive). */
+export function getPayoutClaim(tree: PayoutTree, address: string): PayoutClaim | undefined {
+  const wanted = address.toLowerCase();
+  return tree.claims.find((c) => c.address.toLowerCase() === wanted);
+}
+
+/** Check a claim against a root the same way `MerkleProof.verify` does. */
+export function verifyPayoutClaim(root: Hex, claim: PayoutClaim): boolean {
+  let hash = payoutLeaf(claim.address, claim.amount);
+  for (const sibling of claim.proof) hash = hashPair(hash, sibling);
+  return hash === root;
+}
+
+// ────────────────────────────────────────────────
+// Publishing
+// ────────────────────────────────────────────────
+
+/** JSON form of a tree (amounts as decimal strings) for the proofs endpoint. */
+export function serializePayoutTree(tree: PayoutTree): string {
+  return JSON.stringify({
+    root: tree.root,
+    totalPayout: tree.totalPayout.toString(),
+    claims: tree.claims.map((c) => ({ ...c, amount: c.amount.toString() })),
+  });
+}
+
+export function parsePayoutTree(json: string): PayoutTree {
+  const data = JSON.parse(json);
+  if (typeof data?.root !== 'string' || !Array.isArray(data.claims)) {
+    throw new Error('Not a payout tree');
+  }
+  return {
+    root: data.root,
+    totalPayout: BigInt(data.totalPayout),
+    claims: data.claims.map((c: any) => ({ address: c.address, amount: BigInt(c.amount), proof: c.proof })),
+  };
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return compareHex(a, b) <= 0 ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+function compareHex(a: Hex, b: Hex): number {
+  const x = BigInt(a);
+  const y = BigInt(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
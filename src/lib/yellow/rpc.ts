@@ -0,0 +1,182 @@
+/**
+ * Request / response correlation for the Clearnode RPC
+ *
+ * Every request the client signs carries a requestId (`req[0]`) and the
+ * Clearnode echoes it in the response (`res[0]`). Pending calls are keyed
+ * by that id, so two concurrent `get_ledger_balances` calls each get their
+ * own answer and a server push can never resolve a call:
+ *
+ *   call(method, message)  → send, then wait for the response with the same id
+ *   `error` response       → the call rejects with a ClearnodeRPCError
+ *   timeout / abort signal → the call rejects and its id is forgotten
+ *   socket closed          → every pending call rejects
+ *
+ * Push notifications (`bu`, `channels`, `cu`, `assets`, `tr`) are not
+ * answers to anything; they go to `subscribe()` listeners instead.
+ */
+
+import { EventEmitter } from 'events';
+import { RPCMethod, type RPCResponseParamsByMethod } from '@erc7824/nitrolite';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/** Params of a successful response to `M`, as parsed by the SDK */
+export type RPCResult<M extends RPCMethod> = RPCResponseParamsByMethod[M];
+
+/** Methods the Clearnode sends unprompted */
+export type PushMethod =
+  | RPCMethod.BalanceUpdate
+  | RPCMethod.ChannelsUpdate
+  | RPCMethod.ChannelUpdate
+  | RPCMethod.Assets
+  | RPCMethod.TransferNotification;
+
+export const PUSH_METHODS: readonly PushMethod[] = [
+  RPCMethod.BalanceUpdate,
+  RPCMethod.ChannelsUpdate,
+  RPCMethod.ChannelUpdate,
+  RPCMethod.Assets,
+  RPCMethod.TransferNotification,
+];
+
+export interface RPCCallOptions {
+  /** Reject if no response arrives in time (default 10s) */
+  timeoutMs?: number;
+  /** Abort to stop waiting; a late response is then ignored */
+  signal?: AbortSignal;
+}
+
+export type RPCErrorCode = 'rpc_error' | 'timeout' | 'cancelled' | 'disconnected' | 'send_failed' | 'unexpected_response';
+
+/** Why a Clearnode call failed; `code: 'rpc_error'` carries the Clearnode's own message */
+export class ClearnodeRPCError extends Error {
+  constructor(
+    message: string,
+    readonly code: RPCErrorCode,
+    readonly method: string,
+    readonly requestId?: number,
+  ) {
+    super(message);
+    this.name = 'ClearnodeRPCError';
+  }
+}
+
+interface PendingCall {
+  method: string;
+  resolve: (params: any) => void;
+  reject: (err: ClearnodeRPCError) => void;
+  cleanup: () => void;
+}
+
+/** The requestId of a signed request built by the SDK's create*Message helpers */
+export function getMessageRequestId(message: string): number {
+  const requestId = JSON.parse(message)?.req?.[0];
+  if (typeof requestId !== 'number') throw new Error('Message has no requestId');
+  return requestId;
+}
+
+// ────────────────────────────────────────────────
+// Correlator
+// ────────────────────────────────────────────────
+
+export class ClearnodeRPC {
+  private pending = new Map<number, PendingCall>();
+  private push = new EventEmitter();
+
+  constructor(
+    private send: (message: string) => boolean,
+    private defaultTimeoutMs: number = 10_000,
+  ) {
+    this.push.setMaxListeners(0);
+  }
+
+  /** Send a signed request and resolve with the params of its own response */
+  call<M extends RPCMethod>(method: M, message: string, options: RPCCallOptions = {}): Promise<RPCResult<M>> {
+    const { timeoutMs = this.defaultTimeoutMs, signal } = options;
+    const requestId = getMessageRequestId(message);
+
+    return new Promise<RPCResult<M>>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ClearnodeRPCError(`${method} cancelled`, 'cancelled', method, requestId));
+        return;
+      }
+
+      const onAbort = () => this.fail(requestId, new ClearnodeRPCError(`${method} cancelled`, 'cancelled', method, requestId));
+      const timer = setTimeout(
+        () => this.fail(requestId, new ClearnodeRPCError(`Timeout waiting for ${method}`, 'timeout', method, requestId)),
+        timeoutMs,
+      );
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(requestId, {
+        method,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      });
+
+      if (!this.send(message)) {
+        this.fail(requestId, new ClearnodeRPCError(`Could not send ${method}: socket not open`, 'send_failed', method, requestId));
+      }
+    });
+  }
+
+  /**
+   * Route one incoming message. Returns true if it answered a pending call
+   * or was a push delivered to subscribers.
+   */
+  handleResponse(requestId: unknown, method: string, params: any): boolean {
+    const call = typeof requestId === 'number' ? this.pending.get(requestId) : undefined;
+    if (call) {
+      this.pending.delete(requestId as number);
+      call.cleanup();
+      if (method === RPCMethod.Error) {
+        const message = params?.error ?? (typeof params === 'string' ? params : JSON.stringify(params));
+        call.reject(new ClearnodeRPCError(message, 'rpc_error', call.method, requestId as number));
+      } else if (method !== call.method) {
+        call.reject(new ClearnodeRPCError(
+          `Expected ${call.method} response, got ${method}`, 'unexpected_response', call.method, requestId as number,
+        ));
+      } else {
+        call.resolve(params);
+      }
+      return true;
+    }
+
+    if ((PUSH_METHODS as readonly string[]).includes(method)) {
+      this.push.emit(method, params);
+      return true;
+    }
+    return false;
+  }
+
+  /** Listen for a push notification; returns the unsubscribe function */
+  subscribe<M extends PushMethod>(method: M, listener: (params: RPCResult<M>) => void): () => void {
+    this.push.on(method, listener);
+    return () => { this.push.off(method, listener); };
+  }
+
+  /** Reject every pending call — the socket they were sent on is gone */
+  rejectAll(reason: string = 'Disconnected from Clearnode'): void {
+    for (const [requestId, call] of Array.from(this.pending)) {
+      this.fail(requestId, new ClearnodeRPCError(reason, 'disconnected', call.method, requestId));
+    }
+  }
+
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  private fail(requestId: number, err: ClearnodeRPCError): void {
+    const call = this.pending.get(requestId);
+    if (!call) return;
+    this.pending.delete(requestId);
+    call.cleanup();
+    call.reject(err);
+  }
+}
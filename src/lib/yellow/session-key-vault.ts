@@ -0,0 +1,407 @@
+/**
+ * Encrypted storage for the Clearnode session key
+ *
+ * The session key signs every Clearnode message and owns the session's
+ * ledger balance, so it must never sit in localStorage in plaintext. The
+ * vault keeps it AES-GCM encrypted under a key derived from either:
+ *
+ *   passphrase → PBKDF2-SHA256 over a random salt
+ *   passkey    → the authenticator's WebAuthn PRF output, through HKDF-SHA256
+ *
+ * Lifecycle:
+ *   generate → a fresh (or imported) key held in memory only
+ *   secure   → encrypt + persist it; also re-encrypts under a new secret
+ *   unlock   → decrypt into memory
+ *   lock     → forget the plaintext; a secured key locks by itself after
+ *              `autoLockMs` without signing or touch(). A key that was never
+ *              secured is not auto-locked, since locking it loses it.
+ *
+ * The private key never leaves this module: callers get a MessageSigner,
+ * a viem account and a StateSigner that sign through the vault and throw
+ * SessionKeyVaultError('locked') while it is locked.
+ */
+
+import { EventEmitter } from 'events';
+import type { Address, Hex, LocalAccount } from 'viem';
+import { bytesToHex, hexToBytes, isAddressEqual } from 'viem';
+import { generatePrivateKey, privateKeyToAccount, toAccount } from 'viem/accounts';
+import { createECDSAMessageSigner, SessionKeyStateSigner } from '@erc7824/nitrolite';
+import type { MessageSigner, StateSigner } from '@erc7824/nitrolite';
+
+/** HKDF info / WebAuthn user name, so derived keys can't be reused elsewhere */
+const VAULT_DOMAIN = 'rizzz-fun/session-key-vault/v1';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export type VaultUnlockMethod =
+  | { kind: 'passphrase'; passphrase: string }
+  | { kind: 'passkey' };
+
+export type VaultStatus = 'empty' | 'locked' | 'unlocked';
+
+/** What is persisted — nothing here is secret without the passphrase / passkey */
+export interface StoredVault {
+  version: 1;
+  address: Address;
+  kdf: 'pbkdf2' | 'webauthn-prf';
+  /** PBKDF2 salt, or the PRF input for passkeys (base64) */
+  salt: string;
+  iv: string;
+  ciphertext: string;
+  iterations?: number;
+  /** WebAuthn credential the PRF is evaluated with (base64) */
+  credentialId?: string;
+}
+
+export interface SessionKeyVaultOptions {
+  /** localStorage key (default 'rizzz-session-vault') */
+  storageKey?: string;
+  /** Lock after this long without use (default 15 min, 0 = never) */
+  autoLockMs?: number;
+  /** PBKDF2 iterations for new passphrases (default 310,000) */
+  pbkdf2Iterations?: number;
+  /** WebAuthn relying party name shown by the authenticator */
+  rpName?: string;
+}
+
+export type SessionKeyVaultErrorCode = 'locked' | 'empty' | 'unsecured' | 'exists' | 'bad_secret' | 'passkey_unavailable' | 'unsupported';
+
+export class SessionKeyVaultError extends Error {
+  constructor(message: string, readonly code: SessionKeyVaultErrorCode) {
+    super(message);
+    this.name = 'SessionKeyVaultError';
+  }
+}
+
+// ────────────────────────────────────────────────
+// Vault
+// ────────────────────────────────────────────────
+
+export class SessionKeyVault extends EventEmitter {
+  private storageKey: string;
+  private autoLockMs: number;
+  private pbkdf2Iterations: number;
+  private rpName: string;
+
+  private record: StoredVault | null = null;
+  private privateKey: Hex | null = null;
+  /** Address of the key in memory, until a never-secured key is locked away */
+  private keyAddress: Address | null = null;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private cachedAccount: LocalAccount | null = null;
+
+  constructor(options: SessionKeyVaultOptions = {}) {
+    super();
+    this.storageKey = options.storageKey ?? 'rizzz-session-vault';
+    this.autoLockMs = options.autoLockMs ?? 15 * 60 * 1000;
+    this.pbkdf2Iterations = options.pbkdf2Iterations ?? 310_000;
+    this.rpName = options.rpName ?? 'rizzz.fun';
+    this.load();
+  }
+
+  get address(): Address | null {
+    return this.record?.address ?? this.keyAddress;
+  }
+
+  status(): VaultStatus {
+    if (this.privateKey) return 'unlocked';
+    return this.record ? 'locked' : 'empty';
+  }
+
+  /** Whether the key survives a reload (it has been secured) */
+  isPersisted(): boolean {
+    return !!this.record;
+  }
+
+  /** How the persisted key is unlocked, if there is one */
+  unlockKind(): VaultUnlockMethod['kind'] | null {
+    if (!this.record) return null;
+    return this.record.kdf === 'webauthn-prf' ? 'passkey' : 'passphrase';
+  }
+
+  /**
+   * Hold a new key in memory, unlocked but not persisted until secure().
+   * Pass an existing key to import it (e.g. a legacy plaintext one).
+   */
+  generate(privateKey: Hex = generatePrivateKey()): Address {
+    if (this.record) throw new SessionKeyVaultError('A session key is already stored', 'exists');
+    this.setKey(privateKey);
+    this.emit('unlocked', this.keyAddress);
+    return this.keyAddress!;
+  }
+
+  /** Encrypt the unlocked key under `method` and persist it, replacing any previous secret */
+  async secure(method: VaultUnlockMethod): Promise<void> {
+    const privateKey = this.requireKey();
+    const subtle = getSubtle();
+
+    const salt = randomBytes(32);
+    const iv = randomBytes(12);
+    let record: Omit<StoredVault, 'iv' | 'ciphertext'>;
+    let key: CryptoKey;
+
+    if (method.kind === 'passphrase') {
+      if (!method.passphrase) throw new SessionKeyVaultError('Passphrase must not be empty', 'bad_secret');
+      const iterations = this.pbkdf2Iterations;
+      key = await derivePassphraseKey(method.passphrase, salt, iterations);
+      record = { version: 1, address: this.keyAddress!, kdf: 'pbkdf2', salt: toBase64(salt), iterations };
+    } else {
+      const credentialId = this.record?.credentialId
+        ? fromBase64(this.record.credentialId)
+        : await this.registerPasskey();
+      key = await derivePasskeyKey(credentialId, salt);
+      record = { version: 1, address: this.keyAddress!, kdf: 'webauthn-prf', salt: toBase64(salt), credentialId: toBase64(credentialId) };
+    }
+
+    const ciphertext = await subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: addressBytes(record.address) },
+      key,
+      new Uint8Array(hexToBytes(privateKey)),
+    );
+    this.record = { ...record, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+    this.save();
+    // Now that it survives a lock, start the auto-lock
+    this.touch();
+    console.log(`🔐 Session key secured with ${method.kind}`);
+    this.emit('secured', method.kind);
+  }
+
+  /** Decrypt the stored key; a wrong passphrase or passkey rejects with `bad_secret` */
+  async unlock(method: VaultUnlockMethod): Promise<void> {
+    const record = this.record;
+    if (!record) throw new SessionKeyVaultError('No session key is stored', 'empty');
+    if (this.privateKey) { this.touch(); return; }
+
+    const salt = fromBase64(record.salt);
+    let key: CryptoKey;
+    if (record.kdf === 'pbkdf2') {
+      if (method.kind !== 'passphrase') throw new SessionKeyVaultError('This session key is locked with a passphrase', 'bad_secret');
+      key = await derivePassphraseKey(method.passphrase, salt, record.iterations ?? this.pbkdf2Iterations);
+    } else {
+      if (method.kind !== 'passkey') throw new SessionKeyVaultError('This session key is locked with a passkey', 'bad_secret');
+      key = await derivePasskeyKey(fromBase64(record.credentialId!), salt);
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await getSubtle().decrypt(
+        { name: 'AES-GCM', iv: fromBase64(record.iv), additionalData: addressBytes(record.address) },
+        key,
+        fromBase64(record.ciphertext),
+      );
+    } catch {
+      throw new SessionKeyVaultError('Wrong passphrase or passkey', 'bad_secret');
+    }
+
+    const privateKey = bytesToHex(new Uint8Array(plaintext));
+    if (!isAddressEqual(privateKeyToAccount(privateKey).address, record.address)) {
+      throw new SessionKeyVaultError('Stored session key does not match its address', 'bad_secret');
+    }
+    this.setKey(privateKey);
+    console.log('🔓 Session key unlocked');
+    this.emit('unlocked', record.address);
+  }
+
+  /** Forget the plaintext key. A key that was never secured is gone for good. */
+  lock(): void {
+    this.clearLockTimer();
+    if (!this.privateKey) return;
+    this.privateKey = null;
+    if (!this.record) this.keyAddress = null;
+    console.log('🔒 Session key locked');
+    this.emit('locked');
+  }
+
+  /** Count as activity: push the auto-lock back (secured keys only) */
+  touch(): void {
+    if (!this.privateKey || !this.record) return;
+    this.clearLockTimer();
+    if (this.autoLockMs > 0) {
+      this.lockTimer = setTimeout(() => this.lock(), this.autoLockMs);
+    }
+  }
+
+  /** Delete the stored key and everything in memory */
+  destroy(): void {
+    this.lock();
+    this.record = null;
+    this.keyAddress = null;
+    this.cachedAccount = null;
+    if (typeof window !== 'undefined') localStorage.removeItem(this.storageKey);
+    this.emit('destroyed');
+  }
+
+  // ── Signers ──────────────────────────────────
+
+  /** Clearnode RPC signer (same scheme as the SDK's ECDSA signer) */
+  signer(): MessageSigner {
+    return (payload) => this.withKey((key) => createECDSAMessageSigner(key)(payload));
+  }
+
+  /** viem account for signMessage / signTypedData with the session key */
+  account(): LocalAccount {
+    const address = this.address;
+    if (!address) throw new SessionKeyVaultError('No session key', 'empty');
+    if (this.cachedAccount?.address === address) return this.cachedAccount;
+
+    this.cachedAccount = toAccount({
+      address,
+      signMessage: (args) => this.withKey((key) => privateKeyToAccount(key).signMessage(args)),
+      signTransaction: (tx, options) => this.withKey((key) => privateKeyToAccount(key).signTransaction(tx, options)),
+      signTypedData: (typedData) => this.withKey((key) => privateKeyToAccount(key).signTypedData(typedData)),
+    });
+    return this.cachedAccount;
+  }
+
+  /** Channel state signer for the on-chain SDK client */
+  stateSigner(): StateSigner {
+    return {
+      getAddress: () => this.account().address,
+      signState: (channelId, state) => this.withKey((key) => new SessionKeyStateSigner(key).signState(channelId, state as any)),
+      signRawMessage: (message) => this.withKey((key) => new SessionKeyStateSigner(key).signRawMessage(message)),
+    };
+  }
+
+  // ── Internals ────────────────────────────────
+
+  private async withKey<T>(fn: (privateKey: Hex) => Promise<T>): Promise<T> {
+    const key = this.requireKey();
+    this.touch();
+    return fn(key);
+  }
+
+  private requireKey(): Hex {
+    if (!this.privateKey) {
+      throw new SessionKeyVaultError(
+        this.record ? 'Session key is locked' : 'No session key',
+        this.record ? 'locked' : 'empty',
+      );
+    }
+    return this.privateKey;
+  }
+
+  private setKey(privateKey: Hex): void {
+    this.privateKey = privateKey;
+    this.keyAddress = privateKeyToAccount(privateKey).address;
+    this.touch();
+  }
+
+  private clearLockTimer(): void {
+    if (this.lockTimer) { clearTimeout(this.lockTimer); this.lockTimer = null; }
+  }
+
+  /** Create a passkey with the PRF extension; returns its credential id */
+  private async registerPasskey(): Promise<Uint8Array<ArrayBuffer>> {
+    if (typeof navigator === 'undefined' || !navigator.credentials) {
+      throw new SessionKeyVaultError('WebAuthn is not available', 'passkey_unavailable');
+    }
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        rp: { name: this.rpName },
+        user: { id: randomBytes(16), name: VAULT_DOMAIN, displayName: `Session key ${this.keyAddress}` },
+        challenge: randomBytes(32),
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 },
+          { type: 'public-key', alg: -257 },
+        ],
+        authenticatorSelection: { userVerification: 'required', residentKey: 'preferred' },
+        extensions: { prf: {} },
+      },
+    }) as PublicKeyCredential | null;
+
+    if (!credential) throw new SessionKeyVaultError('Passkey creation was cancelled', 'passkey_unavailable');
+    if (!credential.getClientExtensionResults().prf?.enabled) {
+      throw new SessionKeyVaultError('This authenticator does not support the PRF extension', 'passkey_unavailable');
+    }
+    return new Uint8Array(credential.rawId);
+  }
+
+  // ── Persistence ──────────────────────────────
+
+  private load(): void {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      this.record = stored ? JSON.parse(stored) : null;
+    } catch (err) {
+      console.warn('Failed to read session key vault:', err);
+      this.record = null;
+    }
+  }
+
+  private save(): void {
+    if (typeof window === 'undefined' || !this.record) return;
+    localStorage.setItem(this.storageKey, JSON.stringify(this.record));
+  }
+}
+
+// ────────────────────────────────────────────────
+// Key derivation
+// ────────────────────────────────────────────────
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) throw new SessionKeyVaultError('WebCrypto is not available (needs a secure context)', 'unsupported');
+  return subtle;
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/** Evaluate the passkey's PRF on `salt` (one user-verification prompt) and stretch it with HKDF */
+async function derivePasskeyKey(credentialId: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  if (typeof navigator === 'undefined' || !navigator.credentials) {
+    throw new SessionKeyVaultError('WebAuthn is not available', 'passkey_unavailable');
+  }
+  const assertion = await navigator.credentials.get({
+    publicKey: {
+      challenge: randomBytes(32),
+      allowCredentials: [{ type: 'public-key', id: credentialId }],
+      userVerification: 'required',
+      extensions: { prf: { eval: { first: salt } } },
+    },
+  }) as PublicKeyCredential | null;
+
+  const prf = assertion?.getClientExtensionResults().prf?.results?.first;
+  if (!prf) throw new SessionKeyVaultError('Passkey did not return a PRF result', 'passkey_unavailable');
+
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', prf, 'HKDF', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(VAULT_DOMAIN) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+// ── Bytes ──────────────────────────────────────
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+/** The ciphertext is bound to its address, so records can't be swapped */
+function addressBytes(address: Address): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(hexToBytes(address));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
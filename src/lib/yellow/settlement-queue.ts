@@ -0,0 +1,435 @@
+/**
+ * Persistent settlement job queue
+ *
+ * `settleChallenge` is one shot: if the process dies or the RPC drops
+ * between signing and mining, nobody knows whether the proposal went out.
+ * The runner splits settlement into recorded steps and saves the job after
+ * each one, so a restart picks up exactly where it stopped:
+ *
+ *   requested ──prepare──▶ signed ──propose──▶ submitted ──mined──▶ confirmed
+ *        │                   │                    │
+ *        └──── retry with exponential backoff ────┘──▶ failed (after maxAttempts)
+ *
+ * Idempotency: one job per key (default `settle:<challengeId>`); enqueueing
+ * the same key again returns the existing job. Before proposing, the
+ * runner checks the contract and never sends a second proposal for a
+ * challenge that already has one. The tx hash is saved before waiting for
+ * the receipt, so a restart re-attaches to the same transaction.
+ *
+ * Stores: in-memory, localStorage (browser) and a JSON file (Node).
+ */
+
+import { EventEmitter } from 'events';
+import type { PreparedSettlement, SettlementResult, SettlementService, SettleOptions } from './settlement';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+export type SettlementJobState = 'requested' | 'signed' | 'submitted' | 'confirmed' | 'failed';
+
+/** settleChallenge arguments, minus anything that can't be persisted */
+export interface SettlementJobParams {
+  challengeId: string;
+  winnerReelId: string;
+  contestStart: number;
+  contestEnd: number;
+  /** The service's default winner resolver is used on resume */
+  options?: Omit<SettleOptions, 'winnerResolver'>;
+}
+
+export interface SettlementJob {
+  /** Idempotency key */
+  key: string;
+  params: SettlementJobParams;
+  state: SettlementJobState;
+  /** Failed attempts at the current step */
+  attempts: number;
+  /** Unix ms before which the job isn't retried */
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Set once `signed` */
+  prepared?: PreparedSettlement;
+  /** Set once `submitted` */
+  txHash?: string;
+  /** Set once `confirmed` by this job's own transaction */
+  result?: SettlementResult;
+  lastError?: string;
+  /** Step the job was on when it failed */
+  failedIn?: SettlementJobState;
+  /** Why the job finished without a result of its own */
+  note?: string;
+}
+
+export interface SettlementJobStore {
+  load(): Promise<SettlementJob[]>;
+  save(jobs: SettlementJob[]): Promise<void>;
+}
+
+export interface SettlementJobRunnerOptions {
+  /** Attempts per step before the job fails (default 5) */
+  maxAttempts?: number;
+  /** First retry delay; doubles per attempt (default 2s) */
+  baseDelayMs?: number;
+  /** Cap on the retry delay (default 5 min) */
+  maxDelayMs?: number;
+  /** How long one confirmation attempt waits for the receipt (default 2 min) */
+  confirmTimeoutMs?: number;
+}
+
+// ────────────────────────────────────────────────
+// Serialization
+// ────────────────────────────────────────────────
+
+/** JSON with bigints tagged as `{ "$bigint": "123" }`. */
+export function serializeSettlementJobs(jobs: SettlementJob[]): string {
+  return JSON.stringify(jobs, (_key, value) =>
+    typeof value === 'bigint' ? { $bigint: value.toString() } : value,
+  );
+}
+
+export function parseSettlementJobs(json: string): SettlementJob[] {
+  const data = JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value,
+  );
+  if (!Array.isArray(data)) throw new Error('Not a settlement job list');
+  return data;
+}
+
+// ────────────────────────────────────────────────
+// Stores
+// ────────────────────────────────────────────────
+
+export class MemoryJobStore implements SettlementJobStore {
+  private json = '[]';
+
+  async load(): Promise<SettlementJob[]> {
+    return parseSettlementJobs(this.json);
+  }
+
+  async save(jobs: SettlementJob[]): Promise<void> {
+    this.json = serializeSettlementJobs(jobs);
+  }
+}
+
+export class LocalStorageJobStore implements SettlementJobStore {
+  constructor(private key: string = 'rizzz-settlement-jobs') {}
+
+  async load(): Promise<SettlementJob[]> {
+    if (typeof window === 'undefined') return [];
+    const raw = localStorage.getItem(this.key);
+    return raw ? parseSettlementJobs(raw) : [];
+  }
+
+  async save(jobs: SettlementJob[]): Promise<void> {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(this.key, serializeSettlementJobs(jobs));
+  }
+}
+
+/** Node only. Writes to a temp file and renames, so a crash never leaves half a file. */
+export class JsonFileJobStore implements SettlementJobStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<SettlementJob[]> {
+    const { promises: fs } = await import('fs');
+    try {
+      return parseSettlementJobs(await fs.readFile(this.path, 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async save(jobs: SettlementJob[]): Promise<void> {
+    const { promises: fs } = await import('fs');
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, serializeSettlementJobs(jobs), 'utf8');
+    await fs.rename(tmp, this.path);
+  }
+}
+
+// ────────────────────────────────────────────────
+// Runner
+// ────────────────────────────────────────────────
+
+/**
+ * Drives settlement jobs through their states, one at a time.
+ *
+ * Events: 'jobUpdated' (every transition), 'jobConfirmed', 'jobFailed'.
+ */
+export class SettlementJobRunner extends EventEmitter {
+  private service: SettlementService;
+  private store: SettlementJobStore;
+  private options: Required<SettlementJobRunnerOptions>;
+  private jobs = new Map<string, SettlementJob>();
+  private loaded = false;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+
+  constructor(
+    service: SettlementService,
+    store: SettlementJobStore = new MemoryJobStore(),
+    options: SettlementJobRunnerOptions = {},
+  ) {
+    super();
+    this.service = service;
+    this.store = store;
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      baseDelayMs: options.baseDelayMs ?? 2_000,
+      maxDelayMs: options.maxDelayMs ?? 5 * 60_000,
+      confirmTimeoutMs: options.confirmTimeoutMs ?? 120_000,
+    };
+  }
+
+  /** Load saved jobs and resume every unfinished one. */
+  async start(): Promise<void> {
+    await this.load();
+    this.started = true;
+    const open = this.listJobs().filter((j) => !isFinished(j));
+    if (open.length > 0) console.log(`🔁 Resuming ${open.length} settlement job(s)`);
+    await this.runDue();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Queue a settlement. If a job with the same key exists — in any
+   * state — it is returned unchanged and nothing new is queued.
+   */
+  async enqueue(
+    params: SettlementJobParams,
+    idempotencyKey: string = `settle:${params.challengeId}`,
+  ): Promise<SettlementJob> {
+    await this.load();
+    const existing = this.jobs.get(idempotencyKey);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const job: SettlementJob = {
+      key: idempotencyKey,
+      params: { ...params, options: persistableOptions(params.options) },
+      state: 'requested',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.update(job);
+    console.log(`🧾 Settlement queued for ${params.challengeId} (${idempotencyKey})`);
+
+    if (this.started) void this.runDue();
+    return job;
+  }
+
+  /** Put a failed job back on the step it failed at, with a fresh attempt budget. */
+  async retry(key: string): Promise<SettlementJob> {
+    await this.load();
+    const job = this.jobs.get(key);
+    if (!job) throw new Error(`No settlement job ${key}`);
+    if (job.state !== 'failed') throw new Error(`Settlement job ${key} is ${job.state}, not failed`);
+
+    const resumed: SettlementJob = {
+      ...job,
+      state: job.failedIn ?? 'requested',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      failedIn: undefined,
+    };
+    await this.update(resumed);
+    if (this.started) void this.runDue();
+    return resumed;
+  }
+
+  getJob(key: string): SettlementJob | undefined {
+    return this.jobs.get(key);
+  }
+
+  listJobs(): SettlementJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Advance every job that is due until it finishes or has to wait for a
+   * retry, then schedule the next wake-up. Only one pass runs at a time.
+   */
+  async runDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.load();
+      for (const key of Array.from(this.jobs.keys())) {
+        let job = this.jobs.get(key)!;
+        while (!isFinished(job) && job.nextAttemptAt <= Date.now()) {
+          job = await this.step(job);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    this.schedule();
+  }
+
+  // ── Steps ──
+
+  private async step(job: SettlementJob): Promise<SettlementJob> {
+    try {
+      switch (job.state) {
+        case 'requested':
+          return await this.sign(job);
+        case 'signed':
+          return await this.submit(job);
+        case 'submitted':
+          return await this.confirm(job);
+        default:
+          return job;
+      }
+    } catch (err: any) {
+      return this.recordFailure(job, err?.message ?? String(err));
+    }
+  }
+
+  private async sign(job: SettlementJob): Promise<SettlementJob> {
+    const { challengeId, winnerReelId, contestStart, contestEnd, options } = job.params;
+    const prepared = await this.service.prepareSettlement(challengeId, winnerReelId, contestStart, contestEnd, options);
+    return this.advance(job, { state: 'signed', prepared });
+  }
+
+  private async submit(job: SettlementJob): Promise<SettlementJob> {
+    const onChain = await this.service.getOnChainSettlementState(job.params.challengeId);
+    if (onChain !== 'none') {
+      return this.advance(job, { state: 'confirmed', note: `Challenge already ${onChain} on-chain; not proposed again` });
+    }
+
+    const txHash = await this.service.submitPreparedSettlement(job.prepared!);
+    return this.advance(job, { state: 'submitted', txHash });
+  }
+
+  private async confirm(job: SettlementJob): Promise<SettlementJob> {
+    const status = await this.service.getTransactionStatus(job.txHash!);
+
+    if (status === 'reverted' || status === 'unknown') {
+      // The proposal didn't land. Someone else's may have; otherwise propose again.
+      const onChain = await this.service.getOnChainSettlementState(job.params.challengeId);
+      if (onChain !== 'none') {
+        return this.advance(job, { state: 'confirmed', note: `Tx ${job.txHash} ${status}; challenge already ${onChain} on-chain` });
+      }
+      return this.recordFailure(
+        { ...job, state: 'signed', txHash: undefined },
+        `Settlement tx ${job.txHash} ${status === 'reverted' ? 'reverted' : 'was dropped'}`,
+      );
+    }
+
+    const result = await this.service.confirmSettlement(job.prepared!, job.txHash!, this.options.confirmTimeoutMs);
+    return this.advance(job, { state: 'confirmed', result });
+  }
+
+  // ── Bookkeeping ──
+
+  /** Move to the next step: attempts reset, due immediately. */
+  private async advance(job: SettlementJob, changes: Partial<SettlementJob>): Promise<SettlementJob> {
+    const next: SettlementJob = {
+      ...job,
+      ...changes,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: undefined,
+    };
+    await this.update(next);
+    if (next.state === 'confirmed') {
+      console.log(`✅ Settlement job ${next.key} confirmed${next.note ? ` (${next.note})` : ''}`);
+      this.emit('jobConfirmed', next);
+    }
+    return next;
+  }
+
+  private async recordFailure(job: SettlementJob, error: string): Promise<SettlementJob> {
+    const attempts = job.attempts + 1;
+    if (attempts >= this.options.maxAttempts) {
+      const failed: SettlementJob = { ...job, state: 'failed', failedIn: job.state, attempts, lastError: error };
+      await this.update(failed);
+      console.error(`❌ Settlement job ${job.key} failed after ${attempts} attempt(s):`, error);
+      this.emit('jobFailed', failed);
+      return failed;
+    }
+
+    const delay = this.backoff(attempts);
+    const retrying: SettlementJob = { ...job, attempts, lastError: error, nextAttemptAt: Date.now() + delay };
+    await this.update(retrying);
+    console.warn(`⏳ Settlement job ${job.key} (${job.state}) attempt ${attempts} failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+    return retrying;
+  }
+
+  /** Exponential backoff with up to 20% jitter. */
+  private backoff(attempts: number): number {
+    const { baseDelayMs, maxDelayMs } = this.options;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+    return Math.round(delay * (1 + Math.random() * 0.2));
+  }
+
+  private async update(job: SettlementJob): Promise<void> {
+    job.updatedAt = Date.now();
+    this.jobs.set(job.key, job);
+    await this.store.save(this.listJobs());
+    this.emit('jobUpdated', job);
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    for (const job of await this.store.load()) this.jobs.set(job.key, job);
+    this.loaded = true;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (!this.started) return;
+
+    const waiting = this.listJobs().filter((j) => !isFinished(j));
+    if (waiting.length === 0) return;
+    const next = Math.min(...waiting.map((j) => j.nextAttemptAt));
+    this.timer = setTimeout(() => void this.runDue(), Math.max(0, next - Date.now()));
+  }
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+function isFinished(job: SettlementJob): boolean {
+  return job.state === 'confirmed' || job.state === 'failed';
+}
+
+function persistableOptions(options?: SettleOptions): SettlementJobParams['options'] {
+  if (!options) return undefined;
+  const { winnerResolver, ...rest } = options;
+  if (winnerResolver) console.warn('⚠️ winnerResolver is not persisted; queued settlements use the service default');
+  return rest;
+}
+
+// Singleton instance
+let settlementJobRunnerInstance: SettlementJobRunner | null = null;
+
+export function initializeSettlementJobRunner(
+  service: SettlementService,
+  store?: SettlementJobStore,
+  options?: SettlementJobRunnerOptions,
+): SettlementJobRunner {
+  settlementJobRunnerInstance?.stop();
+  settlementJobRunnerInstance = new SettlementJobRunner(service, store, options);
+  return settlementJobRunnerInstance;
+}
+
+export function getSettlementJobRunner(): SettlementJobRunner {
+  if (!settlementJobRunnerInstance) {
+    throw new Error('Settlement job runner not initialized');
+  }
+  return settlementJobRunnerInstance;
+}
@@ -0,0 +1,454 @@
+/**
+ * Offline settlement verifier
+ *
+ * Lets anyone — a user who lost, an auditor — check a SettlementResult
+ * without trusting the settler. From the prediction log and the
+ * challenge parameters it:
+ *
+ *   1. re-runs the payout maths (calculateTimeWeightedPayouts, or the
+ *      ranked variant for podium challenges) exactly as settleChallenge does
+ *   2. rebuilds the payout tree and the message `ReelPredict._verifySettlement` checks:
+ *        keccak256(abi.encodePacked(stateHash, stateNonce, winnerReelId, payoutRoot,
+ *                  totalPayout, uint8(noWinnerPolicy), rolloverChallengeId, unclaimedAmount,
+ *                  creators, creatorFees, platformFee))
+ *   3. recovers who signed it (and, optionally, who signed the stateHash)
+ *
+ * The winner is re-resolved from the resolution's recorded inputs, and
+ * those inputs are checked against the prediction log (and the final
+ * state's votes, when given).
+ *
+ * and reports pass / fail per field. Pure: only viem and the payout
+ * modules, so it runs the same in Node and the browser.
+ */
+
+import type { Address, Hex } from 'viem';
+import { encodePacked, keccak256, recoverMessageAddress, isAddressEqual } from 'viem';
+import type { PredictionState, SessionState } from './nitrolite-client';
+import type { SettlementResult, SettleOptions } from './settlement';
+import { verifyTimestampAttestation } from './timestamp-authority';
+import { hashSessionState } from './state-encoding';
+import { buildPayoutTree, verifyPayoutClaim } from './payout-tree';
+import { getChallengeTiming } from '../challenge-timing';
+import { replayWinnerResolution, type WinnerResolution } from './winner-resolver';
+import {
+  calculateTimeWeightedPayouts,
+  calculateRankedPayouts,
+  type TimedPrediction,
+  type PayoutBreakdown,
+  type NoWinnerOutcome,
+  CREATOR_FEE_BPS,
+  PLATFORM_FEE_BPS,
+} from '../payout-algorithm';
+
+/**
+ * On-chain encoding of `NoWinnerPolicy` — must match `ReelPredict.NoWinnerPolicy`.
+ */
+export const NO_WINNER_POLICY_CODES = {
+  none: 0,
+  refund: 1,
+  rollover: 2,
+  jackpot: 3,
+} as const;
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/** The fields of `ReelPredict.SettlementData` covered by the clearnode signature */
+export interface SettlementMessage {
+  stateHash: Hex;
+  stateNonce: number;
+  winnerReelId: string;
+  payoutRoot: Hex;
+  totalPayout: bigint;
+  noWinnerPolicy: number;
+  rolloverChallengeId: string;
+  unclaimedAmount: bigint;
+  /** Creator of each paid reel, paired with `creatorFees` */
+  creators: Address[];
+  creatorFees: bigint[];
+  /** Sent to the treasury */
+  platformFee: bigint;
+}
+
+/** `SettlementMessage` with its amounts as decimal strings, for JSON (e.g. to the Clearnode) */
+export type SerializedSettlementMessage =
+  Omit<SettlementMessage, 'totalPayout' | 'unclaimedAmount' | 'creatorFees' | 'platformFee'> & {
+    totalPayout: string;
+    unclaimedAmount: string;
+    creatorFees: string[];
+    platformFee: string;
+  };
+
+/** `ReelPredict.SettlementData` as proposed on-chain */
+export interface SettlementSubmission extends SettlementMessage {
+  signatures: Hex[];
+}
+
+/** Challenge parameters the settlement was computed with */
+export interface SettlementChallengeParams {
+  contestStart: number;
+  contestEnd: number;
+  /** Same options passed to settleChallenge (resolver and reelIds are ignored) */
+  options?: SettleOptions;
+  creatorFeeBps?: number;
+  platformFeeBps?: number;
+  /** Clearnode key `ReelPredict` trusts — signatures[0] must recover to it */
+  clearnode?: Address;
+  /** Session key expected to have signed the raw stateHash */
+  stateSigner?: Address;
+}
+
+export interface VerifySettlementInput {
+  result: SettlementResult;
+  /** Every prediction in the final session state */
+  predictions: PredictionState[];
+  params: SettlementChallengeParams;
+  /**
+   * Final state, its session ID and the session owner — to check
+   * `result.stateHash`, votes, and the owner's unstaked-balance refund
+   */
+  finalState?: { sessionId: string; state: SessionState; owner: string };
+}
+
+export interface FieldCheck {
+  field: string;
+  ok: boolean;
+  expected?: string;
+  actual?: string;
+  message?: string;
+}
+
+export interface SettlementVerification {
+  ok: boolean;
+  fields: FieldCheck[];
+  /** Recomputed payouts */
+  breakdown: PayoutBreakdown;
+  /** Rebuilt contract message and its hash */
+  message: SettlementMessage;
+  messageHash: Hex;
+  /** Address recovered from each signature over the message hash (null if unrecoverable) */
+  signers: (Address | null)[];
+}
+
+// ────────────────────────────────────────────────
+// Contract message
+// ────────────────────────────────────────────────
+
+export function serializeSettlementMessage(message: SettlementMessage): SerializedSettlementMessage {
+  return {
+    stateHash: message.stateHash,
+    stateNonce: message.stateNonce,
+    winnerReelId: message.winnerReelId,
+    payoutRoot: message.payoutRoot,
+    totalPayout: message.totalPayout.toString(),
+    noWinnerPolicy: message.noWinnerPolicy,
+    rolloverChallengeId: message.rolloverChallengeId,
+    unclaimedAmount: message.unclaimedAmount.toString(),
+    creators: message.creators,
+    creatorFees: message.creatorFees.map((fee) => fee.toString()),
+    platformFee: message.platformFee.toString(),
+  };
+}
+
+export function parseSettlementMessage(message: SerializedSettlementMessage): SettlementMessage {
+  return {
+    ...message,
+    totalPayout: BigInt(message.totalPayout),
+    unclaimedAmount: BigInt(message.unclaimedAmount),
+    creatorFees: message.creatorFees.map((fee) => BigInt(fee)),
+    platformFee: BigInt(message.platformFee),
+  };
+}
+
+/** Hash `ReelPredict._verifySettlement` expects the clearnode to have signed (before the EIP-191 prefix). */
+export function settlementMessageHash(message: SettlementMessage): Hex {
+  return keccak256(encodePacked(
+    ['bytes32', 'uint64', 'string', 'bytes32', 'uint256', 'uint8', 'string', 'uint256', 'address[]', 'uint256[]', 'uint256'],
+    [
+      message.stateHash,
+      BigInt(message.stateNonce),
+      message.winnerReelId,
+      message.payoutRoot,
+      message.totalPayout,
+      message.noWinnerPolicy,
+      message.rolloverChallengeId,
+      message.unclaimedAmount,
+      message.creators,
+      message.creatorFees,
+      message.platformFee,
+    ],
+  ));
+}
+
+/** A creator fee the contract transfers on finalization */
+export interface CreatorPayout {
+  reelId: string;
+  creator: Address;
+  amount: bigint;
+}
+
+/**
+ * Who gets the creator fee: every podium tier's creator its slice, or the
+ * winning reel's creator all of it. Zero slices are dropped. Throws if a
+ * paid reel has no creator in `reelCreators` (reelId → address).
+ */
+export function splitCreatorFees(
+  breakdown: PayoutBreakdown,
+  winnerReelId: string,
+  reelCreators: Record<string, string> = {},
+): CreatorPayout[] {
+  const fees = breakdown.tiers
+    ? breakdown.tiers.map((t) => ({ reelId: t.reelId, amount: t.creatorFee }))
+    : [{ reelId: winnerReelId, amount: breakdown.creatorFee }];
+
+  return fees
+    .filter((f) => f.amount > 0n)
+    .map((f) => {
+      const creator = reelCreators[f.reelId];
+      if (!creator) throw new Error(`No creator address for reel ${f.reelId} (options.reelCreators)`);
+      return { reelId: f.reelId, creator: creator as Address, amount: f.amount };
+    });
+}
+
+// ────────────────────────────────────────────────
+// Verifier
+// ────────────────────────────────────────────────
+
+/**
+ * Recompute a settlement from its inputs and compare it field by field
+ * with the published result. Never throws on a mismatch — every failed
+ * check is listed in the report.
+ */
+export async function verifySettlement(input: VerifySettlementInput): Promise<SettlementVerification> {
+  const { result, params } = input;
+  const { podiumSplitBps, timestampSigner, timing, reelCreators, ...payoutOptions } = params.options ?? {};
+  const creatorFeeBps = params.creatorFeeBps ?? CREATOR_FEE_BPS;
+  const platformFeeBps = params.platformFeeBps ?? PLATFORM_FEE_BPS;
+  const fields: FieldCheck[] = [];
+  const check = (field: string, expected: unknown, actual: unknown, message?: string) =>
+    fields.push({ field, ok: expected === actual, expected: String(expected), actual: String(actual), message });
+
+  // ── state hash ──
+  if (input.finalState) {
+    check('stateHash', hashSessionState(input.finalState.state, input.finalState.sessionId), result.stateHash);
+    check('stateNonce', input.finalState.state.nonce, result.stateNonce);
+  }
+
+  // ── bid times (same screening as settleChallenge) ──
+  let predictions = input.predictions;
+  if (timestampSigner) {
+    payoutOptions.signedTimePolicy ??= 'reject';
+    predictions = await Promise.all(predictions.map(async (p) => {
+      const valid = p.attestation && await verifyTimestampAttestation(p.attestation, timestampSigner, {
+        predictionId: p.id,
+        challengeId: p.challengeId,
+        reelId: p.reelId,
+        predictor: p.predictor,
+        amount: p.amount.toString(),
+      });
+      return valid ? p : { ...p, attestation: undefined };
+    }));
+  }
+  if (timing) {
+    const stakes = predictions.map((p) => ({ ...p, timestamp: p.attestation?.timestamp ?? p.timestamp }));
+    payoutOptions.closesAt ??= getChallengeTiming(params.contestEnd, timing, stakes).closesAt;
+  }
+
+  // ── winner ──
+  const recorded = result.winnerResolution;
+  let ranking = recorded.ranking.map((r) => r.reelId);
+  try {
+    const replayed = await replayWinnerResolution(result.challengeId, recorded);
+    ranking = replayed.ranking.map((r) => r.reelId);
+    check('winnerRanking', ranking.join(','), recorded.ranking.map((r) => r.reelId).join(','), `replayed from the recorded ${recorded.strategy} inputs`);
+  } catch (err: any) {
+    fields.push({ field: 'winnerRanking', ok: false, message: `could not replay: ${err?.message ?? err}` });
+  }
+  if (ranking.length > 0) {
+    check('winnerReelId', ranking[0], result.winnerReelId, `top of the replayed ${recorded.strategy} ranking`);
+  }
+
+  // The recorded tallies must be the session's, not made up
+  const stakes = new Map<string, bigint>(ranking.map((id) => [id, 0n]));
+  for (const p of input.predictions) {
+    if (p.challengeId === result.challengeId) stakes.set(p.reelId, (stakes.get(p.reelId) ?? 0n) + p.amount);
+  }
+  for (const inputs of recordedInputs(recorded, 'stake-weighted')) {
+    const reels = Array.from(stakes.keys()).sort();
+    check('winnerInputs.stakes',
+      reels.map((id) => `${id}:${stakes.get(id)}`).join(','),
+      reels.map((id) => `${id}:${BigInt((inputs.stakes as Record<string, string>)?.[id] ?? 0)}`).join(','),
+      'stake per reel in the prediction log');
+  }
+  if (input.finalState) {
+    const votes = new Map<string, number>(ranking.map((id) => [id, 0]));
+    input.finalState.state.votes.forEach((v) => {
+      if (v.challengeId === result.challengeId) votes.set(v.reelId, (votes.get(v.reelId) ?? 0) + 1);
+    });
+    for (const inputs of recordedInputs(recorded, 'votes-only')) {
+      const reels = Array.from(votes.keys()).sort();
+      check('winnerInputs.votes',
+        reels.map((id) => `${id}:${votes.get(id)}`).join(','),
+        reels.map((id) => `${id}:${Number((inputs.votes as Record<string, number>)?.[id] ?? 0)}`).join(','),
+        'votes per reel in the final state');
+    }
+  }
+
+  // ── payouts ──
+  const timed: TimedPrediction[] = predictions.map((p) => ({
+    id: p.id,
+    reelId: p.reelId,
+    amount: p.amount,
+    timestamp: p.timestamp,
+    predictor: p.predictor,
+    signedTimestamp: p.attestation?.timestamp,
+  }));
+  const rankedReelIds = podiumSplitBps
+    ? [result.winnerReelId, ...ranking.filter((id) => id !== result.winnerReelId)]
+    : undefined;
+  const breakdown = rankedReelIds && podiumSplitBps
+    ? calculateRankedPayouts(timed, rankedReelIds, podiumSplitBps, params.contestStart, params.contestEnd, creatorFeeBps, platformFeeBps, payoutOptions)
+    : calculateTimeWeightedPayouts(timed, result.winnerReelId, params.contestStart, params.contestEnd, creatorFeeBps, platformFeeBps, payoutOptions);
+
+  check('totalPool', breakdown.totalPool, result.totalPool);
+  check('creatorPayout', breakdown.creatorFee, result.creatorPayout);
+  check('platformPayout', breakdown.platformFee, result.platformPayout);
+  check('noWinner', describeNoWinner(breakdown.noWinner), describeNoWinner(result.noWinner));
+  check('rejectedPredictions', [...breakdown.rejectedPredictions ?? []].sort().join(','), [...result.rejectedPredictions ?? []].sort().join(','));
+  if (podiumSplitBps) {
+    check('rankedReelIds', breakdown.tiers?.map((t) => t.reelId).join(','), result.rankedReelIds?.join(','));
+  }
+
+  // Unstaked session balance rides along in the owner's payout — derived
+  // from the final state, never taken from the result
+  const expectedPayouts = new Map(breakdown.payoutsByPredictor);
+  if (input.finalState) {
+    const { balance, lockedAmount } = input.finalState.state;
+    const unstaked = balance - lockedAmount;
+    const owner = input.finalState.owner.toLowerCase();
+    const refunds = unstaked > 0n ? [{ address: owner, amount: unstaked }] : [];
+    for (const { address, amount } of refunds) {
+      expectedPayouts.set(address, (expectedPayouts.get(address) ?? 0n) + amount);
+    }
+    check('unstakedRefunds', describeRefunds(refunds), describeRefunds(result.unstakedRefunds ?? []), 'balance the session owner never staked');
+  } else if (result.unstakedRefunds?.length) {
+    fields.push({ field: 'unstakedRefunds', ok: false, message: 'unstaked refunds can only be checked against the final state' });
+  }
+
+  const published = new Map(result.payouts.map((p) => [p.address.toLowerCase(), p.amount]));
+  const addresses = new Set([...expectedPayouts.keys(), ...published.keys()]);
+  for (const address of Array.from(addresses).sort()) {
+    check(`payouts[${address}]`, expectedPayouts.get(address) ?? 0n, published.get(address) ?? 0n);
+  }
+
+  // ── creator fees ──
+  let creatorPayouts: CreatorPayout[] = [];
+  try {
+    creatorPayouts = splitCreatorFees(breakdown, result.winnerReelId, reelCreators);
+    check('creatorPayouts', describeCreatorPayouts(creatorPayouts), describeCreatorPayouts(result.creatorPayouts));
+  } catch (err: any) {
+    fields.push({ field: 'creatorPayouts', ok: false, message: err?.message ?? String(err) });
+  }
+
+  // ── payout tree ──
+  const tree = buildPayoutTree(expectedPayouts);
+  check('payoutRoot', tree.root, result.payoutRoot);
+  for (const claim of result.claims) {
+    fields.push({
+      field: `claims[${claim.address.toLowerCase()}]`,
+      ok: verifyPayoutClaim(tree.root, claim),
+      message: `proof for ${claim.amount} under the recomputed root`,
+    });
+  }
+
+  // ── contract message + signatures ──
+  const message: SettlementMessage = {
+    stateHash: result.stateHash as Hex,
+    stateNonce: result.stateNonce,
+    winnerReelId: result.winnerReelId,
+    payoutRoot: tree.root,
+    totalPayout: tree.totalPayout,
+    noWinnerPolicy: breakdown.noWinner ? NO_WINNER_POLICY_CODES[breakdown.noWinner.policy.kind] : NO_WINNER_POLICY_CODES.none,
+    rolloverChallengeId: breakdown.noWinner?.policy.kind === 'rollover' ? breakdown.noWinner.policy.nextChallengeId : '',
+    unclaimedAmount: breakdown.noWinner && breakdown.noWinner.policy.kind !== 'refund' ? breakdown.noWinner.amount : 0n,
+    creators: creatorPayouts.map((c) => c.creator),
+    creatorFees: creatorPayouts.map((c) => c.amount),
+    platformFee: breakdown.platformFee,
+  };
+  const messageHash = settlementMessageHash(message);
+
+  const signers = await Promise.all(
+    result.signatures.map((signature) => recoverOrNull(messageHash, signature as Hex)),
+  );
+  if (params.clearnode) {
+    fields.push({
+      field: 'clearnodeSignature',
+      ok: !!signers[0] && isAddressEqual(signers[0], params.clearnode),
+      expected: params.clearnode,
+      actual: signers[0] ?? 'none',
+      message: 'signatures[0] over the settlement message, as ReelPredict checks it',
+    });
+  }
+  if (params.stateSigner) {
+    const stateSigners = await Promise.all(
+      result.signatures.map((signature) => recoverOrNull(result.stateHash as Hex, signature as Hex)),
+    );
+    const signer = params.stateSigner;
+    fields.push({
+      field: 'stateSignature',
+      ok: stateSigners.some((s) => !!s && isAddressEqual(s, signer)),
+      expected: signer,
+      actual: stateSigners.filter(Boolean).join(',') || 'none',
+      message: 'a signature over the raw stateHash',
+    });
+  }
+
+  return { ok: fields.every((f) => f.ok), fields, breakdown, message, messageHash, signers };
+}
+
+/** Multi-line summary of a verification for logs and the UI. */
+export function formatSettlementVerification(report: SettlementVerification): string {
+  const failed = report.fields.filter((f) => !f.ok);
+  if (failed.length === 0) return `All ${report.fields.length} settlement checks passed`;
+  return [
+    `${failed.length} of ${report.fields.length} settlement check(s) failed:`,
+    ...failed.map((f) =>
+      `  [${f.field}] expected ${f.expected}, got ${f.actual}${f.message ? ` (${f.message})` : ''}`,
+    ),
+  ].join('\n');
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+async function recoverOrNull(hash: Hex, signature: Hex): Promise<Address | null> {
+  try {
+    return await recoverMessageAddress({ message: { raw: hash }, signature });
+  } catch {
+    return null;
+  }
+}
+
+function describeCreatorPayouts(payouts: CreatorPayout[]): string {
+  return payouts.map((c) => `${c.reelId}:${c.creator.toLowerCase()}:${c.amount}`).join(',');
+}
+
+function describeRefunds(refunds: { address: string; amount: bigint }[]): string {
+  return refunds.map((r) => `${r.address.toLowerCase()}:${r.amount}`).sort().join(',');
+}
+
+/** Inputs of every `strategy` resolution in `resolution`, hybrid components included */
+function recordedInputs(resolution: WinnerResolution, strategy: string): Record<string, unknown>[] {
+  if (resolution.strategy === strategy) return [resolution.inputs];
+  if (resolution.strategy !== 'hybrid') return [];
+  const components = (resolution.inputs.components ?? []) as { resolution: WinnerResolution }[];
+  return components.flatMap((c) => recordedInputs(c.resolution, strategy));
+}
+
+function describeNoWinner(outcome?: NoWinnerOutcome): string {
+  if (!outcome) return 'none';
+  const target = outcome.policy.kind === 'rollover' ? `→${outcome.policy.nextChallengeId}` : '';
+  return `${outcome.policy.kind}${target}:${outcome.amount}`;
+}
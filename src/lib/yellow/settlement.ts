@@ -7,15 +7,43 @@
  *   - Platform earns a 2.5% fee
  *   - Remaining pool is distributed proportionally to weighted predictions
  *
+ * Payouts are posted as a Merkle root (see payout-tree.ts); winners claim
+ * their share on-chain with a proof. Creator fees go straight to the paid
+ * reels' creators (`options.reelCreators`) and the platform fee to the
+ * contract's treasury; session balance that was never staked is refunded
+ * through the payout root. A settlement is only *proposed* here —
+ * it becomes final after the contract's dispute window (see dispute-service.ts).
+ *
  * Based on Yellow Network App Sessions settlement flow.
  */
 
 import { ethers } from 'ethers';
+import type { Address, Hex } from 'viem';
 import { getYellowClientSafe, type SessionState, type PredictionState } from './nitrolite-client';
+import { verifyTimestampAttestation } from './timestamp-authority';
+import { hashSessionState } from './state-encoding';
+import {
+  NO_WINNER_POLICY_CODES,
+  splitCreatorFees,
+  type CreatorPayout,
+  type SettlementSubmission,
+} from './settlement-verifier';
+import { buildPayoutTree, getPayoutClaim, type PayoutClaim, type PayoutTree } from './payout-tree';
+import { getChallengeTiming, type ChallengeTimingRules } from '../challenge-timing';
+import { checkPayoutInvariants, formatInvariantReport } from '../payout-invariants';
+import {
+  createDefaultWinnerResolver,
+  type ReelTally,
+  type WinnerResolution,
+  type WinnerResolver,
+} from './winner-resolver';
 import {
   calculateTimeWeightedPayouts,
+  calculateRankedPayouts,
   type TimedPrediction,
   type PayoutBreakdown,
+  type PayoutOptions,
+  type NoWinnerOutcome,
   CREATOR_FEE_BPS,
   PLATFORM_FEE_BPS,
 } from '../payout-algorithm';
@@ -23,7 +51,7 @@ import {
 // Contract ABI for settlement
 const REEL_PREDICT_ABI = [
   {
-    name: 'submitSettlement',
+    name: 'proposeSettlement',
     type: 'function',
     inputs: [
       { name: 'challengeId', type: 'string' },
@@ -32,17 +60,113 @@ const REEL_PREDICT_ABI = [
         type: 'tuple',
         components: [
           { name: 'stateHash', type: 'bytes32' },
+          { name: 'stateNonce', type: 'uint64' },
+          { name: 'signatures', type: 'bytes[]' },
+          { name: 'payoutRoot', type: 'bytes32' },
+          { name: 'totalPayout', type: 'uint256' },
+          { name: 'winnerReelId', type: 'string' },
+          { name: 'noWinnerPolicy', type: 'uint8' },
+          { name: 'rolloverChallengeId', type: 'string' },
+          { name: 'unclaimedAmount', type: 'uint256' },
+          { name: 'creators', type: 'address[]' },
+          { name: 'creatorFees', type: 'uint256[]' },
+          { name: 'platformFee', type: 'uint256' },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'proposeSettlements',
+    type: 'function',
+    inputs: [
+      { name: 'challengeIds', type: 'string[]' },
+      {
+        name: 'settlementData',
+        type: 'tuple[]',
+        components: [
+          { name: 'stateHash', type: 'bytes32' },
+          { name: 'stateNonce', type: 'uint64' },
           { name: 'signatures', type: 'bytes[]' },
-          { name: 'participants', type: 'address[]' },
-          { name: 'payouts', type: 'uint256[]' },
+          { name: 'payoutRoot', type: 'bytes32' },
+          { name: 'totalPayout', type: 'uint256' },
+          { name: 'winnerReelId', type: 'string' },
+          { name: 'noWinnerPolicy', type: 'uint8' },
+          { name: 'rolloverChallengeId', type: 'string' },
+          { name: 'unclaimedAmount', type: 'uint256' },
+          { name: 'creators', type: 'address[]' },
+          { name: 'creatorFees', type: 'uint256[]' },
+          { name: 'platformFee', type: 'uint256' },
+        ],
+      },
+    ],
+    outputs: [{ name: 'proposed', type: 'bool[]' }],
+  },
+  {
+    name: 'SettlementBatchItemFailed',
+    type: 'event',
+    inputs: [
+      { name: 'challengeId', type: 'string', indexed: true },
+      { name: 'reason', type: 'bytes', indexed: false },
+    ],
+  },
+  // Reasons a single proposal in a batch can fail
+  ...[
+    'ChallengeNotFound',
+    'ChallengeNotEnded',
+    'ChallengeAlreadySettled',
+    'SettlementPending',
+    'StaleState',
+    'InvalidSettlementData',
+    'ChannelAlreadySettled',
+    'InvalidSignature',
+    'InvalidRolloverTarget',
+    'StateEquivocated',
+  ].map((name) => ({ name, type: 'error', inputs: [] })),
+  {
+    name: 'getPendingSettlement',
+    type: 'function',
+    inputs: [{ name: 'challengeId', type: 'string' }],
+    outputs: [
+      {
+        type: 'tuple',
+        components: [
+          { name: 'stateHash', type: 'bytes32' },
+          { name: 'stateNonce', type: 'uint64' },
+          { name: 'payoutRoot', type: 'bytes32' },
+          { name: 'totalPayout', type: 'uint256' },
           { name: 'winnerReelId', type: 'string' },
-          { name: 'creatorPayout', type: 'uint256' },
-          { name: 'platformPayout', type: 'uint256' },
+          { name: 'noWinnerPolicy', type: 'uint8' },
+          { name: 'rolloverChallengeId', type: 'string' },
+          { name: 'unclaimedAmount', type: 'uint256' },
+          { name: 'creators', type: 'address[]' },
+          { name: 'creatorFees', type: 'uint256[]' },
+          { name: 'platformFee', type: 'uint256' },
+          { name: 'messageHash', type: 'bytes32' },
+          { name: 'disputeDeadline', type: 'uint256' },
         ],
       },
     ],
+  },
+  {
+    name: 'claim',
+    type: 'function',
+    inputs: [
+      { name: 'challengeId', type: 'string' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'proof', type: 'bytes32[]' },
+    ],
     outputs: [],
   },
+  {
+    name: 'hasClaimed',
+    type: 'function',
+    inputs: [
+      { name: 'challengeId', type: 'string' },
+      { name: 'account', type: 'address' },
+    ],
+    outputs: [{ type: 'bool' }],
+  },
   {
     name: 'getChallenge',
     type: 'function',
@@ -65,83 +189,164 @@ const REEL_PREDICT_ABI = [
   },
 ] as const;
 
-export interface ReelStats {
-  reelId: string;
-  totalPredictions: bigint;
-  totalVotes: number;
-  uniquePredictors: number;
+/** Options for `settleChallenge` on top of the payout options. */
+export interface SettleOptions extends PayoutOptions {
+  /** Podium split (e.g. [6000, 2500, 1500]) to pay the top N reels instead of one winner */
+  podiumSplitBps?: number[];
+  /**
+   * Timestamp authority key (default: the service's, from
+   * TIMESTAMP_AUTHORITY_ADDRESS). When set, only bid times it signed are
+   * used for multipliers (`signedTimePolicy` defaults to 'reject') and a
+   * prediction with no attestation blocks the settlement.
+   */
+  timestampSigner?: Address;
+  /** Blackout / overtime rules; bids after the resulting cutoff are refunded */
+  timing?: ChallengeTimingRules;
+  /** Strategy for picking the winner (defaults to the service's resolver) */
+  winnerResolver?: WinnerResolver;
+  /** Every reel in the challenge, so reels without predictions or votes are ranked too */
+  reelIds?: string[];
+  /** Creator address per reel (reelId → address); required for every reel paid a creator fee */
+  reelCreators?: Record<string, string>;
 }
 
 export interface SettlementResult {
   challengeId: string;
   winnerReelId: string;
+  /** Podium order for ranked settlements (index 0 = winnerReelId) */
+  rankedReelIds?: string[];
+  /** Strategy that picked the winner, its full ranking and the inputs it used */
+  winnerResolution: WinnerResolution;
   totalPool: bigint;
   payouts: { address: string; amount: bigint }[];
+  /** Merkle root posted on-chain; winners claim against it */
+  payoutRoot: string;
+  /** Per-winner claims (amount + proof) under `payoutRoot` */
+  claims: PayoutClaim[];
   creatorPayout: bigint;
+  /** `creatorPayout` split by paid reel, as transferred on finalization */
+  creatorPayouts: CreatorPayout[];
+  /** Sent to the contract's treasury on finalization */
   platformPayout: bigint;
+  /** Set when nobody predicted the winner */
+  noWinner?: NoWinnerOutcome;
+  /** Session balance never staked, refunded to its owner through `payoutRoot` (included in `payouts`) */
+  unstakedRefunds?: { address: string; amount: bigint }[];
+  /** Predictions refunded because their bid time wasn't validly signed or came after the cutoff */
+  rejectedPredictions?: string[];
   transactionHash: string;
   timestamp: number;
   stateHash: string;
+  /** Nonce of the session state behind `stateHash` */
+  stateNonce: number;
+  /** Unix ms after which the proposal can be finalized, unless disputed */
+  disputeDeadline: number;
   signatures: string[];
 }
 
+/** One challenge in a `settleMany` batch — the arguments of `settleChallenge` */
+export interface SettleManyRequest {
+  challengeId: string;
+  winnerReelId: string;
+  contestStart: number;
+  contestEnd: number;
+  options?: SettleOptions;
+}
+
+export interface SettlementFailure {
+  challengeId: string;
+  /** 'prepare' = off-chain (state, payouts, invariants); 'propose' = rejected by the contract */
+  stage: 'prepare' | 'propose';
+  error: string;
+}
+
+export interface SettleManyResult {
+  /** Challenges proposed on-chain, in request order */
+  results: SettlementResult[];
+  failed: SettlementFailure[];
+  /** The batch transaction (undefined if nothing got that far) */
+  transactionHash?: string;
+}
+
+/** Output of `prepareSettlement`: everything needed to submit, JSON-safe apart from bigints */
+export interface PreparedSettlement {
+  challengeId: string;
+  /** Argument for `ReelPredict.proposeSettlement` */
+  settlementData: SettlementSubmission;
+  payoutTree: PayoutTree;
+  /** The result, minus what's only known once the proposal is mined */
+  result: Omit<SettlementResult, 'transactionHash' | 'timestamp' | 'disputeDeadline'>;
+}
+
 export class SettlementService {
   private contractAddress: string;
   private provider: ethers.Provider;
   private signer?: ethers.Signer;
+  private winnerResolver: WinnerResolver;
+  private timestampSigner?: Address;
+  private payoutTrees = new Map<string, PayoutTree>();
 
   constructor(
     contractAddress: string,
     provider: ethers.Provider,
-    signer?: ethers.Signer
+    signer?: ethers.Signer,
+    winnerResolver: WinnerResolver = createDefaultWinnerResolver(),
+    timestampSigner: Address | undefined = (process.env.TIMESTAMP_AUTHORITY_ADDRESS || undefined) as Address | undefined,
   ) {
     this.contractAddress = contractAddress;
     this.provider = provider;
     this.signer = signer;
+    this.winnerResolver = winnerResolver;
+    this.timestampSigner = timestampSigner;
   }
 
   /**
-   * Calculate the winner reel based on predictions and votes.
-   * Uses Yellow Network App Session state.
+   * Rank the challenge's reels with a `WinnerResolver` (the service default
+   * unless one is given). Every reel in `reelIds`, or that received a vote
+   * or prediction, is ranked.
    */
   async calculateWinner(
     challengeId: string,
     predictions: PredictionState[],
-    votes: Map<string, number>
-  ): Promise<ReelStats[]> {
-    const reelStats = new Map<string, ReelStats>();
+    votes: Map<string, number>,
+    reelIds: string[] = [],
+    resolver: WinnerResolver = this.winnerResolver,
+  ): Promise<WinnerResolution> {
+    const tallies = new Map<string, ReelTally>();
+    const reelPredictors = new Map<string, Set<string>>();
+    const tallyFor = (reelId: string): ReelTally => {
+      let tally = tallies.get(reelId);
+      if (!tally) {
+        tally = { reelId, totalStake: 0n, uniquePredictors: 0, votes: votes.get(reelId) ?? 0 };
+        tallies.set(reelId, tally);
+      }
+      return tally;
+    };
+
+    for (const reelId of [...reelIds, ...votes.keys()]) tallyFor(reelId);
 
     for (const prediction of predictions) {
       if (prediction.challengeId !== challengeId) continue;
 
-      const existing = reelStats.get(prediction.reelId) || {
-        reelId: prediction.reelId,
-        totalPredictions: 0n,
-        totalVotes: 0,
-        uniquePredictors: 0,
-      };
-
-      existing.totalPredictions += prediction.amount;
-      existing.uniquePredictors += 1;
-      existing.totalVotes = votes.get(prediction.reelId) || 0;
+      const tally = tallyFor(prediction.reelId);
+      const predictors = reelPredictors.get(prediction.reelId) || new Set<string>();
+      predictors.add(prediction.predictor.toLowerCase());
+      reelPredictors.set(prediction.reelId, predictors);
 
-      reelStats.set(prediction.reelId, existing);
+      tally.totalStake += prediction.amount;
+      tally.uniquePredictors = predictors.size;
     }
 
-    // Sort by weighted score (predictions * 0.7 + votes * 0.3)
-    const sortedReels = Array.from(reelStats.values()).sort((a, b) => {
-      const scoreA = Number(a.totalPredictions) * 0.7 + a.totalVotes * 0.3;
-      const scoreB = Number(b.totalPredictions) * 0.7 + b.totalVotes * 0.3;
-      return scoreB - scoreA;
-    });
-
-    return sortedReels;
+    const resolution = await resolver.resolve({ challengeId, tallies: Array.from(tallies.values()) });
+    console.log(`🏆 Winner (${resolution.strategy}):`, resolution.ranking[0]?.reelId ?? 'none');
+    return resolution;
   }
 
   /**
    * Calculate time-weighted payouts for winning predictions.
    *
-   * Early bidders earn a higher multiplier (up to 5×).
+   * Early bidders earn a higher multiplier (up to 5× by default, or the
+   * challenge's own `MultiplierConfig`).
    * The winning reel's creator receives a 5% fee.
    * The platform receives a 2.5% fee.
    */
@@ -153,34 +358,140 @@ export class SettlementService {
     _sessionParticipants: string[] = [],
     creatorFeeBps: number = CREATOR_FEE_BPS,
     platformFeeBps: number = PLATFORM_FEE_BPS,
+    options: PayoutOptions = {},
   ): PayoutBreakdown {
-    // Convert PredictionState to TimedPrediction
-    const timedPredictions: TimedPrediction[] = predictions.map((p) => ({
-      id: p.id,
-      reelId: p.reelId,
-      amount: p.amount,
-      timestamp: p.timestamp,
-    }));
-
     return calculateTimeWeightedPayouts(
-      timedPredictions,
+      this.toTimedPredictions(predictions),
       winnerReelId,
       contestStart,
       contestEnd,
       creatorFeeBps,
       platformFeeBps,
+      options,
+    );
+  }
+
+  /**
+   * Calculate ranked (podium) payouts: `rankedReelIds[i]` receives
+   * `splitBps[i]` of the distributable pool and of the creator fee.
+   */
+  calculateRankedPayouts(
+    predictions: PredictionState[],
+    rankedReelIds: string[],
+    splitBps: number[],
+    contestStart: number,
+    contestEnd: number,
+    creatorFeeBps: number = CREATOR_FEE_BPS,
+    platformFeeBps: number = PLATFORM_FEE_BPS,
+    options: PayoutOptions = {},
+  ): PayoutBreakdown {
+    return calculateRankedPayouts(
+      this.toTimedPredictions(predictions),
+      rankedReelIds,
+      splitBps,
+      contestStart,
+      contestEnd,
+      creatorFeeBps,
+      platformFeeBps,
+      options,
     );
   }
 
+  /** Convert session predictions into payout-algorithm input. */
+  private toTimedPredictions(predictions: PredictionState[]): TimedPrediction[] {
+    return predictions.map((p) => ({
+      id: p.id,
+      reelId: p.reelId,
+      amount: p.amount,
+      timestamp: p.timestamp,
+      predictor: p.predictor,
+      signedTimestamp: p.attestation?.timestamp,
+    }));
+  }
+
   /**
-   * Request settlement from Yellow Network App Session and submit to smart contract.
+   * Request settlement from Yellow Network App Session and propose it to the
+   * smart contract. It's final only after the dispute window.
+   *
+   * The payout breakdown must pass `checkPayoutInvariants` first; any
+   * violation blocks submission with the full report.
+   *
+   * `options` carries the challenge's multiplier curve, no-winner policy,
+   * podium split (to pay the top N reels instead of a single winner) and
+   * winner strategy.
+   *
+   * One shot — use `SettlementJobRunner` to survive restarts and RPC errors.
    */
   async settleChallenge(
     challengeId: string,
     winnerReelId: string,
     contestStart: number,
     contestEnd: number,
+    options: SettleOptions = {},
   ): Promise<SettlementResult> {
+    const prepared = await this.prepareSettlement(challengeId, winnerReelId, contestStart, contestEnd, options);
+    const txHash = await this.submitPreparedSettlement(prepared);
+    return this.confirmSettlement(prepared, txHash);
+  }
+
+  /**
+   * Settle several challenges — e.g. the daily themed ones that all end
+   * at midnight — with a single `proposeSettlements` transaction.
+   *
+   * Each challenge is prepared independently; one whose state or payouts
+   * fail is reported and left out. The contract then accepts or rejects
+   * each proposal on its own, so one bad challenge never blocks the rest.
+   */
+  async settleMany(requests: SettleManyRequest[]): Promise<SettleManyResult> {
+    const prepared: PreparedSettlement[] = [];
+    const failed: SettlementFailure[] = [];
+
+    for (const { challengeId, winnerReelId, contestStart, contestEnd, options } of requests) {
+      try {
+        prepared.push(await this.prepareSettlement(challengeId, winnerReelId, contestStart, contestEnd, options));
+      } catch (err: any) {
+        failed.push({ challengeId, stage: 'prepare', error: err?.message ?? String(err) });
+      }
+    }
+
+    if (prepared.length === 0) return { results: [], failed };
+
+    const txHash = await this.submitPreparedSettlements(prepared);
+    const batch = await this.confirmSettlementBatch(prepared, txHash);
+    return { ...batch, failed: [...failed, ...batch.failed] };
+  }
+
+  /**
+   * Phase 1: request the final state, pick the winner, compute and check
+   * the payouts, get the Clearnode to countersign the resulting settlement
+   * and build the contract call. Touches nothing on-chain. If anything
+   * fails before the countersignature, the session is reopened.
+   */
+  async prepareSettlement(
+    challengeId: string,
+    winnerReelId: string,
+    contestStart: number,
+    contestEnd: number,
+    options: SettleOptions = {},
+  ): Promise<PreparedSettlement> {
+    try {
+      return await this.prepareFinalState(challengeId, winnerReelId, contestStart, contestEnd, options);
+    } catch (err) {
+      getYellowClientSafe()?.cancelSettlement(challengeId);
+      throw err;
+    }
+  }
+
+  private async prepareFinalState(
+    challengeId: string,
+    winnerReelId: string,
+    contestStart: number,
+    contestEnd: number,
+    options: SettleOptions,
+  ): Promise<PreparedSettlement> {
+    const { podiumSplitBps, timestampSigner = this.timestampSigner, timing, winnerResolver, reelIds, reelCreators, ...payoutOptions } = options;
+    if (timestampSigner) payoutOptions.signedTimePolicy ??= 'reject';
+
     if (!this.signer) {
       throw new Error('Signer required for settlement');
     }
@@ -192,119 +503,404 @@ export class SettlementService {
     const settlement = await client.requestSettlement(challengeId);
     const finalState = settlement.finalState;
 
+    // The hash that gets signed on-chain must commit to exactly this state
+    const sessionId = client.getSession(challengeId)?.sessionId ?? '';
+    if (hashSessionState(finalState, sessionId) !== settlement.stateHash) {
+      throw new Error(`Final state for ${challengeId} does not match its stateHash`);
+    }
+
     // Calculate winner and payouts from final state
-    const predictions = Array.from(finalState.predictions.values());
+    let predictions = Array.from(finalState.predictions.values());
+    if (timestampSigner) {
+      predictions = await this.verifyBidTimes(predictions, timestampSigner);
+    }
+    if (timing) {
+      const stakes = predictions.map((p) => ({ ...p, timestamp: p.attestation?.timestamp ?? p.timestamp }));
+      payoutOptions.closesAt ??= getChallengeTiming(contestEnd, timing, stakes).closesAt;
+    }
     const votes = Array.from(finalState.votes.values());
     const voteCounts = new Map<string, number>();
 
     for (const vote of votes) {
+      if (vote.challengeId !== challengeId) continue;
       const count = voteCounts.get(vote.reelId) || 0;
       voteCounts.set(vote.reelId, count + 1);
     }
 
-    const reelStats = await this.calculateWinner(challengeId, predictions, voteCounts);
-    const winner = reelStats[0]?.reelId || winnerReelId;
+    const winnerResolution = await this.calculateWinner(challengeId, predictions, voteCounts, reelIds, winnerResolver);
+    const ranking = winnerResolution.ranking.map((r) => r.reelId);
+    const winner = ranking[0] || winnerReelId;
 
-    // Get session participants
-    const session = client.getSession();
-    const participants = session?.participants || [];
+    // Ranked podium: winner first, then the next-best reels by score
+    const rankedReelIds = podiumSplitBps
+      ? [winner, ...ranking.filter((id) => id !== winner)]
+      : undefined;
 
     // Calculate time-weighted payouts
-    const payoutBreakdown = this.calculatePayouts(
-      predictions,
-      winner,
-      contestStart,
-      contestEnd,
-      participants,
-    );
+    const timedPredictions = this.toTimedPredictions(predictions);
+    const computePayouts = (timed: TimedPrediction[]): PayoutBreakdown =>
+      rankedReelIds && podiumSplitBps
+        ? calculateRankedPayouts(
+            timed,
+            rankedReelIds,
+            podiumSplitBps,
+            contestStart,
+            contestEnd,
+            CREATOR_FEE_BPS,
+            PLATFORM_FEE_BPS,
+            payoutOptions,
+          )
+        : calculateTimeWeightedPayouts(
+            timed,
+            winner,
+            contestStart,
+            contestEnd,
+            CREATOR_FEE_BPS,
+            PLATFORM_FEE_BPS,
+            payoutOptions,
+          );
+    const payoutBreakdown = computePayouts(timedPredictions);
+
+    // Mis-settlement can't be undone on-chain — prove the breakdown first
+    const report = checkPayoutInvariants(payoutBreakdown, {
+      predictions: timedPredictions,
+      paidReelIds: rankedReelIds && podiumSplitBps ? rankedReelIds.slice(0, podiumSplitBps.length) : [winner],
+      creatorFeeBps: CREATOR_FEE_BPS,
+      platformFeeBps: PLATFORM_FEE_BPS,
+      carriedPool: payoutOptions.carriedPool,
+      recompute: computePayouts,
+    });
+    if (!report.ok) {
+      const details = formatInvariantReport(report);
+      console.error(`🚫 Settlement blocked for ${challengeId}\n${details}`);
+      throw new Error(`Settlement blocked for ${challengeId}: ${details}`);
+    }
 
-    // Convert prediction-id payouts → participant-address payouts
+    // Every predictor is paid their per-address total from the breakdown;
+    // the tree only gets leaves for non-zero payouts
     const participantPayouts = new Map<string, bigint>();
-    for (const [predId, amount] of payoutBreakdown.predictorPayouts) {
-      // Map prediction ID back to participant address
-      const pred = predictions.find((p) => p.id === predId);
-      // In a real system, each prediction would have a `predictor` field.
-      // For now, aggregate under the session owner.
-      const addr = participants[0] || '0x0000000000000000000000000000000000000000';
-      if (pred) {
-        const existing = participantPayouts.get(addr) || 0n;
-        participantPayouts.set(addr, existing + amount);
-      }
+    for (const pred of predictions) {
+      const addr = pred.predictor.toLowerCase();
+      participantPayouts.set(addr, payoutBreakdown.payoutsByPredictor.get(addr) ?? 0n);
+    }
+    // Deposit the owner never staked goes back to them, not to the treasury
+    const owner = client.getSession(challengeId)?.participants[0]?.toLowerCase();
+    const unstaked = finalState.balance - finalState.lockedAmount;
+    const unstakedRefunds = owner && unstaked > 0n ? [{ address: owner, amount: unstaked }] : [];
+    for (const { address, amount } of unstakedRefunds) {
+      participantPayouts.set(address, (participantPayouts.get(address) ?? 0n) + amount);
     }
+    const payoutTree = buildPayoutTree(participantPayouts);
+    const creatorPayouts = splitCreatorFees(payoutBreakdown, winner, reelCreators);
 
-    // Prepare settlement data for smart contract
-    const settlementData = this.prepareSettlementData(
+    // Prepare settlement data for smart contract. The Clearnode signs the
+    // whole message (payout root and fees included), so that can only be
+    // asked for now; its signature must come first for ReelPredict.
+    const unsigned = this.prepareSettlementData(
       settlement.stateHash,
-      settlement.signatures,
-      Array.from(participantPayouts.keys()),
-      participantPayouts,
+      finalState.nonce,
+      [],
+      payoutTree,
       winner,
-      payoutBreakdown.creatorFee,
+      creatorPayouts,
       payoutBreakdown.platformFee,
+      payoutBreakdown.noWinner,
     );
+    const clearnodeSignature = await client.countersignSettlement(challengeId, unsigned);
+    const signatures = [clearnodeSignature, ...settlement.signatures];
+    const settlementData: SettlementSubmission = { ...unsigned, signatures: signatures as Hex[] };
+
+    return {
+      challengeId,
+      settlementData,
+      payoutTree,
+      result: {
+        challengeId,
+        winnerReelId: winner,
+        rankedReelIds: payoutBreakdown.tiers?.map((t) => t.reelId),
+        winnerResolution,
+        totalPool: payoutBreakdown.totalPool,
+        payouts: Array.from(participantPayouts.entries())
+          .filter(([, amount]) => amount > 0n)
+          .map(([address, amount]) => ({ address, amount })),
+        payoutRoot: payoutTree.root,
+        claims: payoutTree.claims,
+        creatorPayout: payoutBreakdown.creatorFee,
+        creatorPayouts,
+        platformPayout: payoutBreakdown.platformFee,
+        noWinner: payoutBreakdown.noWinner,
+        rejectedPredictions: payoutBreakdown.rejectedPredictions,
+        unstakedRefunds,
+        stateHash: settlement.stateHash,
+        stateNonce: finalState.nonce,
+        signatures,
+      },
+    };
+  }
+
+  /**
+   * Phase 2: send the `proposeSettlement` transaction. Returns as soon as
+   * it's broadcast so the hash can be recorded before waiting.
+   */
+  async submitPreparedSettlement(prepared: PreparedSettlement): Promise<string> {
+    if (!this.signer) {
+      throw new Error('Signer required for settlement');
+    }
 
-    // Submit to smart contract
     const contract = new ethers.Contract(
       this.contractAddress,
       REEL_PREDICT_ABI,
       this.signer
     );
 
-    const tx = await contract.submitSettlement(challengeId, settlementData);
-    const receipt = await tx.wait();
+    const tx = await contract.proposeSettlement(prepared.challengeId, prepared.settlementData);
+    console.log(`📤 Settlement submitted for ${prepared.challengeId}:`, tx.hash);
+    return tx.hash;
+  }
+
+  /**
+   * Phase 3: wait for the proposal to be mined and read its dispute
+   * deadline. Safe to call again for the same transaction.
+   */
+  async confirmSettlement(
+    prepared: PreparedSettlement,
+    txHash: string,
+    timeoutMs?: number,
+  ): Promise<SettlementResult> {
+    const receipt = await this.provider.waitForTransaction(txHash, 1, timeoutMs);
+    if (!receipt) throw new Error(`No receipt for settlement tx ${txHash}`);
+    if (receipt.status !== 1) throw new Error(`Settlement tx ${txHash} reverted`);
+
+    const contract = new ethers.Contract(
+      this.contractAddress,
+      REEL_PREDICT_ABI,
+      this.provider
+    );
+
+    const { challengeId, payoutTree } = prepared;
+    this.payoutTrees.set(challengeId, payoutTree);
+    const pending = await contract.getPendingSettlement(challengeId);
+    const disputeDeadline = Number(pending.disputeDeadline) * 1000;
+    console.log(`🌳 Settlement proposed for ${challengeId}:`, payoutTree.root, `(${payoutTree.claims.length} claims, disputable until ${new Date(disputeDeadline).toISOString()})`);
 
     return {
-      challengeId,
-      winnerReelId: winner,
-      totalPool: payoutBreakdown.totalPool,
-      payouts: Array.from(participantPayouts.entries()).map(([address, amount]) => ({
-        address,
-        amount,
-      })),
-      creatorPayout: payoutBreakdown.creatorFee,
-      platformPayout: payoutBreakdown.platformFee,
+      ...prepared.result,
       transactionHash: receipt.hash,
       timestamp: Date.now(),
-      stateHash: settlement.stateHash,
-      signatures: settlement.signatures,
+      disputeDeadline,
     };
   }
 
+  /** Batch form of `submitPreparedSettlement`: one `proposeSettlements` transaction. */
+  async submitPreparedSettlements(prepared: PreparedSettlement[]): Promise<string> {
+    if (!this.signer) {
+      throw new Error('Signer required for settlement');
+    }
+
+    const contract = new ethers.Contract(
+      this.contractAddress,
+      REEL_PREDICT_ABI,
+      this.signer
+    );
+
+    const tx = await contract.proposeSettlements(
+      prepared.map((p) => p.challengeId),
+      prepared.map((p) => p.settlementData),
+    );
+    console.log(`📤 Batch settlement submitted for ${prepared.length} challenge(s):`, tx.hash);
+    return tx.hash;
+  }
+
+  /**
+   * Batch form of `confirmSettlement`: wait for the transaction, then split
+   * the challenges into proposed and rejected using its
+   * `SettlementBatchItemFailed` events.
+   */
+  async confirmSettlementBatch(
+    prepared: PreparedSettlement[],
+    txHash: string,
+    timeoutMs?: number,
+  ): Promise<SettleManyResult> {
+    const receipt = await this.provider.waitForTransaction(txHash, 1, timeoutMs);
+    if (!receipt) throw new Error(`No receipt for settlement tx ${txHash}`);
+    if (receipt.status !== 1) throw new Error(`Batch settlement tx ${txHash} reverted`);
+
+    const contract = new ethers.Contract(
+      this.contractAddress,
+      REEL_PREDICT_ABI,
+      this.provider
+    );
+
+    // `string indexed challengeId` is logged as its keccak256
+    const rejections = new Map<string, string>();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.contractAddress.toLowerCase()) continue;
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name !== 'SettlementBatchItemFailed') continue;
+      rejections.set(parsed.args.challengeId.hash, this.describeRevert(contract.interface, parsed.args.reason));
+    }
+
+    const results: SettlementResult[] = [];
+    const failed: SettlementFailure[] = [];
+    for (const p of prepared) {
+      const rejection = rejections.get(ethers.id(p.challengeId));
+      if (rejection) {
+        console.warn(`⚠️ Settlement rejected for ${p.challengeId}: ${rejection}`);
+        failed.push({ challengeId: p.challengeId, stage: 'propose', error: rejection });
+        continue;
+      }
+
+      this.payoutTrees.set(p.challengeId, p.payoutTree);
+      const pending = await contract.getPendingSettlement(p.challengeId);
+      results.push({
+        ...p.result,
+        transactionHash: receipt.hash,
+        timestamp: Date.now(),
+        disputeDeadline: Number(pending.disputeDeadline) * 1000,
+      });
+    }
+
+    console.log(`🌳 Batch settlement ${receipt.hash}: ${results.length} proposed, ${failed.length} rejected`);
+    return { results, failed, transactionHash: receipt.hash };
+  }
+
+  /** Whether a submitted settlement transaction is still pending, mined, reverted or gone */
+  async getTransactionStatus(txHash: string): Promise<'pending' | 'success' | 'reverted' | 'unknown'> {
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (receipt) return receipt.status === 1 ? 'success' : 'reverted';
+    const tx = await this.provider.getTransaction(txHash);
+    return tx ? 'pending' : 'unknown';
+  }
+
+  /**
+   * Where a challenge stands on-chain: nothing yet, a proposal in its
+   * dispute window, or settled. Lets callers avoid proposing twice.
+   */
+  async getOnChainSettlementState(challengeId: string): Promise<'none' | 'pending' | 'settled'> {
+    const contract = new ethers.Contract(
+      this.contractAddress,
+      REEL_PREDICT_ABI,
+      this.provider
+    );
+
+    const challenge = await contract.getChallenge(challengeId);
+    if (challenge.isSettled) return 'settled';
+    const pending = await contract.getPendingSettlement(challengeId);
+    return pending.disputeDeadline > 0n ? 'pending' : 'none';
+  }
+
+  /** Custom error name for revert data, or the raw data if it isn't one of ours */
+  private describeRevert(iface: ethers.Interface, data: string): string {
+    try {
+      const error = iface.parseError(data);
+      if (!error) return data;
+      return error.name === 'Error' ? String(error.args[0]) : error.name;
+    } catch {
+      return data;
+    }
+  }
+
+  /**
+   * Drop attestations that weren't signed by `trustedSigner` or don't match
+   * their prediction, so only verified bid times reach the payout maths.
+   * Throws if any prediction was never sent to the authority at all.
+   */
+  async verifyBidTimes(predictions: PredictionState[], trustedSigner: Address): Promise<PredictionState[]> {
+    const unsigned = predictions.filter((p) => !p.attestation).map((p) => p.id);
+    if (unsigned.length > 0) {
+      throw new Error(`Predictions without a bid-time attestation from ${trustedSigner}: ${unsigned.join(', ')}`);
+    }
+
+    const verified: PredictionState[] = [];
+    for (const p of predictions) {
+      const valid = p.attestation
+        ? await verifyTimestampAttestation(p.attestation, trustedSigner, {
+            predictionId: p.id,
+            challengeId: p.challengeId,
+            reelId: p.reelId,
+            predictor: p.predictor,
+            amount: p.amount.toString(),
+          })
+        : false;
+
+      if (!valid && p.attestation) {
+        console.warn(`⚠️ Invalid bid-time attestation for ${p.id}`);
+      }
+      verified.push(valid ? p : { ...p, attestation: undefined });
+    }
+    return verified;
+  }
+
   /**
    * Prepare settlement data for smart contract submission.
    */
   private prepareSettlementData(
     stateHash: string,
+    stateNonce: number,
     signatures: string[],
-    participants: string[],
-    payouts: Map<string, bigint>,
+    payoutTree: PayoutTree,
     winnerReelId: string,
-    creatorPayout: bigint,
-    platformPayout: bigint,
-  ) {
-    const participantList: string[] = [];
-    const payoutList: bigint[] = [];
-
-    for (const participant of participants) {
-      participantList.push(participant);
-      payoutList.push(payouts.get(participant) || 0n);
-    }
-
+    creatorPayouts: CreatorPayout[],
+    platformFee: bigint,
+    noWinner?: NoWinnerOutcome,
+  ): SettlementSubmission {
     return {
-      stateHash,
-      signatures,
-      participants: participantList,
-      payouts: payoutList,
+      stateHash: stateHash as Hex,
+      stateNonce,
+      signatures: signatures as Hex[],
+      payoutRoot: payoutTree.root,
+      totalPayout: payoutTree.totalPayout,
       winnerReelId,
-      creatorPayout,
-      platformPayout,
+      noWinnerPolicy: noWinner ? NO_WINNER_POLICY_CODES[noWinner.policy.kind] : NO_WINNER_POLICY_CODES.none,
+      rolloverChallengeId: noWinner?.policy.kind === 'rollover' ? noWinner.policy.nextChallengeId : '',
+      // Refunds are already in `payouts`; only rollover / jackpot leave the challenge unpaid
+      unclaimedAmount: noWinner && noWinner.policy.kind !== 'refund' ? noWinner.amount : 0n,
+      creators: creatorPayouts.map((c) => c.creator),
+      creatorFees: creatorPayouts.map((c) => c.amount),
+      platformFee,
     };
   }
 
+  // ── Claims ─────────────────────────────────────
+
+  /** Payout tree from this service's settlement of a challenge */
+  getPayoutTree(challengeId: string): PayoutTree | undefined {
+    return this.payoutTrees.get(challengeId);
+  }
+
+  /** An address's claim (amount + proof), if it won anything */
+  getPayoutClaim(challengeId: string, address: string): PayoutClaim | undefined {
+    const tree = this.payoutTrees.get(challengeId);
+    return tree ? getPayoutClaim(tree, address) : undefined;
+  }
+
+  /** Whether `address` already claimed its payout for a challenge */
+  async hasClaimed(challengeId: string, address: string): Promise<boolean> {
+    const contract = new ethers.Contract(this.contractAddress, REEL_PREDICT_ABI, this.provider);
+    return contract.hasClaimed(challengeId, address);
+  }
+
+  /**
+   * Claim a payout from the service's signer. The claim must belong to the
+   * signer's address — the contract checks the proof against msg.sender.
+   */
+  async claimWinnings(challengeId: string, claim: PayoutClaim): Promise<string> {
+    if (!this.signer) throw new Error('Signer required to claim');
+
+    const contract = new ethers.Contract(this.contractAddress, REEL_PREDICT_ABI, this.signer);
+    const tx = await contract.claim(challengeId, claim.amount, claim.proof);
+    const receipt = await tx.wait();
+    console.log(`💰 Claimed ${claim.amount} from ${challengeId}`);
+    return receipt.hash;
+  }
+
   /**
-   * Check if a challenge can be settled
+   * Check if a challenge can be settled.
+   *
+   * With `timing` rules, overtime (derived from the session's predictions)
+   * can push the effective end past the on-chain `endTime`.
    */
-  async canSettle(challengeId: string): Promise<boolean> {
+  async canSettle(challengeId: string, timing?: ChallengeTimingRules): Promise<boolean> {
     const contract = new ethers.Contract(
       this.contractAddress,
       REEL_PREDICT_ABI,
@@ -313,11 +909,13 @@ export class SettlementService {
 
     try {
       const challenge = await contract.getChallenge(challengeId);
-      const now = Math.floor(Date.now() / 1000);
+      const predictions = getYellowClientSafe()?.getPredictionsForChallenge(challengeId) ?? [];
+      const stakes = predictions.map((p) => ({ ...p, timestamp: p.attestation?.timestamp ?? p.timestamp }));
+      const { effectiveEndTime } = getChallengeTiming(Number(challenge.endTime) * 1000, timing, stakes);
 
       return (
         !challenge.isSettled &&
-        BigInt(challenge.endTime) <= BigInt(now)
+        effectiveEndTime <= Date.now()
       );
     } catch (error) {
       console.error('Error checking settlement eligibility:', error);
@@ -389,9 +987,11 @@ let settlementNotifierInstance: SettlementNotifier | null = null;
 export function initializeSettlementService(
   contractAddress: string,
   provider: ethers.Provider,
-  signer?: ethers.Signer
+  signer?: ethers.Signer,
+  winnerResolver?: WinnerResolver,
+  timestampSigner?: Address,
 ): SettlementService {
-  settlementServiceInstance = new SettlementService(contractAddress, provider, signer);
+  settlementServiceInstance = new SettlementService(contractAddress, provider, signer, winnerResolver, timestampSigner);
   return settlementServiceInstance;
 }
 
@@ -402,6 +1002,10 @@ export function getSettlementService(): SettlementService {
   return settlementServiceInstance;
 }
 
+export function getSettlementServiceSafe(): SettlementService | null {
+  return settlementServiceInstance;
+}
+
 export function getSettlementNotifier(): SettlementNotifier {
   if (!settlementNotifierInstance) {
     settlementNotifierInstance = new SettlementNotifier();
@@ -0,0 +1,88 @@
+/**
+ * Canonical SessionState encoding
+ *
+ * The stateHash that settlement signs over must be reproducible by anyone
+ * holding the session state — the Clearnode, an auditor, a disputing
+ * user. So the state is ABI-encoded in a fixed layout:
+ *
+ *   abi.encode(
+ *     string  domain,                 // STATE_ENCODING_DOMAIN
+ *     string  sessionId,
+ *     uint256 balance,
+ *     uint256 lockedAmount,
+ *     uint64  nonce,
+ *     Prediction[] predictions,       // sorted by id
+ *     Vote[]  votes                   // sorted by id
+ *   )
+ *
+ *   Prediction = (string id, string challengeId, string reelId, string predictor,
+ *                 uint256 amount, uint64 timestamp, uint64 nonce, bytes bidTimeSignature)
+ *   Vote       = (string id, string challengeId, string reelId, uint64 timestamp)
+ *
+ * Predictors are lower-cased; a prediction without a bid-time attestation
+ * encodes an empty signature.
+ *
+ *   stateHash = keccak256(encoding)
+ */
+
+import type { Hex } from 'viem';
+import { encodeAbiParameters, keccak256, parseAbiParameters } from 'viem';
+import type { SessionState } from './nitrolite-client';
+
+/** Versioned tag so a change of layout can never collide with old hashes */
+export const STATE_ENCODING_DOMAIN = 'rizzz-fun/session-state/v1';
+
+const SESSION_STATE_ABI = parseAbiParameters([
+  'string domain',
+  'string sessionId',
+  'uint256 balance',
+  'uint256 lockedAmount',
+  'uint64 nonce',
+  '(string id, string challengeId, string reelId, string predictor, uint256 amount, uint64 timestamp, uint64 nonce, bytes bidTimeSignature)[] predictions',
+  '(string id, string challengeId, string reelId, uint64 timestamp)[] votes',
+]);
+
+/** ABI-encode a session state in canonical order. */
+export function encodeSessionState(state: SessionState, sessionId: string): Hex {
+  const predictions = Array.from(state.predictions.values())
+    .sort((a, b) => compareIds(a.id, b.id))
+    .map((p) => ({
+      id: p.id,
+      challengeId: p.challengeId,
+      reelId: p.reelId,
+      predictor: p.predictor.toLowerCase(),
+      amount: p.amount,
+      timestamp: BigInt(p.timestamp),
+      nonce: BigInt(p.nonce),
+      bidTimeSignature: p.attestation?.signature ?? ('0x' as Hex),
+    }));
+
+  const votes = Array.from(state.votes.values())
+    .sort((a, b) => compareIds(a.id, b.id))
+    .map((v) => ({
+      id: v.id,
+      challengeId: v.challengeId,
+      reelId: v.reelId,
+      timestamp: BigInt(v.timestamp),
+    }));
+
+  return encodeAbiParameters(SESSION_STATE_ABI, [
+    STATE_ENCODING_DOMAIN,
+    sessionId,
+    state.balance,
+    state.lockedAmount,
+    BigInt(state.nonce),
+    predictions,
+    votes,
+  ]);
+}
+
+/** keccak256 of the canonical encoding — the session's stateHash. */
+export function hashSessionState(state: SessionState, sessionId: string): Hex {
+  return keccak256(encodeSessionState(state, sessionId));
+}
+
+/** Byte-wise (not locale) ordering so every runtime sorts identically. */
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,262 @@
+/**
+ * Signed, append-only SessionState history
+ *
+ * Every client transition (open, predict, update, cancel, vote) appends
+ * one entry to a hash-chained log:
+ *
+ *   entry[n] = { seq: n, prevHash: entry[n-1].stateHash, action, stateHash, recordedAt }
+ *   signature = session key over
+ *     keccak256(abi.encode(domain, sessionId, seq, prevHash, keccak256(action), stateHash, recordedAt))
+ *
+ * The first entry ('open') chains from the zero hash. Replaying the
+ * actions from an empty state must reproduce each entry's stateHash (see
+ * state-encoding.ts), so the log proves exactly how the final state was
+ * reached — nothing inserted, dropped, reordered or edited.
+ *
+ * Actions are JSON-safe (amounts as decimal strings) and hashed in a
+ * canonical form with sorted keys, so a log survives export / import.
+ */
+
+import type { Address, Hex } from 'viem';
+import { encodeAbiParameters, keccak256, parseAbiParameters, recoverMessageAddress, isAddressEqual, toHex, zeroHash } from 'viem';
+import type { SessionState, PredictionState, VoteState } from './nitrolite-client';
+import type { TimestampAttestation } from './timestamp-authority';
+import { hashSessionState } from './state-encoding';
+
+/** Domain tag so history signatures can't be replayed as other signed messages */
+export const STATE_HISTORY_DOMAIN = 'rizzz-fun/state-history/v1';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/** PredictionState with the amount as a decimal string */
+export type SerializedPrediction = Omit<PredictionState, 'amount'> & { amount: string };
+
+export type StateAction =
+  | { type: 'open'; balance: string }
+  | { type: 'predict'; prediction: SerializedPrediction }
+  | { type: 'update'; predictionId: string; amount: string; timestamp: number; attestation?: TimestampAttestation }
+  | { type: 'cancel'; predictionId: string }
+  | { type: 'vote'; vote: VoteState };
+
+export interface StateHistoryEntry {
+  seq: number;
+  /** stateHash before the action (zero hash for the first entry) */
+  prevHash: Hex;
+  action: StateAction;
+  /** stateHash after the action */
+  stateHash: Hex;
+  /** Unix ms when the client recorded the transition */
+  recordedAt: number;
+  /** Session key that signed the entry */
+  signer: Address;
+  signature: Hex;
+}
+
+/** Portable form of a session's log */
+export interface StateHistoryExport {
+  domain: string;
+  sessionId: string;
+  entries: StateHistoryEntry[];
+}
+
+export interface ReplayResult {
+  ok: boolean;
+  /** State after the last valid entry (null if the log is empty or the first entry is bad) */
+  state: SessionState | null;
+  /** Number of entries that verified */
+  verified: number;
+  /** Why replay stopped, when `ok` is false */
+  error?: string;
+  /** seq of the entry that failed */
+  failedAt?: number;
+}
+
+// ────────────────────────────────────────────────
+// Digest
+// ────────────────────────────────────────────────
+
+/** Hash the session key signs for an entry. */
+export function hashHistoryEntry(
+  sessionId: string,
+  entry: Pick<StateHistoryEntry, 'seq' | 'prevHash' | 'action' | 'stateHash' | 'recordedAt'>,
+): Hex {
+  return keccak256(encodeAbiParameters(
+    parseAbiParameters('string, string, uint64, bytes32, bytes32, bytes32, uint64'),
+    [
+      STATE_HISTORY_DOMAIN,
+      sessionId,
+      BigInt(entry.seq),
+      entry.prevHash,
+      keccak256(toHex(canonicalJson(entry.action))),
+      entry.stateHash,
+      BigInt(entry.recordedAt),
+    ],
+  ));
+}
+
+// ────────────────────────────────────────────────
+// Transitions
+// ────────────────────────────────────────────────
+
+/**
+ * Apply one action to a state, the same way the client does. Returns a
+ * new state; throws if the action doesn't fit (e.g. unknown prediction).
+ */
+export function applyStateAction(state: SessionState | null, action: StateAction, sessionId: string): SessionState {
+  if (action.type === 'open') {
+    if (state) throw new Error('Session already open');
+    return withHash({
+      balance: BigInt(action.balance),
+      lockedAmount: 0n,
+      predictions: new Map(),
+      votes: new Map(),
+      nonce: 0,
+      stateHash: '',
+    }, sessionId);
+  }
+
+  if (!state) throw new Error(`'${action.type}' before the session was opened`);
+  const next: SessionState = {
+    ...state,
+    predictions: new Map(Array.from(state.predictions, ([id, p]) => [id, { ...p }])),
+    votes: new Map(state.votes),
+  };
+
+  switch (action.type) {
+    case 'predict': {
+      const prediction = { ...action.prediction, amount: BigInt(action.prediction.amount) };
+      if (next.predictions.has(prediction.id)) throw new Error(`Duplicate prediction ${prediction.id}`);
+      next.nonce++;
+      next.predictions.set(prediction.id, prediction);
+      next.lockedAmount += prediction.amount;
+      break;
+    }
+    case 'update': {
+      const p = next.predictions.get(action.predictionId);
+      if (!p) throw new Error(`Update of unknown prediction ${action.predictionId}`);
+      const amount = BigInt(action.amount);
+      next.lockedAmount += amount - p.amount;
+      p.amount = amount;
+      p.nonce = ++next.nonce;
+      p.timestamp = action.timestamp;
+      if (action.attestation) p.attestation = action.attestation;
+      break;
+    }
+    case 'cancel': {
+      const p = next.predictions.get(action.predictionId);
+      if (!p) throw new Error(`Cancel of unknown prediction ${action.predictionId}`);
+      next.lockedAmount -= p.amount;
+      next.predictions.delete(action.predictionId);
+      next.nonce++;
+      break;
+    }
+    case 'vote': {
+      next.votes.set(action.vote.id, action.vote);
+      next.nonce++;
+      break;
+    }
+  }
+
+  if (next.lockedAmount < 0n || next.lockedAmount > next.balance) {
+    throw new Error(`Locked amount ${next.lockedAmount} out of range`);
+  }
+  return withHash(next, sessionId);
+}
+
+/** JSON-safe snapshot of a prediction for the log. */
+export function serializePrediction(p: PredictionState): SerializedPrediction {
+  return { ...p, amount: p.amount.toString() };
+}
+
+// ────────────────────────────────────────────────
+// Replay + verification
+// ────────────────────────────────────────────────
+
+/**
+ * Replay a log from scratch, checking the hash chain, every signature and
+ * every stateHash. All entries must be signed by the same session key
+ * (`expectedSigner`, if given). Never throws.
+ */
+export async function replayStateHistory(
+  sessionId: string,
+  entries: StateHistoryEntry[],
+  expectedSigner?: Address,
+): Promise<ReplayResult> {
+  let state: SessionState | null = null;
+  let prevHash: Hex = zeroHash;
+  const signer = expectedSigner ?? entries[0]?.signer;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const fail = (error: string): ReplayResult => ({ ok: false, state, verified: i, error, failedAt: entry.seq });
+
+    if (entry.seq !== i) return fail(`Expected seq ${i}, got ${entry.seq}`);
+    if (entry.prevHash !== prevHash) return fail(`prevHash ${entry.prevHash} does not chain from ${prevHash}`);
+
+    try {
+      const recovered = await recoverMessageAddress({
+        message: { raw: hashHistoryEntry(sessionId, entry) },
+        signature: entry.signature,
+      });
+      if (!signer || !isAddressEqual(recovered, signer) || !isAddressEqual(entry.signer, signer)) {
+        return fail(`Signed by ${recovered}, expected ${signer}`);
+      }
+    } catch (err: any) {
+      return fail(`Bad signature: ${err?.message ?? err}`);
+    }
+
+    let next: SessionState;
+    try {
+      next = applyStateAction(state, entry.action, sessionId);
+    } catch (err: any) {
+      return fail(err?.message ?? String(err));
+    }
+    if (next.stateHash !== entry.stateHash) {
+      return fail(`Replayed stateHash ${next.stateHash} ≠ recorded ${entry.stateHash}`);
+    }
+
+    state = next;
+    prevHash = entry.stateHash;
+  }
+
+  return { ok: true, state, verified: entries.length };
+}
+
+/** Serialize a session's log for download / hand-off. */
+export function exportStateHistory(sessionId: string, entries: StateHistoryEntry[]): string {
+  const data: StateHistoryExport = { domain: STATE_HISTORY_DOMAIN, sessionId, entries };
+  return JSON.stringify(data, null, 2);
+}
+
+/** Parse an exported log. Throws if it isn't one. */
+export function parseStateHistory(json: string): StateHistoryExport {
+  const data = JSON.parse(json);
+  if (data?.domain !== STATE_HISTORY_DOMAIN || typeof data.sessionId !== 'string' || !Array.isArray(data.entries)) {
+    throw new Error('Not a state history export');
+  }
+  return data as StateHistoryExport;
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+function withHash(state: SessionState, sessionId: string): SessionState {
+  state.stateHash = hashSessionState(state, sessionId);
+  return state;
+}
+
+/** JSON with object keys sorted at every level; undefined fields dropped. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,168 @@
+/**
+ * Timestamp Authority for prediction bid times
+ *
+ * The time-weighted multiplier depends on *when* a prediction was placed,
+ * so the browser's `Date.now()` can't be trusted — shifting the clock back
+ * would earn the 5× early-bird multiplier.
+ *
+ * Instead, every prediction's time is countersigned by an authority (the
+ * backend, or a local Clearnode stand-in in development):
+ *
+ *   1. Client sends a TimestampClaim {predictionId, challengeId, reelId, predictor, amount}
+ *   2. Authority stamps it with ITS clock and signs
+ *        keccak256(abi.encode(domain, predictionId, challengeId, reelId, predictor, amount, timestamp))
+ *   3. Settlement recovers the signer and only trusts attested times
+ *
+ * The amount is part of the digest so an early attestation can't be
+ * reused for a bigger stake later.
+ */
+
+import type { Address, Hex } from 'viem';
+import { keccak256, encodeAbiParameters, parseAbiParameters, recoverMessageAddress, isAddressEqual } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+/** Domain tag so attestations can't be replayed as other signed messages */
+const ATTESTATION_DOMAIN = 'rizzz-fun/bid-time/v1';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/** What the client asks the authority to timestamp */
+export interface TimestampClaim {
+  predictionId: string;
+  challengeId: string;
+  reelId: string;
+  predictor: string;
+  /** Stake in raw units, as a decimal string (JSON-safe) */
+  amount: string;
+}
+
+export interface TimestampAttestation extends TimestampClaim {
+  /** Unix ms timestamp from the authority's clock */
+  timestamp: number;
+  /** Address of the authority key */
+  signer: Address;
+  signature: Hex;
+}
+
+export interface TimestampAuthority {
+  attest(claim: TimestampClaim): Promise<TimestampAttestation>;
+}
+
+// ────────────────────────────────────────────────
+// Digest + verification
+// ────────────────────────────────────────────────
+
+/** Hash signed by the authority for a claim stamped at `timestamp`. */
+export function hashTimestampClaim(claim: TimestampClaim, timestamp: number): Hex {
+  return keccak256(encodeAbiParameters(
+    parseAbiParameters('string, string, string, string, string, uint256, uint64'),
+    [
+      ATTESTATION_DOMAIN,
+      claim.predictionId,
+      claim.challengeId,
+      claim.reelId,
+      claim.predictor.toLowerCase(),
+      BigInt(claim.amount),
+      BigInt(timestamp),
+    ],
+  ));
+}
+
+/**
+ * Check an attestation was signed by `trustedSigner` and covers exactly
+ * the given prediction fields. Returns false (never throws) on any mismatch.
+ */
+export async function verifyTimestampAttestation(
+  attestation: TimestampAttestation,
+  trustedSigner: Address,
+  expected?: Partial<TimestampClaim>,
+): Promise<boolean> {
+  try {
+    if (expected) {
+      for (const [key, value] of Object.entries(expected)) {
+        if (value === undefined) continue;
+        const actual = attestation[key as keyof TimestampClaim];
+        const same = key === 'predictor'
+          ? actual.toLowerCase() === value.toLowerCase()
+          : actual === value;
+        if (!same) return false;
+      }
+    }
+
+    const digest = hashTimestampClaim(attestation, attestation.timestamp);
+    const recovered = await recoverMessageAddress({
+      message: { raw: digest },
+      signature: attestation.signature,
+    });
+    return isAddressEqual(recovered, trustedSigner);
+  } catch {
+    return false;
+  }
+}
+
+// ────────────────────────────────────────────────
+// Implementations
+// ────────────────────────────────────────────────
+
+/**
+ * In-process authority holding its own key — the Clearnode stand-in for
+ * development and local demos. Uses its own clock, not the caller's.
+ */
+export class LocalTimestampAuthority implements TimestampAuthority {
+  private account: ReturnType<typeof privateKeyToAccount>;
+  private clock: () => number;
+
+  constructor(privateKey: Hex, clock: () => number = Date.now) {
+    this.account = privateKeyToAccount(privateKey);
+    this.clock = clock;
+  }
+
+  get address(): Address {
+    return this.account.address;
+  }
+
+  async attest(claim: TimestampClaim): Promise<TimestampAttestation> {
+    const timestamp = this.clock();
+    const signature = await this.account.signMessage({
+      message: { raw: hashTimestampClaim(claim, timestamp) },
+    });
+    return { ...claim, timestamp, signer: this.account.address, signature };
+  }
+}
+
+/**
+ * Authority reached over HTTP: POSTs the claim as JSON and expects a
+ * `TimestampAttestation` back.
+ */
+export class HttpTimestampAuthority implements TimestampAuthority {
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number = 5000) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async attest(claim: TimestampClaim): Promise<TimestampAttestation> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const res = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(claim),
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        throw new Error(`Timestamp authority responded ${res.status}`);
+      }
+      const data = await res.json();
+      return { ...claim, timestamp: Number(data.timestamp), signer: data.signer, signature: data.signature };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Winner resolution strategies for settlement
+ *
+ * Different challenge themes need different fairness rules — a dance-off
+ * might be judged, a meme contest decided by views, a quick demo by
+ * community votes. Each `WinnerResolver` ranks every reel in the
+ * challenge (including reels nobody predicted on) from the same tallies:
+ *
+ *   VotesOnlyResolver      score = votes
+ *   StakeWeightedResolver  score = stake on the reel
+ *   JudgePanelResolver     score = mean of signed judge scorecards (quorum required)
+ *   OracleResolver         score = external metric (views, likes, …)
+ *   HybridResolver         score = Σ weight × normalised component score
+ *
+ * Raw scores from different sources (wei vs vote counts vs views) are
+ * never mixed: the hybrid normalises each component to shares summing
+ * to 1 before weighting.
+ *
+ * Ties are broken by reel ID so every node picks the same winner.
+ *
+ * `replayWinnerResolution` re-runs a recorded resolution from its `inputs`
+ * alone, so a verifier can check the ranking without the settler's
+ * resolver (judge signatures are checked again; oracle values are taken
+ * as recorded).
+ */
+
+import type { Address, Hex } from 'viem';
+import { verifyMessage } from 'viem';
+
+// ────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────
+
+/** Per-reel tallies from the session's final state */
+export interface ReelTally {
+  reelId: string;
+  totalStake: bigint;
+  uniquePredictors: number;
+  votes: number;
+}
+
+export interface WinnerInput {
+  challengeId: string;
+  /** One entry per reel in the challenge, zeros for reels with no activity */
+  tallies: ReelTally[];
+}
+
+export interface RankedReel {
+  reelId: string;
+  score: number;
+}
+
+export interface WinnerResolution {
+  /** Strategy name, e.g. 'votes-only' or 'hybrid' */
+  strategy: string;
+  /** Best first */
+  ranking: RankedReel[];
+  /** What the strategy looked at — JSON-safe, recorded with the settlement */
+  inputs: Record<string, unknown>;
+}
+
+export interface WinnerResolver {
+  readonly name: string;
+  resolve(input: WinnerInput): Promise<WinnerResolution>;
+}
+
+// ────────────────────────────────────────────────
+// Built-in strategies
+// ────────────────────────────────────────────────
+
+/** Community vote count decides. */
+export class VotesOnlyResolver implements WinnerResolver {
+  readonly name = 'votes-only';
+
+  async resolve(input: WinnerInput): Promise<WinnerResolution> {
+    const votes = Object.fromEntries(input.tallies.map((t) => [t.reelId, t.votes]));
+    return {
+      strategy: this.name,
+      ranking: rank(input.tallies.map((t) => ({ reelId: t.reelId, score: t.votes }))),
+      inputs: { votes },
+    };
+  }
+}
+
+/** The reel with the most money on it wins (share of the total stake). */
+export class StakeWeightedResolver implements WinnerResolver {
+  readonly name = 'stake-weighted';
+
+  async resolve(input: WinnerInput): Promise<WinnerResolution> {
+    const total = input.tallies.reduce((sum, t) => sum + t.totalStake, 0n);
+    const stakes = Object.fromEntries(input.tallies.map((t) => [t.reelId, t.totalStake.toString()]));
+    return {
+      strategy: this.name,
+      ranking: rank(input.tallies.map((t) => ({ reelId: t.reelId, score: shareOf(t.totalStake, total) }))),
+      inputs: { stakes },
+    };
+  }
+}
+
+/** A judge's signed scores for every reel in a challenge */
+export interface JudgeScorecard {
+  judge: Address;
+  /** reelId → score */
+  scores: Record<string, number>;
+  /** personal_sign over `judgeScorecardMessage(challengeId, scores)` */
+  signature: Hex;
+}
+
+/** Canonical text a judge signs for their scorecard. */
+export function judgeScorecardMessage(challengeId: string, scores: Record<string, number>): string {
+  const lines = Object.keys(scores).sort().map((reelId) => `${reelId}:${scores[reelId]}`);
+  return ['rizzz-fun/judge-scores/v1', challengeId, ...lines].join('\n');
+}
+
+/**
+ * Panel of known judges. Only scorecards signed by a panel member count
+ * (one per judge); resolution fails unless `quorum` judges took part.
+ */
+export class JudgePanelResolver implements WinnerResolver {
+  readonly name = 'judge-panel';
+  private judges: Address[];
+  private scorecards: JudgeScorecard[];
+  private quorum: number;
+
+  constructor(judges: Address[], scorecards: JudgeScorecard[], quorum: number = Math.ceil(judges.length / 2)) {
+    this.judges = judges;
+    this.scorecards = scorecards;
+    this.quorum = quorum;
+  }
+
+  async resolve(input: WinnerInput): Promise<WinnerResolution> {
+    const panel = new Set(this.judges.map((j) => j.toLowerCase()));
+    const accepted = new Map<string, JudgeScorecard>();
+
+    for (const card of this.scorecards) {
+      const judge = card.judge.toLowerCase();
+      if (!panel.has(judge) || accepted.has(judge)) continue;
+      const valid = await verifyMessage({
+        address: card.judge,
+        message: judgeScorecardMessage(input.challengeId, card.scores),
+        signature: card.signature,
+      }).catch(() => false);
+      if (valid) accepted.set(judge, card);
+    }
+
+    if (accepted.size < this.quorum) {
+      throw new Error(`Judge quorum not met: ${accepted.size}/${this.quorum} valid scorecards`);
+    }
+
+    const cards = Array.from(accepted.values());
+    const ranking = rank(input.tallies.map((t) => ({
+      reelId: t.reelId,
+      score: cards.reduce((sum, c) => sum + (c.scores[t.reelId] ?? 0), 0) / cards.length,
+    })));
+
+    return {
+      strategy: this.name,
+      ranking,
+      inputs: {
+        quorum: this.quorum,
+        judges: this.judges,
+        scorecards: cards.map((c) => ({ judge: c.judge, scores: c.scores, signature: c.signature })),
+      },
+    };
+  }
+}
+
+/** Source of an external per-reel metric (views, likes, watch time, …) */
+export interface MetricOracle {
+  /** Metric name recorded with the settlement */
+  readonly metric: string;
+  fetchMetrics(challengeId: string, reelIds: string[]): Promise<Record<string, number>>;
+}
+
+/**
+ * Oracle reached over HTTP: POSTs `{ challengeId, reelIds }` and expects
+ * `{ metrics: { [reelId]: number } }` back.
+ */
+export class HttpMetricOracle implements MetricOracle {
+  readonly metric: string;
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, metric: string, timeoutMs: number = 10000) {
+    this.url = url;
+    this.metric = metric;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async fetchMetrics(challengeId: string, reelIds: string[]): Promise<Record<string, number>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const res = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challengeId, reelIds }),
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        throw new Error(`Metric oracle responded ${res.status}`);
+      }
+      const data = await res.json();
+      return data.metrics ?? {};
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** Highest external metric wins; reels the oracle doesn't report score 0. */
+export class OracleResolver implements WinnerResolver {
+  readonly name = 'oracle';
+  private oracle: MetricOracle;
+
+  constructor(oracle: MetricOracle) {
+    this.oracle = oracle;
+  }
+
+  async resolve(input: WinnerInput): Promise<WinnerResolution> {
+    const reelIds = input.tallies.map((t) => t.reelId);
+    const metrics = await this.oracle.fetchMetrics(input.challengeId, reelIds);
+    const values = Object.fromEntries(reelIds.map((id) => {
+      const value = Number(metrics[id] ?? 0);
+      return [id, Number.isFinite(value) ? value : 0];
+    }));
+
+    return {
+      strategy: this.name,
+      ranking: rank(reelIds.map((reelId) => ({ reelId, score: values[reelId] }))),
+      inputs: { metric: this.oracle.metric, values },
+    };
+  }
+}
+
+/**
+ * Weighted blend of other strategies. Each component's scores are
+ * normalised to shares (summing to 1) first, so a stake measured in wei
+ * and a handful of votes contribute on the same scale.
+ */
+export class HybridResolver implements WinnerResolver {
+  readonly name = 'hybrid';
+  private components: { resolver: WinnerResolver; weight: number }[];
+
+  constructor(components: { resolver: WinnerResolver; weight: number }[]) {
+    if (components.length === 0 || components.some((c) => !(c.weight >= 0))) {
+      throw new Error('Hybrid resolver needs components with non-negative weights');
+    }
+    this.components = components;
+  }
+
+  async resolve(input: WinnerInput): Promise<WinnerResolution> {
+    const scores = new Map(input.tallies.map((t) => [t.reelId, 0]));
+    const components: { weight: number; resolution: WinnerResolution }[] = [];
+
+    for (const { resolver, weight } of this.components) {
+      const resolution = await resolver.resolve(input);
+      const total = resolution.ranking.reduce((sum, r) => sum + Math.max(0, r.score), 0);
+      for (const r of resolution.ranking) {
+        const normalised = total > 0 ? Math.max(0, r.score) / total : 0;
+        scores.set(r.reelId, (scores.get(r.reelId) ?? 0) + weight * normalised);
+      }
+      components.push({ weight, resolution });
+    }
+
+    return {
+      strategy: this.name,
+      ranking: rank(Array.from(scores, ([reelId, score]) => ({ reelId, score }))),
+      inputs: { components },
+    };
+  }
+}
+
+/** 70% stake share + 30% vote share — the original settlement rule, on a common scale. */
+export function createDefaultWinnerResolver(): WinnerResolver {
+  return new HybridResolver([
+    { resolver: new StakeWeightedResolver(), weight: 0.7 },
+    { resolver: new VotesOnlyResolver(), weight: 0.3 },
+  ]);
+}
+
+// ────────────────────────────────────────────────
+// Replay
+// ────────────────────────────────────────────────
+
+/**
+ * Re-run a recorded resolution from its `inputs`, ranking the same reels.
+ * Throws if the strategy is unknown or its inputs are malformed.
+ */
+export async function replayWinnerResolution(challengeId: string, recorded: WinnerResolution): Promise<WinnerResolution> {
+  const tallies = recorded.ranking.map((r) => ({ reelId: r.reelId, totalStake: 0n, uniquePredictors: 0, votes: 0 }));
+  return recordedResolver(recorded).resolve({ challengeId, tallies });
+}
+
+/** A resolver that reproduces `recorded` from its inputs */
+function recordedResolver(recorded: WinnerResolution): WinnerResolver {
+  const inputs = recorded.inputs as any;
+  switch (recorded.strategy) {
+    case 'votes-only':
+      return withTallies(new VotesOnlyResolver(), (t) => ({ ...t, votes: Number(inputs.votes?.[t.reelId] ?? 0) }));
+    case 'stake-weighted':
+      return withTallies(new StakeWeightedResolver(), (t) => ({ ...t, totalStake: BigInt(inputs.stakes?.[t.reelId] ?? 0) }));
+    case 'judge-panel':
+      return new JudgePanelResolver(inputs.judges ?? [], inputs.scorecards ?? [], Number(inputs.quorum));
+    case 'oracle':
+      return new OracleResolver({ metric: inputs.metric, fetchMetrics: async () => inputs.values ?? {} });
+    case 'hybrid':
+      return new HybridResolver((inputs.components ?? []).map((c: { weight: number; resolution: WinnerResolution }) => ({
+        weight: c.weight,
+        resolver: recordedResolver(c.resolution),
+      })));
+    default:
+      throw new Error(`Cannot replay winner strategy '${recorded.strategy}'`);
+  }
+}
+
+/** Run `resolver` on tallies rewritten by `patch` */
+function withTallies(resolver: WinnerResolver, patch: (tally: ReelTally) => ReelTally): WinnerResolver {
+  return {
+    name: resolver.name,
+    resolve: (input) => resolver.resolve({ ...input, tallies: input.tallies.map(patch) }),
+  };
+}
+
+// ────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────
+
+/** Best score first; equal scores ordered by reel ID. */
+function rank(entries: RankedReel[]): RankedReel[] {
+  return [...entries].sort((a, b) =>
+    b.score - a.score || (a.reelId < b.reelId ? -1 : a.reelId > b.reelId ? 1 : 0),
+  );
+}
+
+/** `part / total` as a float, without overflowing Number on wei amounts. */
+function shareOf(part: bigint, total: bigint): number {
+  if (total <= 0n) return 0;
+  return Number((part * 1_000_000_000n) / total) / 1_000_000_000;
+}
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { MultiplierConfig, NoWinnerPolicy, StakeLimits, StakeWeighting } from '@/lib/payout-algorithm';
+import type { ChallengeTimingRules } from '@/lib/challenge-timing';
 
 // Types
 export interface Reel {
@@ -12,6 +14,8 @@ export interface Reel {
   title: string;
   votes: number;
   predictionPool: bigint;
+  /** Sum of time-weighted stakes on this reel, when known — makes payout quotes exact */
+  predictionWeight?: bigint;
   createdAt: number;
 }
 
@@ -28,6 +32,22 @@ export interface Challenge {
   participantCount: number;
   status: 'upcoming' | 'active' | 'voting' | 'settled';
   winnerReelId?: string;
+  /** Multiplier curve + range for this challenge (defaults to quadratic 5× → 1×) */
+  multiplier?: MultiplierConfig;
+  /** Podium split in basis points (e.g. [6000, 2500, 1500]); omit for winner-takes-all */
+  podiumSplitBps?: number[];
+  /** What happens to the pool if nobody predicted the winner (defaults to refund) */
+  noWinnerPolicy?: NoWinnerPolicy;
+  /** Pool carried in from a previous challenge's rollover or the jackpot */
+  carriedPool?: bigint;
+  /** Anti-sniping blackout / overtime rules */
+  timing?: ChallengeTimingRules;
+  /** endTime after overtime extensions, once known (defaults to endTime) */
+  effectiveEndTime?: number;
+  /** Whale dampening: per-address stake caps */
+  stakeLimits?: StakeLimits;
+  /** 'sqrt' for concave stake weighting (defaults to linear) */
+  stakeWeighting?: StakeWeighting;
 }
 
 export interface UserPrediction {
@@ -0,0 +1,175 @@
+// The root tsconfig leaves out hardhat.config.ts, so pull in the toolbox's
+// `ethers` and chai-matcher typings here
+import type {} from '@nomicfoundation/hardhat-toolbox';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import type { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers';
+import type { Address, Hex } from 'viem';
+import { encodePacked, keccak256 } from 'viem';
+import { buildPayoutTree, getPayoutClaim } from '../src/lib/yellow/payout-tree';
+import { settlementMessageHash, type SettlementMessage } from '../src/lib/yellow/settlement-verifier';
+
+const USDC = 1_000_000n;
+const CHALLENGE = 'challenge_001';
+const STATE_A = keccak256(encodePacked(['string'], ['state-a']));
+const STATE_B = keccak256(encodePacked(['string'], ['state-b']));
+
+describe('ReelPredict', () => {
+  let clearnode: HardhatEthersSigner;
+  let treasury: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let usdc: any;
+  let market: any;
+  let endTime: number;
+
+  beforeEach(async () => {
+    [, clearnode, treasury, creator, alice, bob] = await ethers.getSigners();
+    usdc = await ethers.deployContract('TestUSDC');
+    market = await ethers.deployContract('ReelPredict', [await usdc.getAddress(), clearnode.address]);
+    await market.setTreasury(treasury.address);
+
+    const now = await time.latest();
+    endTime = now + 3600;
+    await market.createChallenge(CHALLENGE, 'Best Dance Move', now, endTime);
+
+    for (const user of [alice, bob]) {
+      await usdc.mint(user.address, 10n * USDC);
+      await usdc.connect(user).approve(await market.getAddress(), 10n * USDC);
+      await market.connect(user).deposit(10n * USDC, CHALLENGE, ethers.ZeroHash);
+    }
+  });
+
+  /** A settlement of the 20 USDC pool, signed by the clearnode */
+  async function signedSettlement(stateHash: Hex, stateNonce: number, payouts: [string, bigint][], overrides: Partial<SettlementMessage> = {}) {
+    const tree = buildPayoutTree(new Map(payouts));
+    const message: SettlementMessage = {
+      stateHash,
+      stateNonce,
+      winnerReelId: 'reel_1',
+      payoutRoot: tree.root,
+      totalPayout: tree.totalPayout,
+      noWinnerPolicy: 0,
+      rolloverChallengeId: '',
+      unclaimedAmount: 0n,
+      creators: [creator.address as Address],
+      creatorFees: [2n * USDC],
+      platformFee: 1n * USDC,
+      ...overrides,
+    };
+    const signature = await clearnode.signMessage(ethers.getBytes(settlementMessageHash(message)));
+    return { tree, data: { ...message, signatures: [signature] } };
+  }
+
+  it('proposes, survives a later-state dispute, finalizes and pays claims', async () => {
+    await time.increaseTo(endTime);
+
+    // A stale proposal is knocked out by a newer clearnode-signed state
+    const stale = await signedSettlement(STATE_A, 5, [[alice.address, 17n * USDC]]);
+    await expect(market.proposeSettlement(CHALLENGE, stale.data)).to.emit(market, 'SettlementProposed');
+
+    const later = keccak256(encodePacked(['string', 'bytes32', 'uint64'], [CHALLENGE, STATE_B, 6n]));
+    const laterSignature = await clearnode.signMessage(ethers.getBytes(later));
+    await expect(market.connect(bob).disputeWithLaterState(CHALLENGE, STATE_B, 6, laterSignature))
+      .to.emit(market, 'SettlementDisputed');
+    await expect(market.proposeSettlement(CHALLENGE, stale.data)).to.be.revertedWithCustomError(market, 'StaleState');
+
+    // The current state goes through once the window has passed
+    const { tree, data } = await signedSettlement(STATE_B, 6, [[alice.address, 12n * USDC], [bob.address, 5n * USDC]]);
+    await market.proposeSettlement(CHALLENGE, data);
+    await expect(market.finalizeSettlement(CHALLENGE)).to.be.revertedWithCustomError(market, 'DisputeWindowOpen');
+    await time.increase(24 * 60 * 60);
+    await market.finalizeSettlement(CHALLENGE);
+
+    expect(await usdc.balanceOf(treasury.address)).to.equal(1n * USDC);
+    expect(await usdc.balanceOf(creator.address)).to.equal(2n * USDC);
+
+    for (const user of [alice, bob]) {
+      const claim = getPayoutClaim(tree, user.address)!;
+      await market.connect(user).claim(CHALLENGE, claim.amount, claim.proof);
+    }
+    expect(await usdc.balanceOf(alice.address)).to.equal(12n * USDC);
+    expect(await usdc.balanceOf(bob.address)).to.equal(5n * USDC);
+    expect(await usdc.balanceOf(await market.getAddress())).to.equal(0n);
+
+    const claim = getPayoutClaim(tree, alice.address)!;
+    await expect(market.connect(alice).claim(CHALLENGE, claim.amount, claim.proof))
+      .to.be.revertedWithCustomError(market, 'AlreadyClaimed');
+  });
+
+  it('burns an equivocated state so only a later one can be proposed', async () => {
+    await time.increaseTo(endTime);
+    const payouts: [string, bigint][] = [[alice.address, 17n * USDC]];
+    const wrong = await signedSettlement(STATE_A, 5, payouts, { winnerReelId: 'reel_2' });
+    const right = await signedSettlement(STATE_A, 5, payouts);
+
+    await market.proposeSettlement(CHALLENGE, wrong.data);
+    await expect(market.connect(alice).disputeWithFraudProof(CHALLENGE, right.data))
+      .to.emit(market, 'SettlementDisputed');
+
+    // Neither settlement of the equivocated state comes back to be disputed again
+    for (const replay of [wrong, right]) {
+      await expect(market.proposeSettlement(CHALLENGE, replay.data)).to.be.revertedWithCustomError(market, 'StateEquivocated');
+    }
+    const later = await signedSettlement(STATE_B, 6, payouts);
+    await expect(market.proposeSettlement(CHALLENGE, later.data)).to.emit(market, 'SettlementProposed');
+  });
+
+  it('rejects an over-budget settlement at propose time', async () => {
+    await time.increaseTo(endTime);
+    // 18 + 2 creator + 1 platform > the 20 USDC pool
+    const { data } = await signedSettlement(STATE_A, 5, [[alice.address, 18n * USDC]]);
+    await expect(market.proposeSettlement(CHALLENGE, data)).to.be.revertedWithCustomError(market, 'InvalidSettlementData');
+
+    const stranded = await signedSettlement(STATE_A, 5, [[alice.address, 12n * USDC]], { unclaimedAmount: 5n * USDC });
+    await expect(market.proposeSettlement(CHALLENGE, stranded.data)).to.be.revertedWithCustomError(market, 'InvalidSettlementData');
+  });
+
+  it('lets a participant dispute after depositing into another challenge', async () => {
+    const now = await time.latest();
+    await market.createChallenge('challenge_002', 'Next Round', now, now + 7200);
+    await usdc.mint(alice.address, 1n * USDC);
+    await usdc.connect(alice).approve(await market.getAddress(), 1n * USDC);
+    await market.connect(alice).deposit(1n * USDC, 'challenge_002', ethers.ZeroHash);
+
+    await time.increaseTo(endTime);
+    const { data } = await signedSettlement(STATE_A, 5, [[bob.address, 17n * USDC]]);
+    await market.proposeSettlement(CHALLENGE, data);
+
+    const later = keccak256(encodePacked(['string', 'bytes32', 'uint64'], [CHALLENGE, STATE_B, 6n]));
+    const laterSignature = await clearnode.signMessage(ethers.getBytes(later));
+    await expect(market.connect(creator).disputeWithLaterState(CHALLENGE, STATE_B, 6, laterSignature))
+      .to.be.revertedWithCustomError(market, 'NotParticipant');
+    await expect(market.connect(alice).disputeWithLaterState(CHALLENGE, STATE_B, 6, laterSignature))
+      .to.emit(market, 'SettlementDisputed');
+  });
+
+  it('rejects a settlement not signed by the clearnode', async () => {
+    await time.increaseTo(endTime);
+    const { data } = await signedSettlement(STATE_A, 5, [[alice.address, 17n * USDC]]);
+    const forged = await alice.signMessage(ethers.getBytes(settlementMessageHash(data)));
+    await expect(market.proposeSettlement(CHALLENGE, { ...data, signatures: [forged] }))
+      .to.be.revertedWithCustomError(market, 'InvalidSignature');
+  });
+
+  it('rejects a rollover into a challenge that does not exist', async () => {
+    await time.increaseTo(endTime);
+    const { data } = await signedSettlement(STATE_A, 5, [], {
+      noWinnerPolicy: 2,
+      rolloverChallengeId: 'challenge_999',
+      unclaimedAmount: 17n * USDC,
+    });
+    await expect(market.proposeSettlement(CHALLENGE, data)).to.be.revertedWithCustomError(market, 'InvalidRolloverTarget');
+  });
+
+  it('takes an emergency withdrawal out of the pool, and only before the end', async () => {
+    await market.connect(alice).emergencyWithdraw();
+    expect((await market.getChallenge(CHALLENGE)).totalPool).to.equal(10n * USDC);
+    expect(await usdc.balanceOf(treasury.address)).to.equal(10n * USDC * 250n / 10000n);
+
+    await time.increaseTo(endTime);
+    await expect(market.connect(bob).emergencyWithdraw()).to.be.revertedWithCustomError(market, 'ChallengeEnded');
+  });
+});
@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import WebSocket from 'ws';
+import type { Hex } from 'viem';
+import { recoverMessageAddress, zeroHash } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import { MockClearnode } from '../src/lib/yellow/mock-clearnode';
+import { YellowNitroliteClient } from '../src/lib/yellow/nitrolite-client';
+import { SessionKeyVault } from '../src/lib/yellow/session-key-vault';
+import { verifySignedState, type SignedState } from '../src/lib/yellow/dispute-service';
+import { HttpTimestampAuthority, verifyTimestampAttestation } from '../src/lib/yellow/timestamp-authority';
+import { settlementMessageHash, type SettlementMessage } from '../src/lib/yellow/settlement-verifier';
+
+const CHALLENGE = 'challenge_001';
+
+/** Resolve with the next `event` the client emits */
+function next<T>(client: YellowNitroliteClient, event: string): Promise<T> {
+  return new Promise((resolve) => client.once(event, resolve));
+}
+
+describe('MockClearnode + YellowNitroliteClient', () => {
+  let mock: MockClearnode;
+  let client: YellowNitroliteClient;
+  let vault: SessionKeyVault;
+  const quiet = { log: console.log, warn: console.warn, error: console.error };
+
+  before(() => {
+    // Node 20 has no global WebSocket; the client expects the browser one
+    (globalThis as any).WebSocket ??= WebSocket;
+    console.log = console.warn = console.error = () => {};
+  });
+
+  after(() => {
+    Object.assign(console, quiet);
+  });
+
+  beforeEach(async () => {
+    mock = new MockClearnode({ port: 0, brokerPrivateKey: generatePrivateKey() });
+    await mock.start();
+    vault = new SessionKeyVault({ autoLockMs: 0, pbkdf2Iterations: 1000 });
+    client = new YellowNitroliteClient({
+      clearnodeUrl: mock.url,
+      vault,
+      timestampAuthority: new HttpTimestampAuthority(mock.timestampUrl),
+      reconnect: { baseDelayMs: 10 },
+    });
+    await vault.secure({ kind: 'passphrase', passphrase: 'test' });
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await mock.stop();
+    vault.lock();
+  });
+
+  function settlementOver(stateHash: string, stateNonce: number): SettlementMessage {
+    return {
+      stateHash: stateHash as Hex,
+      stateNonce,
+      winnerReelId: 'reel_1',
+      payoutRoot: zeroHash,
+      totalPayout: 0n,
+      noWinnerPolicy: 0,
+      rolloverChallengeId: '',
+      unclaimedAmount: 0n,
+      creators: [],
+      creatorFees: [],
+      platformFee: 0n,
+    };
+  }
+
+  it('authenticates and reads the broker from get_config', () => {
+    expect(client.getClearnodeConfig().brokerAddress).to.equal(mock.brokerAddress);
+  });
+
+  it('returns a broker-signed commitment for every accepted state change', async () => {
+    await client.createAppSession(10_000_000n, CHALLENGE);
+    expect(mock.listAppSessions()).to.have.length(1);
+
+    let committed = next<SignedState>(client, 'stateCommitted');
+    await client.makePrediction(CHALLENGE, 'reel_1', 2_000_000n);
+    let commitment = await committed;
+    expect(commitment.nonce).to.equal(1);
+    expect(await verifySignedState(commitment, mock.brokerAddress)).to.equal(true);
+
+    committed = next<SignedState>(client, 'stateCommitted');
+    await client.vote(CHALLENGE, 'reel_2');
+    commitment = await committed;
+
+    const state = client.getState(CHALLENGE)!;
+    expect(commitment).to.include({ challengeId: CHALLENGE, nonce: state.nonce, stateHash: state.stateHash });
+    expect(client.getStateCommitment(CHALLENGE)).to.deep.equal(commitment);
+    expect(client.getOutboundQueue()).to.have.length(0);
+  });
+
+  it('replays an unanswered state change once the dropped socket is back', async () => {
+    await client.createAppSession(10_000_000n, CHALLENGE);
+    mock.setFaults({ dropMethods: ['message'] });
+    await client.makePrediction(CHALLENGE, 'reel_1', 2_000_000n);
+    expect(client.getOutboundQueue()).to.have.length(1);
+
+    mock.clearFaults();
+    const reconnected = next(client, 'reconnected');
+    const committed = next<SignedState>(client, 'stateCommitted');
+    mock.dropConnections();
+    await reconnected;
+
+    expect((await committed).nonce).to.equal(1);
+    expect(client.getOutboundQueue()).to.have.length(0);
+  });
+
+  it('stamps bid times with its timestamp authority', async () => {
+    await client.createAppSession(10_000_000n, CHALLENGE);
+    const prediction = await client.makePrediction(CHALLENGE, 'reel_1', 2_000_000n);
+
+    expect(prediction.attestation?.signer).to.equal(mock.timestampAuthorityAddress);
+    expect(prediction.timestamp).to.equal(prediction.attestation!.timestamp);
+    expect(await verifyTimestampAttestation(prediction.attestation!, mock.timestampAuthorityAddress, {
+      predictionId: prediction.id,
+      amount: '2000000',
+    })).to.equal(true);
+  });
+
+  it('countersigns a settlement of the latest committed state and refuses any other', async () => {
+    await client.createAppSession(10_000_000n, CHALLENGE);
+    const committed = next<SignedState>(client, 'stateCommitted');
+    await client.makePrediction(CHALLENGE, 'reel_1', 2_000_000n);
+    await committed;
+
+    const { stateHash, finalState } = await client.requestSettlement(CHALLENGE);
+    const stale = settlementOver(stateHash, finalState.nonce - 1);
+    await expect(client.countersignSettlement(CHALLENGE, stale)).to.be.rejectedWith(/not the latest committed state/);
+    expect(client.getSession(CHALLENGE)?.status).to.equal('settling');
+
+    const message = settlementOver(stateHash, finalState.nonce);
+    const signature = await client.countersignSettlement(CHALLENGE, message);
+    const signer = await recoverMessageAddress({ message: { raw: settlementMessageHash(message) }, signature });
+    expect(signer).to.equal(mock.brokerAddress);
+    expect(client.getSession(CHALLENGE)?.status).to.equal('settled');
+  });
+
+  it('reopens a session whose settlement is cancelled before the countersign', async () => {
+    await client.createAppSession(10_000_000n, CHALLENGE);
+    await client.requestSettlement(CHALLENGE);
+    await expect(client.makePrediction(CHALLENGE, 'reel_1', 1_000_000n)).to.be.rejectedWith(/is settling/);
+
+    client.cancelSettlement(CHALLENGE);
+    expect(client.getSession(CHALLENGE)?.status).to.equal('active');
+    await client.makePrediction(CHALLENGE, 'reel_1', 1_000_000n);
+  });
+});
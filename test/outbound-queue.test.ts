@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import { OutboundQueue, type OutboundMessage } from '../src/lib/yellow/outbound-queue';
+
+const KEY = 'test-outbound-queue';
+
+function vote(id: string, nonce: number): Omit<OutboundMessage, 'enqueuedAt' | 'attempts' | 'requestId'> {
+  return {
+    id,
+    sessionId: 'session_1',
+    nonce,
+    payload: { action: 'vote', challengeId: 'ch1', reelId: 'r1', nonce, stateHash: `0x${nonce}` },
+  };
+}
+
+describe('OutboundQueue', () => {
+  const storage = new Map<string, string>();
+
+  // The queue persists only in a browser; give it just enough of one
+  before(() => {
+    (globalThis as any).window = globalThis;
+    (globalThis as any).localStorage = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value); },
+      removeItem: (key: string) => { storage.delete(key); },
+    };
+  });
+
+  after(() => {
+    delete (globalThis as any).window;
+    delete (globalThis as any).localStorage;
+  });
+
+  beforeEach(() => storage.clear());
+
+  it('hands out unsent entries in nonce order', () => {
+    const queue = new OutboundQueue(KEY);
+    queue.enqueue(vote('c', 3));
+    queue.enqueue(vote('a', 1));
+    queue.enqueue(vote('b', 2));
+
+    expect(queue.pending().map((e) => e.id)).to.deep.equal(['a', 'b', 'c']);
+    queue.markSent('a', 101);
+    expect(queue.pending().map((e) => e.id)).to.deep.equal(['b', 'c']);
+    expect(queue.list().map((e) => e.id)).to.deep.equal(['a', 'b', 'c']);
+  });
+
+  it('removes an entry only when its own request id is answered', () => {
+    const queue = new OutboundQueue(KEY);
+    queue.enqueue(vote('a', 1));
+    queue.markSent('a', 101);
+
+    expect(queue.acknowledge(999)).to.equal(null);
+    expect(queue.acknowledge(101)!.id).to.equal('a');
+    expect(queue.size()).to.equal(0);
+    expect(storage.has(KEY)).to.equal(false);
+  });
+
+  it('puts in-flight entries back to pending when the connection drops', () => {
+    const queue = new OutboundQueue(KEY);
+    queue.enqueue(vote('a', 1));
+    queue.enqueue(vote('b', 2));
+    queue.markSent('a', 101);
+    queue.markSent('b', 102);
+    expect(queue.pending()).to.have.length(0);
+
+    queue.resetInFlight();
+    expect(queue.pending().map((e) => e.id)).to.deep.equal(['a', 'b']);
+
+    // The old request id is dead; only the resend's answer counts
+    queue.markSent('a', 201);
+    expect(queue.acknowledge(101)).to.equal(null);
+    expect(queue.acknowledge(201)).to.include({ id: 'a', attempts: 2 });
+  });
+
+  it('survives a reload with every entry pending again', () => {
+    const queue = new OutboundQueue(KEY);
+    queue.enqueue(vote('a', 1));
+    queue.enqueue(vote('b', 2));
+    queue.markSent('a', 101);
+
+    const reloaded = new OutboundQueue(KEY);
+    expect(reloaded.pending().map((e) => e.id)).to.deep.equal(['a', 'b']);
+    expect(reloaded.list()[0].attempts).to.equal(1);
+    expect(reloaded.list()[1].payload).to.deep.equal(vote('b', 2).payload);
+
+    reloaded.clear();
+    expect(new OutboundQueue(KEY).size()).to.equal(0);
+  });
+
+  it('starts empty when the stored queue is corrupt', () => {
+    storage.set(KEY, '{not json');
+    const quiet = console.warn;
+    console.warn = () => {};
+    try {
+      expect(new OutboundQueue(KEY).size()).to.equal(0);
+    } finally {
+      console.warn = quiet;
+    }
+    expect(storage.has(KEY)).to.equal(false);
+  });
+});
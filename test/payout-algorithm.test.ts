@@ -0,0 +1,183 @@
+import { expect } from 'chai';
+import {
+  calculateRankedPayouts,
+  calculateTimeWeightedPayouts,
+  checkStakeLimits,
+  evaluateCurve,
+  getMultiplier,
+  summarizeReelPools,
+  quotePayout,
+  DEFAULT_MULTIPLIER_CONFIG,
+  type PayoutBreakdown,
+  type TimedPrediction,
+} from '../src/lib/payout-algorithm';
+
+const START = 1_700_000_000_000;
+const END = START + 60 * 60 * 1000;
+const USDC = 1_000_000n;
+
+function pred(id: string, reelId: string, amount: bigint, progress: number, predictor = `0x${id.padStart(40, '0')}`): TimedPrediction {
+  return { id, reelId, amount, timestamp: START + Math.round((END - START) * progress), predictor };
+}
+
+function paidOut(b: PayoutBreakdown): bigint {
+  return Array.from(b.predictorPayouts.values()).reduce((sum, v) => sum + v, 0n);
+}
+
+describe('payout-algorithm', () => {
+  describe('multiplier curves', () => {
+    it('decays from max at the start to min at the end', () => {
+      expect(getMultiplier(START, START, END)).to.equal(5);
+      expect(getMultiplier(END, START, END)).to.equal(1);
+      expect(evaluateCurve(0.5, DEFAULT_MULTIPLIER_CONFIG)).to.equal(2);
+    });
+
+    it('clamps step tiers to the configured range', () => {
+      const config = { curve: { kind: 'step' as const, tiers: [{ until: 0.1, multiplier: 9 }, { until: 1, multiplier: 2 }] }, minMultiplier: 1, maxMultiplier: 5 };
+      expect(evaluateCurve(0.05, config)).to.equal(5);
+      expect(evaluateCurve(0.5, config)).to.equal(2);
+    });
+  });
+
+  describe('calculateTimeWeightedPayouts', () => {
+    const predictions = [
+      pred('a', 'r1', 100n * USDC, 0),
+      pred('b', 'r1', 100n * USDC, 0.5),
+      pred('c', 'r2', 300n * USDC, 0.1),
+    ];
+
+    it('conserves the pool and favours earlier bids', () => {
+      const b = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+      expect(b.totalPool).to.equal(500n * USDC);
+      expect(paidOut(b) + b.creatorFee + b.platformFee).to.equal(b.totalPool);
+      expect(b.predictorPayouts.get('a')! > b.predictorPayouts.get('b')!).to.equal(true);
+      expect(b.predictorPayouts.has('c')).to.equal(false);
+    });
+
+    it('gives the same result for any input order', () => {
+      const a = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+      const b = calculateTimeWeightedPayouts([...predictions].reverse(), 'r1', START, END);
+      expect(Array.from(b.predictorPayouts)).to.have.deep.members(Array.from(a.predictorPayouts));
+      expect(Array.from(b.dust)).to.have.deep.members(Array.from(a.dust));
+    });
+
+    it('refunds the pool pro rata when nobody picked the winner', () => {
+      const b = calculateTimeWeightedPayouts(predictions, 'r9', START, END);
+      expect(b.noWinner?.policy.kind).to.equal('refund');
+      expect(paidOut(b)).to.equal(b.distributablePool);
+    });
+
+    it('adds a carried pool to the distributable pool without fees', () => {
+      const b = calculateTimeWeightedPayouts(predictions, 'r1', START, END, 1000, 250, { carriedPool: 50n * USDC });
+      expect(b.creatorFee).to.equal(50n * USDC);
+      expect(paidOut(b)).to.equal(b.totalPool - b.creatorFee - b.platformFee + 50n * USDC);
+    });
+
+    it('weights stake by its square root under sqrt weighting', () => {
+      const whale = [pred('w', 'r1', 36n * USDC, 0), pred('m', 'r1', 9n * USDC, 0)];
+      const linear = calculateTimeWeightedPayouts(whale, 'r1', START, END, 0, 0);
+      const sqrt = calculateTimeWeightedPayouts(whale, 'r1', START, END, 0, 0, { weighting: 'sqrt' });
+      expect(linear.predictorPayouts.get('w')).to.equal(36n * USDC);
+      // √36 : √9 = 2 : 1
+      expect(sqrt.predictorPayouts.get('w')).to.equal(30n * USDC);
+      expect(sqrt.predictorPayouts.get('m')).to.equal(15n * USDC);
+    });
+
+    it('refunds stake above the per-reel cap', () => {
+      const b = calculateTimeWeightedPayouts(
+        [pred('a', 'r1', 100n * USDC, 0, '0xaa'), pred('b', 'r1', 50n * USDC, 0.1, '0xaa'), pred('c', 'r2', 100n * USDC, 0)],
+        'r1', START, END, 1000, 250, { stakeLimits: { maxStakePerReel: 120n * USDC } },
+      );
+      expect(b.stakeRefunds?.get('b')).to.equal(30n * USDC);
+      expect(paidOut(b) + b.creatorFee + b.platformFee).to.equal(b.totalPool);
+    });
+
+    it('caps every pool share against the pool left after trimming', () => {
+      // Trimming 0xaa alone to 40% of 100 would leave 0xbb at 15/33 ≈ 45%
+      const stakes = [pred('a', 'r1', 80n * USDC, 0, '0xaa'), pred('b', 'r1', 15n * USDC, 0, '0xbb'), pred('c', 'r2', 5n * USDC, 0, '0xcc')];
+      const b = calculateTimeWeightedPayouts(stakes, 'r1', START, END, 0, 0, { stakeLimits: { maxPoolShareBps: 4000 } });
+
+      const kept = stakes.map((p) => p.amount - (b.stakeRefunds?.get(p.id) ?? 0n));
+      expect(kept).to.deep.equal([10n * USDC, 10n * USDC, 5n * USDC]);
+      const pool = kept.reduce((sum, k) => sum + k, 0n);
+      for (const k of kept) expect(k * 10000n).to.be.at.most(pool * 4000n);
+    });
+
+    it('refunds the pool by stake when every winning weight is zero', () => {
+      const multiplier = { ...DEFAULT_MULTIPLIER_CONFIG, minMultiplier: 0 };
+      const late = [pred('a', 'r1', 30n * USDC, 1), pred('b', 'r1', 10n * USDC, 1), pred('c', 'r2', 60n * USDC, 0)];
+      const b = calculateTimeWeightedPayouts(late, 'r1', START, END, 0, 0, { multiplier });
+      expect(b.predictorPayouts.get('a')).to.equal(75n * USDC);
+      expect(b.predictorPayouts.get('b')).to.equal(25n * USDC);
+      expect(paidOut(b)).to.equal(b.totalPool);
+    });
+
+    it('refunds bids placed after the cutoff at face value', () => {
+      const late = pred('late', 'r1', 10n * USDC, 0.99);
+      const b = calculateTimeWeightedPayouts([...predictions, late], 'r1', START, END, 1000, 250, { closesAt: END - 60_000 });
+      expect(b.rejectedPredictions).to.deep.equal(['late']);
+      expect(b.predictorPayouts.get('late')).to.equal(10n * USDC);
+    });
+  });
+
+  describe('calculateRankedPayouts', () => {
+    it('splits the pool across the podium and conserves it', () => {
+      const predictions = [pred('a', 'r1', 100n * USDC, 0), pred('b', 'r2', 100n * USDC, 0), pred('c', 'r3', 100n * USDC, 0)];
+      const b = calculateRankedPayouts(predictions, ['r1', 'r2', 'r3'], [6000, 2500, 1500], START, END);
+      expect(b.tiers!.map((t) => t.splitBps)).to.deep.equal([6000, 2500, 1500]);
+      expect(paidOut(b) + b.creatorFee + b.platformFee).to.equal(b.totalPool);
+    });
+
+    it('rejects splits that do not sum to 10000', () => {
+      expect(() => calculateRankedPayouts([], ['r1'], [5000], START, END)).to.throw(/sum to 10000/);
+    });
+  });
+
+  describe('checkStakeLimits', () => {
+    it('enforces the per-reel cap', () => {
+      const existing = [{ predictor: '0xAA', reelId: 'r1', amount: 80n }];
+      expect(checkStakeLimits(existing, { predictor: '0xaa', reelId: 'r1', amount: 30n }, { maxStakePerReel: 100n })).to.match(/Stake cap/);
+      expect(checkStakeLimits(existing, { predictor: '0xaa', reelId: 'r2', amount: 30n }, { maxStakePerReel: 100n })).to.equal(null);
+    });
+
+    it('measures the pool share against the whole pool when given its total', () => {
+      const mine = [{ predictor: '0xaa', reelId: 'r1', amount: 30n }];
+      const next = { predictor: '0xaa', reelId: 'r2', amount: 20n };
+      // Only our own stakes in view: no other wallets, so no share to exceed
+      expect(checkStakeLimits(mine, next, { maxPoolShareBps: 4000 })).to.equal(null);
+      expect(checkStakeLimits(mine, next, { maxPoolShareBps: 4000 }, 100n)).to.match(/Pool share cap/);
+      expect(checkStakeLimits(mine, next, { maxPoolShareBps: 4000 }, 200n)).to.equal(null);
+    });
+  });
+
+  describe('quotePayout', () => {
+    const now = START + (END - START) / 10;
+
+    it('matches the settlement payout when no more bets arrive', () => {
+      const existing = [pred('a', 'r1', 100n * USDC, 0), pred('b', 'r2', 200n * USDC, 0)];
+      const quote = quotePayout(50n * USDC, 'r1', summarizeReelPools(existing, START, END), START, END, now);
+      const settled = calculateTimeWeightedPayouts(
+        [...existing, { ...pred('me', 'r1', 50n * USDC, 0), timestamp: now }], 'r1', START, END,
+      );
+      // Settlement hands out rounding dust the quote floors away
+      expect(settled.predictorPayouts.get('me')! - quote.payoutIfWins <= 1n).to.equal(true);
+      expect(quote.breakEvenExtraStake! > 0n).to.equal(true);
+    });
+
+    it('reports no break-even under sqrt weighting instead of searching forever', () => {
+      const existing = [pred('a', 'r1', 100n * USDC, 0), pred('b', 'r2', 200n * USDC, 0)];
+      const pools = summarizeReelPools(existing, START, END, DEFAULT_MULTIPLIER_CONFIG, 'sqrt');
+      const quote = quotePayout(50n * USDC, 'r1', pools, START, END, now, 1000, 250, { weighting: 'sqrt' });
+      expect(quote.payoutIfWins > quote.amount).to.equal(true);
+      expect(quote.breakEvenExtraStake).to.equal(null);
+    });
+
+    it('reports no break-even when a carried pool outweighs any further stake', () => {
+      const existing = [pred('a', 'r1', 1n * USDC, 0)];
+      const quote = quotePayout(1n * USDC, 'r1', summarizeReelPools(existing, START, END), START, END, END, 0, 0, {
+        carriedPool: 1_000n * USDC,
+      });
+      expect(quote.breakEvenExtraStake).to.equal(null);
+    });
+  });
+});
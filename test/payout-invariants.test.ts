@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { calculateTimeWeightedPayouts, type TimedPrediction } from '../src/lib/payout-algorithm';
+import { checkPayoutInvariants, type PayoutInvariantInput } from '../src/lib/payout-invariants';
+
+const START = 1_700_000_000_000;
+const END = START + 60 * 60 * 1000;
+
+const predictions: TimedPrediction[] = [
+  { id: 'a', reelId: 'r1', amount: 100_000_001n, timestamp: START, predictor: '0xAA' },
+  { id: 'b', reelId: 'r1', amount: 33_333_333n, timestamp: START + 600_000, predictor: '0xbb' },
+  { id: 'c', reelId: 'r2', amount: 77_777_777n, timestamp: START + 1_200_000, predictor: '0xcc' },
+];
+
+function input(overrides: Partial<PayoutInvariantInput> = {}): PayoutInvariantInput {
+  return {
+    predictions,
+    paidReelIds: ['r1'],
+    creatorFeeBps: 1000,
+    platformFeeBps: 250,
+    recompute: (preds) => calculateTimeWeightedPayouts(preds, 'r1', START, END),
+    ...overrides,
+  };
+}
+
+describe('payout-invariants', () => {
+  it('accepts a breakdown from the payout engine', () => {
+    const breakdown = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+    const report = checkPayoutInvariants(breakdown, input());
+    expect(report.violations).to.deep.equal([]);
+    expect(report.ok).to.equal(true);
+  });
+
+  it('flags a payout that breaks conservation', () => {
+    const breakdown = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+    breakdown.predictorPayouts.set('a', breakdown.predictorPayouts.get('a')! + 1n);
+    const report = checkPayoutInvariants(breakdown, input());
+    expect(report.violations.map((v) => v.invariant)).to.include('conservation');
+  });
+
+  it('flags a losing prediction that was paid', () => {
+    const breakdown = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+    breakdown.predictorPayouts.set('c', 1n);
+    const report = checkPayoutInvariants(breakdown, input());
+    expect(report.violations.some((v) => v.invariant === 'winners-only' && v.predictionId === 'c')).to.equal(true);
+  });
+
+  it('flags fees that do not match the challenge config', () => {
+    const breakdown = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+    const report = checkPayoutInvariants(breakdown, input({ platformFeeBps: 300 }));
+    expect(report.violations.map((v) => v.invariant)).to.include('fees');
+  });
+
+  it('flags a recompute that depends on input order', () => {
+    const breakdown = calculateTimeWeightedPayouts(predictions, 'r1', START, END);
+    const report = checkPayoutInvariants(breakdown, input({
+      recompute: (preds) => calculateTimeWeightedPayouts(preds, preds[0].reelId, START, END),
+    }));
+    expect(report.violations.map((v) => v.invariant)).to.include('order-independent');
+  });
+});
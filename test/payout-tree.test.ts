@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { encodeAbiParameters, keccak256, parseAbiParameters, zeroHash } from 'viem';
+import {
+  buildPayoutTree,
+  getPayoutClaim,
+  parsePayoutTree,
+  payoutLeaf,
+  serializePayoutTree,
+  verifyPayoutClaim,
+} from '../src/lib/yellow/payout-tree';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+const CAROL = '0x3333333333333333333333333333333333333333';
+
+describe('payout-tree', () => {
+  it('hashes leaves the way ReelPredict.claim does', () => {
+    const inner = keccak256(encodeAbiParameters(parseAbiParameters('address, uint256'), [ALICE, 5n]));
+    expect(payoutLeaf(ALICE, 5n)).to.equal(keccak256(inner));
+    // Checksummed and lower-case addresses give the same leaf
+    expect(payoutLeaf(ALICE.toUpperCase().replace('0X', '0x'), 5n)).to.equal(payoutLeaf(ALICE, 5n));
+  });
+
+  it('builds a proof for every non-zero payout', () => {
+    const tree = buildPayoutTree(new Map([[ALICE, 10n], [BOB, 20n], [CAROL, 0n]]));
+    expect(tree.totalPayout).to.equal(30n);
+    expect(tree.claims).to.have.length(2);
+    for (const claim of tree.claims) expect(verifyPayoutClaim(tree.root, claim)).to.equal(true);
+    expect(getPayoutClaim(tree, CAROL)).to.equal(undefined);
+  });
+
+  it('handles an odd number of leaves', () => {
+    const tree = buildPayoutTree(new Map([[ALICE, 1n], [BOB, 2n], [CAROL, 3n]]));
+    for (const claim of tree.claims) expect(verifyPayoutClaim(tree.root, claim)).to.equal(true);
+  });
+
+  it('rejects a claim for a different amount', () => {
+    const tree = buildPayoutTree(new Map([[ALICE, 10n], [BOB, 20n]]));
+    const claim = getPayoutClaim(tree, ALICE)!;
+    expect(verifyPayoutClaim(tree.root, { ...claim, amount: 11n })).to.equal(false);
+  });
+
+  it('does not depend on insertion order', () => {
+    const a = buildPayoutTree(new Map([[ALICE, 10n], [BOB, 20n], [CAROL, 30n]]));
+    const b = buildPayoutTree(new Map([[CAROL, 30n], [ALICE, 10n], [BOB, 20n]]));
+    expect(b.root).to.equal(a.root);
+  });
+
+  it('has the zero root when nobody is paid', () => {
+    expect(buildPayoutTree(new Map()).root).to.equal(zeroHash);
+  });
+
+  it('round-trips through JSON', () => {
+    const tree = buildPayoutTree(new Map([[ALICE, 10n], [BOB, 20n]]));
+    expect(parsePayoutTree(serializePayoutTree(tree))).to.deep.equal(tree);
+  });
+});
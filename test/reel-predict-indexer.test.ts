@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import type { PublicClient } from 'viem';
+import { ReelPredictIndexer, challengeIdHash } from '../src/lib/indexer/reel-predict-indexer';
+
+const CONTRACT = '0x00000000000000000000000000000000000000aa';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const CHALLENGE = 'challenge_001';
+const TOPIC = challengeIdHash(CHALLENGE);
+
+/** Just enough of a PublicClient to feed the indexer one block of logs at a time */
+function fakeClient(logsByBlock: Record<number, any[]>): PublicClient {
+  return {
+    getBlockNumber: async () => BigInt(Math.max(...Object.keys(logsByBlock).map(Number))),
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: blockNumber * 12n }),
+    getLogs: async ({ fromBlock }: { fromBlock: bigint }) =>
+      (logsByBlock[Number(fromBlock)] ?? []).map((log, logIndex) => ({
+        ...log,
+        blockNumber: fromBlock,
+        transactionHash: `0x${'00'.repeat(31)}0${fromBlock}`,
+        logIndex,
+      })),
+    // The active-challenge list is unreachable, so names can only come from logs
+    readContract: async () => { throw new Error('call reverted'); },
+  } as unknown as PublicClient;
+}
+
+describe('ReelPredictIndexer', () => {
+  const quiet = { log: console.log, warn: console.warn };
+  before(() => { console.log = console.warn = () => {}; });
+  after(() => { Object.assign(console, quiet); });
+
+  it('indexes JackpotFunded and backfills payouts once the challenge name is learned', async () => {
+    const indexer = new ReelPredictIndexer(fakeClient({
+      1: [
+        { eventName: 'PayoutDistributed', args: { challengeId: TOPIC, user: ALICE, amount: 5n } },
+        { eventName: 'JackpotFunded', args: { challengeId: TOPIC, amount: 3n } },
+      ],
+      2: [
+        { eventName: 'DepositMade', args: { user: ALICE, amount: 10n, channelId: TOPIC, challengeId: CHALLENGE } },
+      ],
+    }), CONTRACT, { fromBlock: 1n, batchSize: 1n });
+
+    await indexer.sync();
+
+    expect(indexer.getPayoutsByChallenge(TOPIC)).to.have.length(0);
+    expect(indexer.getPayoutsByChallenge(CHALLENGE)).to.have.length(1);
+    expect(indexer.getPayoutsByUser(ALICE)[0].challengeId).to.equal(CHALLENGE);
+
+    const challenge = indexer.getChallenge(CHALLENGE)!;
+    expect(challenge.id).to.equal(CHALLENGE);
+    expect(challenge.jackpotFunded).to.equal(3n);
+    expect(challenge.claimedPayout).to.equal(5n);
+  });
+});
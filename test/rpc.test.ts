@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import { RPCMethod } from '@erc7824/nitrolite';
+import { ClearnodeRPC, ClearnodeRPCError, getMessageRequestId } from '../src/lib/yellow/rpc';
+
+/** A signed request as the SDK's create*Message helpers lay it out */
+function request(requestId: number, method: string): string {
+  return JSON.stringify({ req: [requestId, method, {}, Date.now()], sig: ['0x'] });
+}
+
+/** Resolve with the error a promise rejects with */
+async function failure(promise: Promise<unknown>): Promise<ClearnodeRPCError> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as ClearnodeRPCError;
+  }
+  throw new Error('Expected the call to fail');
+}
+
+describe('ClearnodeRPC', () => {
+  let sent: string[];
+  let rpc: ClearnodeRPC;
+
+  beforeEach(() => {
+    sent = [];
+    rpc = new ClearnodeRPC((message) => { sent.push(message); return true; }, 1_000);
+  });
+
+  it('answers concurrent calls from the response with their own request id', async () => {
+    const first = rpc.call(RPCMethod.GetLedgerBalances, request(1, RPCMethod.GetLedgerBalances));
+    const second = rpc.call(RPCMethod.GetLedgerBalances, request(2, RPCMethod.GetLedgerBalances));
+    expect(sent).to.have.length(2);
+
+    expect(rpc.handleResponse(2, RPCMethod.GetLedgerBalances, { ledgerBalances: ['two'] })).to.equal(true);
+    expect(rpc.handleResponse(1, RPCMethod.GetLedgerBalances, { ledgerBalances: ['one'] })).to.equal(true);
+    expect(await first).to.deep.equal({ ledgerBalances: ['one'] });
+    expect(await second).to.deep.equal({ ledgerBalances: ['two'] });
+
+    // Answered ids are forgotten, so a repeat response resolves nothing
+    expect(rpc.handleResponse(1, RPCMethod.GetLedgerBalances, {})).to.equal(false);
+    expect(rpc.pendingCount()).to.equal(0);
+  });
+
+  it('rejects with the Clearnode message on an error response', async () => {
+    const call = rpc.call(RPCMethod.CreateAppSession, request(7, RPCMethod.CreateAppSession));
+    rpc.handleResponse(7, RPCMethod.Error, { error: 'insufficient funds' });
+
+    const err = await failure(call);
+    expect(err).to.be.instanceOf(ClearnodeRPCError);
+    expect(err).to.include({ code: 'rpc_error', message: 'insufficient funds', method: RPCMethod.CreateAppSession, requestId: 7 });
+  });
+
+  it('rejects a response for a different method, push notifications included', async () => {
+    const call = rpc.call(RPCMethod.GetConfig, request(3, RPCMethod.GetConfig));
+    rpc.handleResponse(3, RPCMethod.GetLedgerBalances, {});
+    expect((await failure(call)).code).to.equal('unexpected_response');
+
+    const received: unknown[] = [];
+    rpc.subscribe(RPCMethod.BalanceUpdate, (params) => received.push(params));
+    const pushed = rpc.call(RPCMethod.GetConfig, request(8, RPCMethod.GetConfig));
+    rpc.handleResponse(8, RPCMethod.BalanceUpdate, { balanceUpdates: [] });
+    expect((await failure(pushed)).code).to.equal('unexpected_response');
+    expect(received).to.have.length(0);
+  });
+
+  it('times out and ignores a late response', async () => {
+    const call = rpc.call(RPCMethod.GetConfig, request(4, RPCMethod.GetConfig), { timeoutMs: 10 });
+    const err = await failure(call);
+    expect(err).to.include({ code: 'timeout', requestId: 4 });
+    expect(rpc.handleResponse(4, RPCMethod.GetConfig, {})).to.equal(false);
+  });
+
+  it('stops waiting when aborted, before or after sending', async () => {
+    const controller = new AbortController();
+    const call = rpc.call(RPCMethod.GetConfig, request(5, RPCMethod.GetConfig), { signal: controller.signal });
+    controller.abort();
+    expect((await failure(call)).code).to.equal('cancelled');
+    expect(rpc.pendingCount()).to.equal(0);
+
+    const early = rpc.call(RPCMethod.GetConfig, request(6, RPCMethod.GetConfig), { signal: controller.signal });
+    expect((await failure(early)).code).to.equal('cancelled');
+    expect(sent).to.have.length(1);
+  });
+
+  it('rejects every pending call when the socket goes away or cannot send', async () => {
+    const calls = [1, 2].map((id) => rpc.call(RPCMethod.GetConfig, request(id, RPCMethod.GetConfig)));
+    rpc.rejectAll();
+    for (const call of calls) expect((await failure(call)).code).to.equal('disconnected');
+
+    const closed = new ClearnodeRPC(() => false);
+    expect((await failure(closed.call(RPCMethod.GetConfig, request(9, RPCMethod.GetConfig)))).code).to.equal('send_failed');
+    expect(closed.pendingCount()).to.equal(0);
+  });
+
+  it('delivers push notifications to subscribers until they unsubscribe', () => {
+    const received: unknown[] = [];
+    const unsubscribe = rpc.subscribe(RPCMethod.BalanceUpdate, (params) => received.push(params));
+
+    expect(rpc.handleResponse(undefined, RPCMethod.BalanceUpdate, { balanceUpdates: [] })).to.equal(true);
+    expect(received).to.have.length(1);
+    unsubscribe();
+    rpc.handleResponse(undefined, RPCMethod.BalanceUpdate, { balanceUpdates: [] });
+    expect(received).to.have.length(1);
+    expect(rpc.handleResponse(undefined, 'unknown_method', {})).to.equal(false);
+  });
+
+  it('reads the request id out of a signed message', () => {
+    expect(getMessageRequestId(request(42, RPCMethod.Ping))).to.equal(42);
+    expect(() => getMessageRequestId('{"req":[]}')).to.throw(/no requestId/);
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import { recoverMessageAddress } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { SessionKeyVault, SessionKeyVaultError, type SessionKeyVaultOptions } from '../src/lib/yellow/session-key-vault';
+
+const KEY = 'test-session-vault';
+const PASSPHRASE = { kind: 'passphrase', passphrase: 'correct horse' } as const;
+
+/** Resolve with the error a promise rejects with */
+async function failure(promise: Promise<unknown>): Promise<SessionKeyVaultError> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as SessionKeyVaultError;
+  }
+  throw new Error('Expected the call to fail');
+}
+
+describe('SessionKeyVault', () => {
+  const storage = new Map<string, string>();
+  const quiet = { log: console.log, warn: console.warn };
+  const vaults: SessionKeyVault[] = [];
+
+  function vault(options: SessionKeyVaultOptions = {}): SessionKeyVault {
+    const v = new SessionKeyVault({ storageKey: KEY, autoLockMs: 0, pbkdf2Iterations: 1000, ...options });
+    vaults.push(v);
+    return v;
+  }
+
+  // The vault persists only in a browser; give it just enough of one
+  before(() => {
+    (globalThis as any).window = globalThis;
+    (globalThis as any).localStorage = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value); },
+      removeItem: (key: string) => { storage.delete(key); },
+    };
+    console.log = console.warn = () => {};
+  });
+
+  after(() => {
+    delete (globalThis as any).window;
+    delete (globalThis as any).localStorage;
+    Object.assign(console, quiet);
+  });
+
+  beforeEach(() => storage.clear());
+
+  afterEach(() => {
+    for (const v of vaults.splice(0)) v.lock();
+  });
+
+  it('secures a key, reloads it locked and unlocks it with the passphrase', async () => {
+    const first = vault();
+    const address = first.generate();
+    expect(first.isPersisted()).to.equal(false);
+    await first.secure(PASSPHRASE);
+    expect(first.unlockKind()).to.equal('passphrase');
+
+    const reloaded = vault();
+    expect(reloaded.status()).to.equal('locked');
+    expect(reloaded.address).to.equal(address);
+
+    await reloaded.unlock(PASSPHRASE);
+    expect(reloaded.status()).to.equal('unlocked');
+    const signature = await reloaded.account().signMessage({ message: 'hello' });
+    expect(await recoverMessageAddress({ message: 'hello', signature })).to.equal(address);
+  });
+
+  it('keeps the plaintext key out of storage', async () => {
+    const privateKey = generatePrivateKey();
+    const v = vault();
+    v.generate(privateKey);
+    await v.secure(PASSPHRASE);
+    expect(storage.get(KEY)).to.not.include(privateKey.slice(2));
+  });
+
+  it('rejects a wrong passphrase, the wrong unlock method and a tampered record', async () => {
+    const v = vault();
+    v.generate();
+    await v.secure(PASSPHRASE);
+
+    const reloaded = vault();
+    expect((await failure(reloaded.unlock({ kind: 'passphrase', passphrase: 'wrong' }))).code).to.equal('bad_secret');
+    expect((await failure(reloaded.unlock({ kind: 'passkey' }))).code).to.equal('bad_secret');
+
+    // The address is bound into the ciphertext, so it can't be swapped
+    const record = JSON.parse(storage.get(KEY)!);
+    storage.set(KEY, JSON.stringify({ ...record, address: privateKeyToAccount(generatePrivateKey()).address }));
+    expect((await failure(vault().unlock(PASSPHRASE))).code).to.equal('bad_secret');
+  });
+
+  it('refuses to sign while locked or empty', async () => {
+    const empty = vault();
+    expect(empty.status()).to.equal('empty');
+    expect((await failure(empty.unlock(PASSPHRASE))).code).to.equal('empty');
+    expect(() => empty.account()).to.throw(SessionKeyVaultError).with.property('code', 'empty');
+
+    const v = vault();
+    v.generate();
+    await v.secure(PASSPHRASE);
+    const account = v.account();
+    v.lock();
+    expect((await failure(account.signMessage({ message: 'hello' }))).code).to.equal('locked');
+    expect((await failure(v.signer()({} as any))).code).to.equal('locked');
+    expect(() => v.generate()).to.throw(SessionKeyVaultError).with.property('code', 'exists');
+  });
+
+  it('loses a never-secured key on lock, and rejects an empty passphrase', async () => {
+    const v = vault();
+    v.generate();
+    expect((await failure(v.secure({ kind: 'passphrase', passphrase: '' }))).code).to.equal('bad_secret');
+
+    v.lock();
+    expect(v.status()).to.equal('empty');
+    expect(v.address).to.equal(null);
+    expect((await failure(v.secure(PASSPHRASE))).code).to.equal('empty');
+  });
+
+  it('auto-locks a secured key after it goes unused, but never an unsecured one', async () => {
+    const v = vault({ autoLockMs: 20 });
+    v.generate();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(v.status()).to.equal('unlocked');
+
+    const locked = new Promise((resolve) => v.once('locked', resolve));
+    await v.secure(PASSPHRASE);
+    await locked;
+    expect(v.status()).to.equal('locked');
+  });
+
+  it('re-encrypts under a new passphrase and forgets everything on destroy', async () => {
+    const v = vault();
+    const address = v.generate();
+    await v.secure(PASSPHRASE);
+    await v.secure({ kind: 'passphrase', passphrase: 'new secret' });
+
+    const reloaded = vault();
+    expect((await failure(reloaded.unlock(PASSPHRASE))).code).to.equal('bad_secret');
+    await reloaded.unlock({ kind: 'passphrase', passphrase: 'new secret' });
+    expect(reloaded.address).to.equal(address);
+
+    reloaded.destroy();
+    expect(storage.has(KEY)).to.equal(false);
+    expect(vault().status()).to.equal('empty');
+  });
+
+  it('reports a passkey as unavailable without WebAuthn', async () => {
+    const v = vault();
+    v.generate();
+    expect((await failure(v.secure({ kind: 'passkey' }))).code).to.equal('passkey_unavailable');
+    expect(v.isPersisted()).to.equal(false);
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { PreparedSettlement, SettlementService } from '../src/lib/yellow/settlement';
+import {
+  JsonFileJobStore,
+  MemoryJobStore,
+  type SettlementJobStore,
+  SettlementJobRunner,
+  type SettlementJob,
+} from '../src/lib/yellow/settlement-queue';
+
+const CHALLENGE = 'challenge_001';
+const PARAMS = { challengeId: CHALLENGE, winnerReelId: 'reel_1', contestStart: 0, contestEnd: 1 };
+
+type TxStatus = 'success' | 'reverted' | 'pending' | 'unknown';
+
+/** SettlementService double that records calls and plays back scripted chain state */
+class FakeService {
+  calls: string[] = [];
+  onChain: 'none' | 'pending' | 'settled' = 'none';
+  txStatuses: TxStatus[] = [];
+  prepareErrors = 0;
+  private sent = 0;
+
+  async prepareSettlement(challengeId: string): Promise<PreparedSettlement> {
+    this.calls.push('prepare');
+    if (this.prepareErrors > 0) {
+      this.prepareErrors--;
+      throw new Error('Clearnode unreachable');
+    }
+    return { challengeId, settlementData: { totalPayout: 17n } } as unknown as PreparedSettlement;
+  }
+
+  async getOnChainSettlementState() {
+    return this.onChain;
+  }
+
+  async submitPreparedSettlement(): Promise<string> {
+    this.calls.push('submit');
+    return `0xtx${++this.sent}`;
+  }
+
+  async getTransactionStatus(txHash: string): Promise<TxStatus> {
+    this.calls.push(`status:${txHash}`);
+    return this.txStatuses.shift() ?? 'success';
+  }
+
+  async confirmSettlement(prepared: PreparedSettlement, txHash: string) {
+    this.calls.push(`confirm:${txHash}`);
+    return { challengeId: prepared.challengeId, txHash } as any;
+  }
+}
+
+function runner(service: FakeService, store: SettlementJobStore = new MemoryJobStore(), maxAttempts = 3) {
+  return new SettlementJobRunner(service as unknown as SettlementService, store, { maxAttempts, baseDelayMs: 0 });
+}
+
+describe('SettlementJobRunner', () => {
+  const quiet = { log: console.log, warn: console.warn, error: console.error };
+  before(() => { console.log = console.warn = console.error = () => {}; });
+  after(() => { Object.assign(console, quiet); });
+
+  it('settles a job once, whatever the number of enqueues', async () => {
+    const service = new FakeService();
+    const jobs = runner(service);
+
+    const job = await jobs.enqueue(PARAMS);
+    await jobs.runDue();
+    expect(await jobs.enqueue(PARAMS)).to.equal(jobs.getJob(job.key));
+    await jobs.runDue();
+
+    expect(jobs.getJob(job.key)).to.include({ state: 'confirmed', txHash: '0xtx1' });
+    expect(service.calls).to.deep.equal(['prepare', 'submit', 'status:0xtx1', 'confirm:0xtx1']);
+  });
+
+  it('resumes a saved job from its last step without proposing again', async () => {
+    const path = join(tmpdir(), `settlement-jobs-${process.pid}-${Date.now()}.json`);
+    try {
+      const saved: SettlementJob = {
+        key: `settle:${CHALLENGE}`,
+        params: PARAMS,
+        state: 'submitted',
+        attempts: 0,
+        nextAttemptAt: 0,
+        createdAt: 0,
+        updatedAt: 0,
+        prepared: { challengeId: CHALLENGE, settlementData: { totalPayout: 17n } } as unknown as PreparedSettlement,
+        txHash: '0xtx0',
+      };
+      await new JsonFileJobStore(path).save([saved]);
+
+      const service = new FakeService();
+      const jobs = runner(service, new JsonFileJobStore(path));
+      await jobs.start();
+      jobs.stop();
+
+      expect(service.calls).to.deep.equal(['status:0xtx0', 'confirm:0xtx0']);
+      const [reloaded] = await new JsonFileJobStore(path).load();
+      expect(reloaded.state).to.equal('confirmed');
+      expect((reloaded.prepared!.settlementData as any).totalPayout).to.equal(17n);
+    } finally {
+      await fs.rm(path, { force: true });
+    }
+  });
+
+  it('proposes again after a reverted transaction', async () => {
+    const service = new FakeService();
+    service.txStatuses = ['reverted'];
+    const jobs = runner(service);
+
+    const job = await jobs.enqueue(PARAMS);
+    await jobs.runDue();
+
+    expect(jobs.getJob(job.key)).to.include({ state: 'confirmed', txHash: '0xtx2' });
+    expect(service.calls).to.deep.equal(['prepare', 'submit', 'status:0xtx1', 'submit', 'status:0xtx2', 'confirm:0xtx2']);
+  });
+
+  it('stops when a dropped transaction was overtaken by another proposal', async () => {
+    const service = new FakeService();
+    service.txStatuses = ['unknown'];
+    const jobs = runner(service);
+    const job = await jobs.enqueue(PARAMS);
+
+    // Someone else's proposal lands while ours is dropped
+    const submit = service.submitPreparedSettlement.bind(service);
+    service.submitPreparedSettlement = async () => {
+      const hash = await submit();
+      service.onChain = 'pending';
+      return hash;
+    };
+    await jobs.runDue();
+
+    const done = jobs.getJob(job.key)!;
+    expect(done.state).to.equal('confirmed');
+    expect(done.result).to.equal(undefined);
+    expect(done.note).to.match(/already pending/);
+    expect(service.calls.filter((c) => c === 'submit')).to.have.length(1);
+  });
+
+  it('fails after maxAttempts and retries from the failed step', async () => {
+    const service = new FakeService();
+    service.prepareErrors = 3;
+    const jobs = runner(service);
+    const failed = new Promise<SettlementJob>((resolve) => jobs.once('jobFailed', resolve));
+
+    const job = await jobs.enqueue(PARAMS);
+    await jobs.runDue();
+    expect(await failed).to.include({ state: 'failed', failedIn: 'requested', attempts: 3, lastError: 'Clearnode unreachable' });
+
+    await expect(jobs.retry('settle:other')).to.be.rejectedWith(/No settlement job/);
+    expect((await jobs.retry(job.key)).state).to.equal('requested');
+    await jobs.runDue();
+    expect(jobs.getJob(job.key)!.state).to.equal('confirmed');
+    await expect(jobs.retry(job.key)).to.be.rejectedWith(/is confirmed, not failed/);
+  });
+});
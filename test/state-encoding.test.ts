@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import type { PredictionState, SessionState, VoteState } from '../src/lib/yellow/nitrolite-client';
+import { hashSessionState } from '../src/lib/yellow/state-encoding';
+
+function prediction(id: string, overrides: Partial<PredictionState> = {}): PredictionState {
+  return { id, challengeId: 'ch1', reelId: 'r1', predictor: '0xAbC0000000000000000000000000000000000001', amount: 10n, timestamp: 1000, nonce: 1, ...overrides };
+}
+
+function vote(id: string): VoteState {
+  return { id, challengeId: 'ch1', reelId: 'r2', timestamp: 2000 };
+}
+
+function state(predictions: PredictionState[], votes: VoteState[] = []): SessionState {
+  return {
+    balance: 100n,
+    lockedAmount: predictions.reduce((sum, p) => sum + p.amount, 0n),
+    predictions: new Map(predictions.map((p) => [p.id, p])),
+    votes: new Map(votes.map((v) => [v.id, v])),
+    nonce: predictions.length + votes.length,
+    stateHash: '',
+  };
+}
+
+describe('state-encoding', () => {
+  it('hashes the same state the same way whatever the insertion order', () => {
+    const a = state([prediction('p1'), prediction('p2')], [vote('v1'), vote('v2')]);
+    const b = state([prediction('p2'), prediction('p1')], [vote('v2'), vote('v1')]);
+    expect(hashSessionState(a, 's1')).to.equal(hashSessionState(b, 's1'));
+  });
+
+  it('ignores predictor address case', () => {
+    const a = state([prediction('p1')]);
+    const b = state([prediction('p1', { predictor: '0xabc0000000000000000000000000000000000001' })]);
+    expect(hashSessionState(a, 's1')).to.equal(hashSessionState(b, 's1'));
+  });
+
+  it('ignores the stored stateHash', () => {
+    const a = state([prediction('p1')]);
+    const b = { ...a, stateHash: '0x1234' };
+    expect(hashSessionState(a, 's1')).to.equal(hashSessionState(b, 's1'));
+  });
+
+  it('changes with the session, amounts, nonces and attestations', () => {
+    const base = hashSessionState(state([prediction('p1')]), 's1');
+    expect(hashSessionState(state([prediction('p1')]), 's2')).to.not.equal(base);
+    expect(hashSessionState(state([prediction('p1', { amount: 11n })]), 's1')).to.not.equal(base);
+    expect(hashSessionState(state([prediction('p1', { nonce: 2 })]), 's1')).to.not.equal(base);
+    const attested = prediction('p1', {
+      attestation: {
+        predictionId: 'p1', challengeId: 'ch1', reelId: 'r1', predictor: '0xabc', amount: '10',
+        timestamp: 1000, signer: '0x0000000000000000000000000000000000000001', signature: '0x1234',
+      },
+    });
+    expect(hashSessionState(state([attested]), 's1')).to.not.equal(base);
+  });
+});
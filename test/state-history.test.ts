@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import type { Hex } from 'viem';
+import { zeroHash } from 'viem';
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import {
+  applyStateAction,
+  exportStateHistory,
+  hashHistoryEntry,
+  parseStateHistory,
+  replayStateHistory,
+  type StateAction,
+  type StateHistoryEntry,
+} from '../src/lib/yellow/state-history';
+import type { SessionState } from '../src/lib/yellow/nitrolite-client';
+
+const SESSION = 'session_1';
+const PREDICTOR = '0xAbC0000000000000000000000000000000000001';
+
+const ACTIONS: StateAction[] = [
+  { type: 'open', balance: '100' },
+  { type: 'predict', prediction: { id: 'p1', challengeId: 'ch1', reelId: 'r1', predictor: PREDICTOR, amount: '10', timestamp: 1000, nonce: 1 } },
+  { type: 'predict', prediction: { id: 'p2', challengeId: 'ch1', reelId: 'r2', predictor: PREDICTOR, amount: '5', timestamp: 1100, nonce: 2 } },
+  { type: 'update', predictionId: 'p1', amount: '20', timestamp: 1200 },
+  { type: 'cancel', predictionId: 'p2' },
+  { type: 'vote', vote: { id: 'v1', challengeId: 'ch1', reelId: 'r1', timestamp: 1300 } },
+];
+
+/** Sign an entry the way the client does */
+async function sign(account: PrivateKeyAccount, entry: Omit<StateHistoryEntry, 'signer' | 'signature'>): Promise<StateHistoryEntry> {
+  const signature = await account.signMessage({ message: { raw: hashHistoryEntry(SESSION, entry) } });
+  return { ...entry, signer: account.address, signature };
+}
+
+/** A signed log of `actions`, applied from an empty state */
+async function buildLog(account: PrivateKeyAccount, actions: StateAction[] = ACTIONS): Promise<StateHistoryEntry[]> {
+  const entries: StateHistoryEntry[] = [];
+  let state: SessionState | null = null;
+  for (const [seq, action] of actions.entries()) {
+    state = applyStateAction(state, action, SESSION);
+    entries.push(await sign(account, {
+      seq,
+      prevHash: (entries[seq - 1]?.stateHash ?? zeroHash) as Hex,
+      action,
+      stateHash: state.stateHash as Hex,
+      recordedAt: 1000 + seq,
+    }));
+  }
+  return entries;
+}
+
+describe('state-history', () => {
+  let account: PrivateKeyAccount;
+  let log: StateHistoryEntry[];
+
+  beforeEach(async () => {
+    account = privateKeyToAccount(generatePrivateKey());
+    log = await buildLog(account);
+  });
+
+  it('replays a signed log to the final state, also after export and import', async () => {
+    const result = await replayStateHistory(SESSION, log, account.address);
+    expect(result.ok).to.equal(true);
+    expect(result.verified).to.equal(ACTIONS.length);
+    expect(result.state!.stateHash).to.equal(log[log.length - 1].stateHash);
+    expect(result.state!.lockedAmount).to.equal(20n);
+    expect(Array.from(result.state!.predictions.keys())).to.deep.equal(['p1']);
+    expect(result.state!.votes.has('v1')).to.equal(true);
+
+    const imported = parseStateHistory(exportStateHistory(SESSION, log));
+    expect((await replayStateHistory(imported.sessionId, imported.entries)).ok).to.equal(true);
+    expect(() => parseStateHistory('{"domain":"other"}')).to.throw(/Not a state history export/);
+  });
+
+  it('stops at an edited action', async () => {
+    const edited = { ...log[3], action: { ...log[3].action, amount: '90' } as StateAction };
+
+    // Edited after signing: the signature no longer covers it
+    const unsigned = await replayStateHistory(SESSION, [...log.slice(0, 3), edited, ...log.slice(4)]);
+    expect(unsigned).to.include({ ok: false, verified: 3, failedAt: 3 });
+    expect(unsigned.error).to.match(/Signed by/);
+    expect(unsigned.state!.stateHash).to.equal(log[2].stateHash);
+
+    // Re-signed by the same key: the recorded stateHash gives it away
+    const resigned = await sign(account, edited);
+    const replayed = await replayStateHistory(SESSION, [...log.slice(0, 3), resigned, ...log.slice(4)]);
+    expect(replayed).to.include({ ok: false, failedAt: 3 });
+    expect(replayed.error).to.match(/Replayed stateHash/);
+  });
+
+  it('stops at a dropped or reordered entry', async () => {
+    const dropped = await replayStateHistory(SESSION, [...log.slice(0, 2), ...log.slice(3)]);
+    expect(dropped).to.include({ ok: false, verified: 2 });
+    expect(dropped.error).to.match(/Expected seq 2, got 3/);
+
+    const swapped = [log[0], log[2], log[1], ...log.slice(3)];
+    expect((await replayStateHistory(SESSION, swapped)).verified).to.equal(1);
+  });
+
+  it('stops at an entry that does not chain from the previous state', async () => {
+    const forked = await sign(account, { ...log[2], prevHash: log[0].stateHash });
+    const result = await replayStateHistory(SESSION, [log[0], log[1], forked]);
+    expect(result).to.include({ ok: false, failedAt: 2 });
+    expect(result.error).to.match(/does not chain/);
+  });
+
+  it('rejects a log signed by another key', async () => {
+    const other = privateKeyToAccount(generatePrivateKey());
+    const result = await replayStateHistory(SESSION, log, other.address);
+    expect(result).to.include({ ok: false, verified: 0, failedAt: 0 });
+    expect(result.state).to.equal(null);
+
+    // Mixing keys within one log is caught even without an expected signer
+    const spliced = [...log.slice(0, 2), await sign(other, log[2]), ...log.slice(3)];
+    expect((await replayStateHistory(SESSION, spliced)).failedAt).to.equal(2);
+  });
+
+  it('rejects a transition the state cannot take', async () => {
+    const overdrawn = await buildLog(account, ACTIONS.slice(0, 2));
+    const bad = await sign(account, {
+      seq: 2,
+      prevHash: overdrawn[1].stateHash,
+      action: { type: 'update', predictionId: 'p1', amount: '500', timestamp: 1200 },
+      stateHash: overdrawn[1].stateHash,
+      recordedAt: 1002,
+    });
+    const result = await replayStateHistory(SESSION, [...overdrawn, bad]);
+    expect(result).to.include({ ok: false, failedAt: 2 });
+    expect(result.error).to.match(/out of range/);
+  });
+});